@@ -4,6 +4,7 @@ import {
   Text,
   StyleSheet,
   FlatList,
+  Image,
   Pressable,
   TextInput,
   Modal,
@@ -13,8 +14,10 @@ import {
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { formatRating } from "@/components/rating-input";
 import { trpc } from "@/lib/trpc";
 import { useAuth } from "@/hooks/use-auth";
+import { useToday } from "@/hooks/use-today";
 import { router } from "expo-router";
 
 type FavoriteMeal = {
@@ -22,13 +25,21 @@ type FavoriteMeal = {
   dishName: string;
   category: "japanese" | "western" | "chinese" | "other";
   note: string | null;
+  thumbnailUrl: string | null;
   usageCount: number;
   lastUsedAt: Date | null;
+  // Aggregated from the meals recorded with this dish name
+  rating: {
+    averageRating: number | null;
+    ratingCount: number;
+    wouldEatAgain: boolean | null;
+  } | null;
 };
 
 export default function FavoritesScreen() {
   const insets = useSafeAreaInsets();
   const { isAuthenticated } = useAuth();
+  const { today } = useToday(isAuthenticated);
   const [favorites, setFavorites] = useState<FavoriteMeal[]>([]);
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
@@ -78,7 +89,6 @@ export default function FavoritesScreen() {
   const handleUseFavorite = async (favorite: FavoriteMeal) => {
     try {
       await trpc.favorites.use.mutate({ id: favorite.id });
-      const today = new Date().toISOString().split("T")[0];
       await trpc.meals.create.mutate({
         date: today,
         mealType: "lunch",
@@ -95,7 +105,7 @@ export default function FavoritesScreen() {
   };
 
   const handleDeleteFavorite = (id: number) => {
-    Alert.alert("確認", "このお気に入りを削除しますか？", [
+    Alert.alert("確認", "このお気に入りをゴミ箱に移動しますか？設定のゴミ箱から元に戻せます。", [
       { text: "キャンセル", style: "cancel" },
       {
         text: "削除",
@@ -197,19 +207,30 @@ export default function FavoritesScreen() {
           keyExtractor={(item) => item.id.toString()}
           renderItem={({ item }) => (
             <View style={styles.favoriteCard}>
-              <View style={styles.favoriteInfo}>
-                <ThemedText type="defaultSemiBold" style={styles.dishName}>
-                  {item.dishName}
-                </ThemedText>
-                <ThemedText style={styles.category}>
-                  {getCategoryLabel(item.category)}
-                </ThemedText>
-                {item.note && (
-                  <ThemedText style={styles.note}>{item.note}</ThemedText>
+              <View style={styles.favoriteHeader}>
+                {item.thumbnailUrl && (
+                  <Image source={{ uri: item.thumbnailUrl }} style={styles.thumbnail} />
                 )}
-                <ThemedText style={styles.usageCount}>
-                  使用回数: {item.usageCount}回
-                </ThemedText>
+                <View style={styles.favoriteInfo}>
+                  <ThemedText type="defaultSemiBold" style={styles.dishName}>
+                    {item.dishName}
+                  </ThemedText>
+                  <ThemedText style={styles.category}>
+                    {getCategoryLabel(item.category)}
+                  </ThemedText>
+                  {item.note && (
+                    <ThemedText style={styles.note}>{item.note}</ThemedText>
+                  )}
+                  {item.rating && formatRating(item.rating.averageRating, item.rating.wouldEatAgain) && (
+                    <ThemedText style={styles.rating}>
+                      {formatRating(item.rating.averageRating, item.rating.wouldEatAgain)}
+                      {item.rating.ratingCount > 0 ? `（${item.rating.averageRating} / ${item.rating.ratingCount}件）` : ""}
+                    </ThemedText>
+                  )}
+                  <ThemedText style={styles.usageCount}>
+                    使用回数: {item.usageCount}回
+                  </ThemedText>
+                </View>
               </View>
               <View style={styles.favoriteActions}>
                 <Pressable
@@ -218,6 +239,12 @@ export default function FavoritesScreen() {
                 >
                   <Text style={styles.useButtonText}>記録</Text>
                 </Pressable>
+                <Pressable
+                  style={styles.templateButton}
+                  onPress={() => router.push({ pathname: "/meal-templates", params: { favoriteId: String(item.id) } })}
+                >
+                  <Text style={styles.templateButtonText}>定番にする</Text>
+                </Pressable>
                 <Pressable
                   style={styles.deleteButton}
                   onPress={() => handleDeleteFavorite(item.id)}
@@ -390,9 +417,19 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
-  favoriteInfo: {
+  favoriteHeader: {
+    flexDirection: "row",
     marginBottom: 12,
   },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    marginRight: 12,
+  },
+  favoriteInfo: {
+    flex: 1,
+  },
   dishName: {
     fontSize: 18,
     marginBottom: 4,
@@ -407,6 +444,11 @@ const styles = StyleSheet.create({
     opacity: 0.8,
     marginBottom: 4,
   },
+  rating: {
+    fontSize: 13,
+    color: "#F5A623",
+    marginBottom: 4,
+  },
   usageCount: {
     fontSize: 12,
     opacity: 0.5,
@@ -427,6 +469,18 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "600",
   },
+  templateButton: {
+    flex: 1,
+    backgroundColor: "#f0f0f0",
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  templateButtonText: {
+    color: "#FF6B35",
+    fontSize: 14,
+    fontWeight: "600",
+  },
   deleteButton: {
     flex: 1,
     backgroundColor: "#f0f0f0",
@@ -1,21 +1,30 @@
 import { useRouter } from "expo-router";
-import { useState, useMemo } from "react";
+import { useEffect, useState, useMemo } from "react";
 import {
   ActivityIndicator,
+  Image,
   Pressable,
   ScrollView,
   StyleSheet,
+  TextInput,
   View,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { MealCard } from "@/components/meal-card";
+import { MealHistoryList } from "@/components/meal-history-list";
+import { MealPlanList } from "@/components/meal-plan-list";
+import { MealSearchResults } from "@/components/meal-search-results";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { MEAL_TYPE_OPTIONS } from "@/constants/meals";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { useAuth } from "@/hooks/use-auth";
+import { useToday } from "@/hooks/use-today";
 import { useLocalMeals } from "@/hooks/use-local-meals";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { trpc } from "@/lib/trpc";
+import { formatLocalDate } from "@/shared/dates";
 
 const categoryLabels: Record<string, string> = {
   japanese: "和食",
@@ -57,12 +66,9 @@ function getMonthDates(year: number, month: number): (Date | null)[][] {
   return weeks;
 }
 
-function formatDate(date: Date): string {
-  return date.toISOString().split("T")[0];
-}
-
 export default function HistoryScreen() {
   const { isAuthenticated, loading: authLoading } = useAuth();
+  const { today } = useToday(isAuthenticated);
   const router = useRouter();
   const colorScheme = useColorScheme() ?? "light";
   const colors = Colors[colorScheme];
@@ -70,15 +76,30 @@ export default function HistoryScreen() {
 
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<"calendar" | "list">("calendar");
+  const [calendarGrouping, setCalendarGrouping] = useState<"mealType" | "category">("mealType");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+
+  // Debounce the search box so the server isn't queried on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
 
-  const startDate = formatDate(new Date(year, month, 1));
-  const endDate = formatDate(new Date(year, month + 1, 0));
+  const startDate = formatLocalDate(new Date(year, month, 1));
+  const endDate = formatLocalDate(new Date(year, month + 1, 0));
 
   // Local storage for guest mode
-  const { getMealsByDateRange: getLocalMealsByDateRange, loading: localLoading } = useLocalMeals();
+  const {
+    meals: localMeals,
+    getMealsByDateRange: getLocalMealsByDateRange,
+    loading: localLoading,
+  } = useLocalMeals();
 
   // Server data for logged-in users
   const { data: serverMeals, isLoading: serverLoading } = trpc.meals.getByDateRange.useQuery(
@@ -86,6 +107,15 @@ export default function HistoryScreen() {
     { enabled: isAuthenticated }
   );
 
+  const { data: customCategories } = trpc.categories.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const { data: tags } = trpc.meals.getTags.useQuery(undefined, { enabled: isAuthenticated });
+  const { data: mealPlans } = trpc.mealPlans.list.useQuery(
+    { startDate, endDate },
+    { enabled: isAuthenticated }
+  );
+
   const isLoading = authLoading || (isAuthenticated ? serverLoading : localLoading);
   const monthMeals = isAuthenticated ? serverMeals : getLocalMealsByDateRange(startDate, endDate);
 
@@ -93,6 +123,7 @@ export default function HistoryScreen() {
     const map: Record<string, typeof monthMeals> = {};
     if (monthMeals) {
       monthMeals.forEach((meal: any) => {
+        if (tagFilter && !(meal.tags ?? []).includes(tagFilter)) return;
         if (!map[meal.date]) {
           map[meal.date] = [];
         }
@@ -100,11 +131,62 @@ export default function HistoryScreen() {
       });
     }
     return map;
-  }, [monthMeals]);
+  }, [monthMeals, tagFilter]);
+
+  const plansByDate = useMemo(() => {
+    const map: Record<string, NonNullable<typeof mealPlans>> = {};
+    mealPlans?.forEach((plan) => {
+      (map[plan.date] ??= []).push(plan);
+    });
+    return map;
+  }, [mealPlans]);
+  const hasOpenPlans = (dateStr: string) =>
+    (plansByDate[dateStr] ?? []).some((plan) => plan.mealRecordId === null);
+
+  // Calendar dot for a meal when grouping by category (custom categories use their own color)
+  const getCategoryGroup = (meal: any): { key: string; color: string; label: string } => {
+    const custom = customCategories?.find((c) => c.id === meal.customCategoryId);
+    if (custom) {
+      return { key: `custom-${custom.id}`, color: custom.color, label: `${custom.icon} ${custom.name}` };
+    }
+    return {
+      key: meal.category,
+      color: colors[meal.category as keyof typeof colors] || colors.tint,
+      label: categoryLabels[meal.category],
+    };
+  };
+
+  const getDayDots = (dateStr: string): { key: string; color: string; label: string }[] => {
+    const dayMeals = mealsByDate[dateStr] ?? [];
+    if (calendarGrouping === "mealType") {
+      return MEAL_TYPE_OPTIONS.filter((option) =>
+        dayMeals.some((meal: any) => meal.mealType === option.key)
+      ).map((option) => ({ key: option.key, color: colors[option.key], label: option.label }));
+    }
+    const groups = new Map<string, { key: string; color: string; label: string }>();
+    dayMeals.forEach((meal: any) => {
+      const group = getCategoryGroup(meal);
+      groups.set(group.key, group);
+    });
+    return Array.from(groups.values());
+  };
+
+  // First photo of the day, shown faintly behind the date
+  const getDayThumbnail = (dateStr: string): string | null =>
+    (mealsByDate[dateStr] ?? []).map((meal: any) => meal.thumbnailUrl).find(Boolean) ?? null;
+
+  const legend = Array.from(
+    new Map(
+      Object.keys(mealsByDate)
+        .flatMap((dateStr) => getDayDots(dateStr))
+        .map((dot) => [dot.key, dot])
+    ).values()
+  );
 
   const weeks = useMemo(() => getMonthDates(year, month), [year, month]);
 
   const selectedMeals = selectedDate ? mealsByDate[selectedDate] : null;
+  const selectedPlans = selectedDate ? plansByDate[selectedDate] ?? [] : [];
 
   const goToPreviousMonth = () => {
     setCurrentDate(new Date(year, month - 1, 1));
@@ -116,6 +198,16 @@ export default function HistoryScreen() {
     setSelectedDate(null);
   };
 
+  // Month facet tapped in the search results (YYYY-MM)
+  const showMonthInCalendar = (monthStr: string) => {
+    const [y, m] = monthStr.split("-").map(Number);
+    setCurrentDate(new Date(y, m - 1, 1));
+    setSelectedDate(null);
+    setViewMode("calendar");
+    setSearchInput("");
+    setSearchQuery("");
+  };
+
   if (authLoading) {
     return (
       <ThemedView style={styles.loadingContainer}>
@@ -124,36 +216,121 @@ export default function HistoryScreen() {
     );
   }
 
+  const listHeader = (
+    <>
+      {/* Header */}
+      <View style={styles.header}>
+        <ThemedText style={styles.headerEmoji}>📅</ThemedText>
+        <ThemedText type="title">食事履歴</ThemedText>
+      </View>
+
+      {/* Guest Mode Notice */}
+      {!isAuthenticated && (
+        <Pressable
+          style={[styles.guestNotice, { backgroundColor: colors.tint + "15", borderColor: colors.tint }]}
+          onPress={() => router.push("/modal")}
+        >
+          <ThemedText style={[styles.guestNoticeText, { color: colors.textSecondary }]}>
+            📱 ゲストモードの記録を表示中
+          </ThemedText>
+          <ThemedText style={[styles.guestNoticeLink, { color: colors.tint }]}>
+            ログインしてクラウド同期 →
+          </ThemedText>
+        </Pressable>
+      )}
+
+      {/* View Mode Toggle */}
+      <View style={[styles.viewToggle, { backgroundColor: colors.card }]}>
+        {(
+          [
+            { key: "calendar", label: "📅 カレンダー" },
+            { key: "list", label: "📜 リスト" },
+          ] as const
+        ).map((option) => (
+          <Pressable
+            key={option.key}
+            style={[styles.viewToggleButton, viewMode === option.key && { backgroundColor: colors.tint }]}
+            onPress={() => setViewMode(option.key)}
+          >
+            <ThemedText
+              style={[styles.viewToggleText, viewMode === option.key && styles.viewToggleTextActive]}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+    </>
+  );
+
+  const contentContainerStyle = [
+    styles.scrollContent,
+    { paddingTop: Spacing.md, paddingBottom: insets.bottom + 100 },
+  ];
+
+  // Stays mounted across calendar / list / search so typing keeps focus
+  const searchBar = (
+    <View style={[styles.searchBar, { paddingTop: insets.top + Spacing.sm }]}>
+      <TextInput
+        style={[
+          styles.searchInput,
+          { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+        ]}
+        placeholder="🔍 料理名やメモで検索（例: 親子丼）"
+        placeholderTextColor={colors.textDisabled}
+        value={searchInput}
+        onChangeText={setSearchInput}
+        returnKeyType="search"
+        clearButtonMode="while-editing"
+        maxLength={100}
+      />
+    </View>
+  );
+
+  if (searchQuery) {
+    return (
+      <ThemedView style={styles.container}>
+        {searchBar}
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={contentContainerStyle}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <MealSearchResults
+            query={searchQuery}
+            isAuthenticated={isAuthenticated}
+            localMeals={localMeals}
+            onSelectMonth={showMonthInCalendar}
+          />
+        </ScrollView>
+      </ThemedView>
+    );
+  }
+
+  if (viewMode === "list") {
+    return (
+      <ThemedView style={styles.container}>
+        {searchBar}
+        <MealHistoryList
+          isAuthenticated={isAuthenticated}
+          localMeals={localMeals}
+          ListHeaderComponent={listHeader}
+          contentContainerStyle={contentContainerStyle}
+        />
+      </ThemedView>
+    );
+  }
+
   return (
     <ThemedView style={styles.container}>
+      {searchBar}
       <ScrollView
         style={styles.scrollView}
-        contentContainerStyle={[
-          styles.scrollContent,
-          { paddingTop: insets.top + Spacing.md, paddingBottom: insets.bottom + 100 },
-        ]}
+        contentContainerStyle={contentContainerStyle}
         showsVerticalScrollIndicator={false}
       >
-        {/* Header */}
-        <View style={styles.header}>
-          <ThemedText style={styles.headerEmoji}>📅</ThemedText>
-          <ThemedText type="title">食事履歴</ThemedText>
-        </View>
-
-        {/* Guest Mode Notice */}
-        {!isAuthenticated && (
-          <Pressable
-            style={[styles.guestNotice, { backgroundColor: colors.tint + "15", borderColor: colors.tint }]}
-            onPress={() => router.push("/modal")}
-          >
-            <ThemedText style={[styles.guestNoticeText, { color: colors.textSecondary }]}>
-              📱 ゲストモードの記録を表示中
-            </ThemedText>
-            <ThemedText style={[styles.guestNoticeLink, { color: colors.tint }]}>
-              ログインしてクラウド同期 →
-            </ThemedText>
-          </Pressable>
-        )}
+        {listHeader}
 
         {/* Month Navigation */}
         <View style={[styles.monthNav, { backgroundColor: colors.card }]}>
@@ -172,6 +349,51 @@ export default function HistoryScreen() {
           </Pressable>
         </View>
 
+        {/* Calendar grouping and tag filter */}
+        <View style={styles.filterRow}>
+          {(
+            [
+              { key: "mealType", label: "食事タイプ" },
+              { key: "category", label: "カテゴリ" },
+            ] as const
+          ).map((option) => {
+            const active = calendarGrouping === option.key;
+            return (
+              <Pressable
+                key={option.key}
+                style={[
+                  styles.filterChip,
+                  { borderColor: active ? colors.tint : colors.border },
+                  active && { backgroundColor: colors.tint },
+                ]}
+                onPress={() => setCalendarGrouping(option.key)}
+              >
+                <ThemedText style={[styles.filterChipText, active && styles.filterChipTextActive]}>
+                  {option.label}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+          {tags?.slice(0, 8).map((tag) => {
+            const active = tagFilter === tag;
+            return (
+              <Pressable
+                key={tag}
+                style={[
+                  styles.filterChip,
+                  { borderColor: active ? colors.tint : colors.border },
+                  active && { backgroundColor: colors.tint },
+                ]}
+                onPress={() => setTagFilter(active ? null : tag)}
+              >
+                <ThemedText style={[styles.filterChipText, active && styles.filterChipTextActive]}>
+                  #{tag}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+
         {/* Calendar */}
         <View style={[styles.calendar, { backgroundColor: colors.card }]}>
           <View style={styles.weekdayRow}>
@@ -208,10 +430,12 @@ export default function HistoryScreen() {
                     return <View key={dayIndex} style={styles.dayCell} />;
                   }
 
-                  const dateStr = formatDate(date);
-                  const hasMeals = mealsByDate[dateStr] && mealsByDate[dateStr]!.length > 0;
+                  const dateStr = formatLocalDate(date);
+                  const dots = getDayDots(dateStr);
+                  const planned = hasOpenPlans(dateStr);
+                  const thumbnailUrl = getDayThumbnail(dateStr);
                   const isSelected = selectedDate === dateStr;
-                  const isToday = dateStr === formatDate(new Date());
+                  const isToday = dateStr === today;
 
                   return (
                     <Pressable
@@ -223,6 +447,9 @@ export default function HistoryScreen() {
                       ]}
                       onPress={() => setSelectedDate(dateStr)}
                     >
+                      {thumbnailUrl && !isSelected && (
+                        <Image source={{ uri: thumbnailUrl }} style={styles.dayThumbnail} />
+                      )}
                       <ThemedText
                         style={[
                           styles.dayText,
@@ -240,13 +467,23 @@ export default function HistoryScreen() {
                       >
                         {date.getDate()}
                       </ThemedText>
-                      {hasMeals && (
-                        <View
-                          style={[
-                            styles.mealDot,
-                            { backgroundColor: isSelected ? "#FFFFFF" : colors.tint },
-                          ]}
-                        />
+                      {(dots.length > 0 || planned) && (
+                        <View style={styles.mealDots}>
+                          {dots.slice(0, 4).map((dot) => (
+                            <View
+                              key={dot.key}
+                              style={[
+                                styles.mealDot,
+                                { backgroundColor: isSelected ? "#FFFFFF" : dot.color },
+                              ]}
+                            />
+                          ))}
+                          {planned && (
+                            <View
+                              style={[styles.planMarker, { borderColor: isSelected ? "#FFFFFF" : colors.tint }]}
+                            />
+                          )}
+                        </View>
                       )}
                     </Pressable>
                   );
@@ -256,6 +493,26 @@ export default function HistoryScreen() {
           )}
         </View>
 
+        {/* Legend */}
+        {(legend.length > 0 || (mealPlans?.length ?? 0) > 0) && (
+          <View style={styles.legend}>
+            {legend.map((dot) => (
+              <View key={dot.key} style={styles.legendItem}>
+                <View style={[styles.mealDot, { backgroundColor: dot.color }]} />
+                <ThemedText style={[styles.legendText, { color: colors.textSecondary }]}>
+                  {dot.label}
+                </ThemedText>
+              </View>
+            ))}
+            {(mealPlans?.length ?? 0) > 0 && (
+              <View style={styles.legendItem}>
+                <View style={[styles.planMarker, { borderColor: colors.tint }]} />
+                <ThemedText style={[styles.legendText, { color: colors.textSecondary }]}>予定</ThemedText>
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Selected Date Details */}
         {selectedDate && (
           <View style={styles.detailsSection}>
@@ -267,46 +524,33 @@ export default function HistoryScreen() {
               })}
             </ThemedText>
 
+            {selectedPlans.length > 0 && (
+              <MealPlanList date={selectedDate} today={today} plans={selectedPlans} />
+            )}
+
             {selectedMeals && selectedMeals.length > 0 ? (
               selectedMeals.map((meal: any) => (
-                <View
+                <MealCard
                   key={meal.id}
-                  style={[styles.mealCard, { backgroundColor: colors.card }]}
-                >
-                  <View style={styles.mealHeader}>
-                    <ThemedText style={styles.mealEmoji}>
-                      {meal.mealType === "lunch" ? "🍱" : "🍽️"}
-                    </ThemedText>
-                    <View style={styles.mealInfo}>
-                      <ThemedText style={[styles.mealType, { color: colors.textSecondary }]}>
-                        {meal.mealType === "lunch" ? "ランチ" : "ディナー"}
-                      </ThemedText>
-                      <ThemedText style={styles.mealName}>{meal.dishName}</ThemedText>
-                    </View>
-                    <View
-                      style={[
-                        styles.categoryBadge,
-                        { backgroundColor: colors[meal.category as keyof typeof colors] || colors.tint },
-                      ]}
-                    >
-                      <ThemedText style={styles.categoryText}>
-                        {categoryLabels[meal.category]}
-                      </ThemedText>
-                    </View>
-                  </View>
-                  {meal.note && (
-                    <ThemedText style={[styles.mealNote, { color: colors.textSecondary }]}>
-                      {meal.note}
-                    </ThemedText>
-                  )}
-                </View>
+                  meal={meal}
+                  onPress={() => router.push({ pathname: "/edit-meal", params: { id: String(meal.id) } })}
+                />
               ))
-            ) : (
+            ) : selectedPlans.length === 0 ? (
               <View style={[styles.emptyCard, { backgroundColor: colors.card }]}>
                 <ThemedText style={[styles.emptyText, { color: colors.textSecondary }]}>
                   この日の記録はありません
                 </ThemedText>
               </View>
+            ) : null}
+
+            {isAuthenticated && selectedDate >= today && (
+              <Pressable
+                style={[styles.addPlanButton, { borderColor: colors.tint }]}
+                onPress={() => router.push({ pathname: "/meal-plan", params: { date: selectedDate } })}
+              >
+                <ThemedText style={[styles.addPlanButtonText, { color: colors.tint }]}>＋ 予定を追加</ThemedText>
+              </Pressable>
             )}
           </View>
         )}
@@ -330,6 +574,18 @@ const styles = StyleSheet.create({
   scrollContent: {
     paddingHorizontal: Spacing.md,
   },
+  searchBar: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    lineHeight: 22,
+  },
   header: {
     alignItems: "center",
     marginBottom: Spacing.lg,
@@ -371,6 +627,62 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: "bold",
   },
+  viewToggle: {
+    flexDirection: "row",
+    borderRadius: BorderRadius.md,
+    padding: 4,
+    marginBottom: Spacing.md,
+  },
+  viewToggleButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  viewToggleText: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  viewToggleTextActive: {
+    color: "#FFFFFF",
+  },
+  filterRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  filterChip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  filterChipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  filterChipTextActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.md,
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  legendText: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
   calendar: {
     borderRadius: BorderRadius.lg,
     padding: Spacing.md,
@@ -400,17 +712,32 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     borderRadius: BorderRadius.sm,
     margin: 2,
+    overflow: "hidden",
+  },
+  dayThumbnail: {
+    ...StyleSheet.absoluteFillObject,
+    opacity: 0.35,
   },
   dayText: {
     fontSize: 14,
     fontWeight: "500",
     lineHeight: 20,
   },
+  mealDots: {
+    flexDirection: "row",
+    gap: 2,
+    marginTop: 2,
+  },
   mealDot: {
     width: 6,
     height: 6,
     borderRadius: 3,
-    marginTop: 2,
+  },
+  planMarker: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    borderWidth: 1,
   },
   calendarLoading: {
     paddingVertical: Spacing.xl,
@@ -422,55 +749,26 @@ const styles = StyleSheet.create({
   detailsTitle: {
     marginBottom: Spacing.md,
   },
-  mealCard: {
-    padding: Spacing.md,
+  emptyCard: {
+    padding: Spacing.lg,
     borderRadius: BorderRadius.lg,
-    marginBottom: Spacing.sm,
-  },
-  mealHeader: {
-    flexDirection: "row",
     alignItems: "center",
   },
-  mealEmoji: {
-    fontSize: 32,
-    marginRight: Spacing.md,
-  },
-  mealInfo: {
-    flex: 1,
-  },
-  mealType: {
-    fontSize: 12,
-    lineHeight: 16,
-  },
-  mealName: {
-    fontSize: 16,
-    fontWeight: "600",
-    lineHeight: 22,
-  },
-  categoryBadge: {
-    paddingVertical: Spacing.xs,
-    paddingHorizontal: Spacing.sm,
-    borderRadius: BorderRadius.sm,
-  },
-  categoryText: {
-    color: "#FFFFFF",
-    fontSize: 10,
-    fontWeight: "600",
-    lineHeight: 14,
-  },
-  mealNote: {
+  emptyText: {
     fontSize: 14,
     lineHeight: 20,
-    marginTop: Spacing.sm,
-    paddingLeft: 48,
   },
-  emptyCard: {
-    padding: Spacing.lg,
-    borderRadius: BorderRadius.lg,
+  addPlanButton: {
+    marginTop: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderStyle: "dashed",
     alignItems: "center",
   },
-  emptyText: {
+  addPlanButtonText: {
     fontSize: 14,
+    fontWeight: "600",
     lineHeight: 20,
   },
 });
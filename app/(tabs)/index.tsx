@@ -12,8 +12,12 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { LeftoverSuggestionsCard } from "@/components/leftover-suggestions-card";
+import { TemplateSuggestionsCard } from "@/components/template-suggestions-card";
+import { mealTypeEmojis, mealTypeLabels } from "@/constants/meals";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { useAuth } from "@/hooks/use-auth";
+import { useToday } from "@/hooks/use-today";
 import { useLocalMeals, LocalMealRecord } from "@/hooks/use-local-meals";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { trpc } from "@/lib/trpc";
@@ -25,18 +29,13 @@ const categoryLabels: Record<string, string> = {
   other: "その他",
 };
 
-function getTodayDate(): string {
-  const today = new Date();
-  return today.toISOString().split("T")[0];
-}
-
 export default function HomeScreen() {
   const { user, isAuthenticated, loading: authLoading } = useAuth();
   const router = useRouter();
   const colorScheme = useColorScheme() ?? "light";
   const colors = Colors[colorScheme];
   const insets = useSafeAreaInsets();
-  const [todayDate] = useState(getTodayDate());
+  const { today: todayDate } = useToday(isAuthenticated);
   const [refreshing, setRefreshing] = useState(false);
 
   // Local storage for guest mode
@@ -120,11 +119,12 @@ export default function HomeScreen() {
               : "こんにちは"}
           </ThemedText>
           <ThemedText style={[styles.dateText, { color: colors.textSecondary }]}>
-            {new Date().toLocaleDateString("ja-JP", {
+            {new Date(`${todayDate}T00:00:00Z`).toLocaleDateString("ja-JP", {
               year: "numeric",
               month: "long",
               day: "numeric",
               weekday: "long",
+              timeZone: "UTC",
             })}
           </ThemedText>
         </View>
@@ -150,6 +150,12 @@ export default function HomeScreen() {
           </Pressable>
         )}
 
+        {/* Recurring meal templates scheduled today */}
+        {isAuthenticated && <TemplateSuggestionsCard date={todayDate} />}
+
+        {/* Recent dinner leftovers as today's lunch */}
+        {isAuthenticated && <LeftoverSuggestionsCard date={todayDate} />}
+
         {/* Today's Lunch Card */}
         <View style={[styles.card, { backgroundColor: colors.card }]}>
           <View style={styles.cardHeader}>
@@ -159,7 +165,10 @@ export default function HomeScreen() {
           {isLoading ? (
             <ActivityIndicator size="small" color={colors.tint} />
           ) : todayLunch ? (
-            <View style={styles.mealInfo}>
+            <Pressable
+              style={styles.mealInfo}
+              onPress={() => router.push({ pathname: "/edit-meal", params: { id: String(todayLunch.id) } })}
+            >
               <ThemedText style={styles.dishName}>{todayLunch.dishName}</ThemedText>
               <View
                 style={[
@@ -176,7 +185,7 @@ export default function HomeScreen() {
                   {todayLunch.note}
                 </ThemedText>
               )}
-            </View>
+            </Pressable>
           ) : (
             <Pressable
               style={[styles.recordButton, { backgroundColor: colors.tint }]}
@@ -238,7 +247,10 @@ export default function HomeScreen() {
               <ThemedText style={styles.cardEmoji}>🍽️</ThemedText>
               <ThemedText type="subtitle">今日のディナー</ThemedText>
             </View>
-            <View style={styles.mealInfo}>
+            <Pressable
+              style={styles.mealInfo}
+              onPress={() => router.push({ pathname: "/edit-meal", params: { id: String(todayDinner.id) } })}
+            >
               <ThemedText style={styles.dishName}>{todayDinner.dishName}</ThemedText>
               <View
                 style={[
@@ -250,7 +262,7 @@ export default function HomeScreen() {
                   {categoryLabels[todayDinner.category]}
                 </ThemedText>
               </View>
-            </View>
+            </Pressable>
           </View>
         )}
 
@@ -261,18 +273,19 @@ export default function HomeScreen() {
               最近の食事
             </ThemedText>
             {recentMeals.slice(0, 5).map((meal: any) => (
-              <View
+              <Pressable
                 key={meal.id}
                 style={[styles.recentItem, { backgroundColor: colors.card }]}
+                onPress={() => router.push({ pathname: "/edit-meal", params: { id: String(meal.id) } })}
               >
                 <View style={styles.recentItemLeft}>
                   <ThemedText style={styles.recentEmoji}>
-                    {meal.mealType === "lunch" ? "🍱" : "🍽️"}
+                    {mealTypeEmojis[meal.mealType]}
                   </ThemedText>
                   <View>
                     <ThemedText style={styles.recentDish}>{meal.dishName}</ThemedText>
                     <ThemedText style={[styles.recentDate, { color: colors.textSecondary }]}>
-                      {meal.date} - {meal.mealType === "lunch" ? "ランチ" : "ディナー"}
+                      {meal.date} - {mealTypeLabels[meal.mealType]}
                     </ThemedText>
                   </View>
                 </View>
@@ -286,7 +299,7 @@ export default function HomeScreen() {
                     {categoryLabels[meal.category]}
                   </ThemedText>
                 </View>
-              </View>
+              </Pressable>
             ))}
           </View>
         )}
@@ -14,6 +14,7 @@ import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { useAuth } from "@/hooks/use-auth";
+import { useToday } from "@/hooks/use-today";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { trpc } from "@/lib/trpc";
 
@@ -39,11 +40,6 @@ const categoryEmojis: Record<string, string> = {
   other: "🍽️",
 };
 
-function getTodayDate(): string {
-  const today = new Date();
-  return today.toISOString().split("T")[0];
-}
-
 export default function RecommendScreen() {
   const { isAuthenticated, loading: authLoading } = useAuth();
   const router = useRouter();
@@ -54,7 +50,7 @@ export default function RecommendScreen() {
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSelecting, setIsSelecting] = useState(false);
-  const [todayDate] = useState(getTodayDate());
+  const { today: todayDate } = useToday(isAuthenticated);
 
   const { data: todayMeals } = trpc.meals.getByDate.useQuery(
     { date: todayDate },
@@ -103,6 +99,13 @@ export default function RecommendScreen() {
       const result = await getRecommendationsMutation.mutateAsync({
         lunchDishName: todayLunch.dishName,
         lunchCategory: todayLunch.category as Category,
+        lunchItems: todayLunch.items.map((item) => ({
+          dishName: item.dishName,
+          category: item.category,
+          portion: item.portion ?? undefined,
+        })),
+        lunchSource: todayLunch.source ?? undefined,
+        lunchVenueName: todayLunch.venueName ?? undefined,
       });
       setRecommendations(result);
     } catch (error) {
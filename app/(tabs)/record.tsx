@@ -1,6 +1,6 @@
 import * as ImagePicker from "expo-image-picker";
 import { useRouter } from "expo-router";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -13,32 +13,58 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { CategoryPicker } from "@/components/category-picker";
+import { MealItemsEditor, type MealItemDraft } from "@/components/meal-items-editor";
+import { DishCandidateChips, type DishCandidate } from "@/components/dish-candidate-chips";
+import {
+  DetectedDishesEditor,
+  DishBoxesOverlay,
+  toMealItem,
+  type DetectedDishDraft,
+} from "@/components/detected-dishes-editor";
+import {
+  EMPTY_NUTRITION_DRAFT,
+  NutritionEditor,
+  fromNutritionDraft,
+  isNutritionDraftEmpty,
+  toNutritionDraft,
+  type NutritionDraft,
+} from "@/components/nutrition-editor";
+import { LeftoverPortionsInput } from "@/components/leftover-portions-input";
+import { LeftoverSuggestionsCard } from "@/components/leftover-suggestions-card";
+import { TagInput } from "@/components/tag-input";
+import { EMPTY_RATING_DRAFT, RatingInput, type RatingDraft } from "@/components/rating-input";
+import { EMPTY_PRICE_DRAFT, fromPriceDraft, PriceInput, type PriceDraft } from "@/components/price-input";
+import { EMPTY_VENUE_DRAFT, fromVenueDraft, readExifLocation, VenuePicker, type VenueDraft } from "@/components/venue-picker";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { MEAL_TYPE_OPTIONS, mealTypeLabels } from "@/constants/meals";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { useAuth } from "@/hooks/use-auth";
+import { useToday } from "@/hooks/use-today";
 import { useLocalMeals } from "@/hooks/use-local-meals";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { uploadPhoto } from "@/lib/api";
 import { trpc } from "@/lib/trpc";
+import { normalizeBarcode } from "@/shared/barcode";
+import { getAnalysisPrefill, type AnalysisPrefill, type PhotoAnalysis } from "@/shared/analysis-prefill";
+import { ANALYSIS_CONFIDENCE_THRESHOLD, type MealType } from "@/shared/const";
+import { suggestMealFromPhoto, type PhotoMealSuggestion } from "@/shared/photo-time";
 
 type Category = "japanese" | "western" | "chinese" | "other";
 
-const categories: { key: Category; label: string; emoji: string }[] = [
-  { key: "japanese", label: "和食", emoji: "🍱" },
-  { key: "western", label: "洋食", emoji: "🍝" },
-  { key: "chinese", label: "中華", emoji: "🥟" },
-  { key: "other", label: "その他", emoji: "🍽️" },
-];
+type InputMode = "photo" | "text";
 
-function getTodayDate(): string {
-  const today = new Date();
-  return today.toISOString().split("T")[0];
-}
+// "package": packaged foods, read from the barcode / nutrition label and the product catalog
+type AnalysisMode = "dish" | "package";
 
-type InputMode = "photo" | "text";
+type StoredPhoto = { imageUrl: string; imageKey: string; thumbnailUrl: string; thumbnailKey: string };
+
+type DetectedDish = Omit<DetectedDishDraft, "selected">;
 
 export default function RecordScreen() {
   const { isAuthenticated, loading: authLoading } = useAuth();
+  const { today } = useToday(isAuthenticated);
   const { addMeal: addLocalMeal } = useLocalMeals();
   const router = useRouter();
   const colorScheme = useColorScheme() ?? "light";
@@ -46,25 +72,94 @@ export default function RecordScreen() {
   const insets = useSafeAreaInsets();
 
   const [inputMode, setInputMode] = useState<InputMode>("photo");
+  const [mealType, setMealType] = useState<MealType>("lunch");
+  // Set once the user confirms a photo's capture date; otherwise the meal is for today
+  const [recordDate, setRecordDate] = useState<string | null>(null);
+  const mealDate = recordDate ?? today;
   const [dishName, setDishName] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<Category>("japanese");
+  const [customCategoryId, setCustomCategoryId] = useState<number | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [rating, setRating] = useState<RatingDraft>(EMPTY_RATING_DRAFT);
+  const [price, setPrice] = useState<PriceDraft>(EMPTY_PRICE_DRAFT);
+  const [venue, setVenue] = useState<VenueDraft>(EMPTY_VENUE_DRAFT);
+  const [leftoverPortions, setLeftoverPortions] = useState<number | null>(null);
   const [note, setNote] = useState("");
+  // Added by hand; the dishes checked in the photo are saved ahead of these
+  const [items, setItems] = useState<MealItemDraft[]>([]);
+  const [nutrition, setNutrition] = useState<NutritionDraft>(EMPTY_NUTRITION_DRAFT);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Photo related state
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedImageSize, setSelectedImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [detectedDishes, setDetectedDishes] = useState<DetectedDishDraft[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  // The server returned its earlier result for this same photo
+  const [isCachedAnalysis, setIsCachedAnalysis] = useState(false);
+  // Dish name candidates from the photo; below the threshold nothing is filled in for the user
+  const [dishCandidates, setDishCandidates] = useState<DishCandidate[]>([]);
+  const [analysisConfidence, setAnalysisConfidence] = useState<number | null>(null);
+  // A low-confidence analysis, held back until the user picks one of its candidates
+  const [pendingAnalysis, setPendingAnalysis] = useState<PhotoAnalysis<DetectedDish> | null>(null);
+  const dishNameInputRef = useRef<TextInput>(null);
+  // Display image and thumbnail stored by the server during analysis
+  const [storedPhoto, setStoredPhoto] = useState<StoredPhoto | null>(null);
+  // Date and meal type read from the photo's EXIF, waiting for the user to confirm
+  const [photoSuggestion, setPhotoSuggestion] = useState<PhotoMealSuggestion | null>(null);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>("dish");
+  // Catalog product the form was filled from
+  const [catalogProduct, setCatalogProduct] = useState<{ barcode: string; name: string } | null>(null);
+  // Barcode of a product not in the catalog yet, while the user checks it before adding
+  const [newProductBarcode, setNewProductBarcode] = useState<string | null>(null);
+
+  // Custom categories and past tags for logged-in users
+  const { data: customCategories } = trpc.categories.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const { data: tagSuggestions } = trpc.meals.getTags.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const { data: recentVenues } = trpc.meals.getRecentVenues.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
 
   const utils = trpc.useUtils();
   const createMealMutation = trpc.meals.create.useMutation({
     onSuccess: () => {
       utils.meals.getByDate.invalidate();
       utils.meals.getRecent.invalidate();
+      utils.meals.list.invalidate();
+      utils.meals.getTags.invalidate();
+      utils.leftovers.getSuggestions.invalidate();
+      utils.pantry.list.invalidate();
     },
   });
   
   const analyzeFoodMutation = trpc.imageAnalysis.analyzeFood.useMutation();
+  const analyzePackagedFoodMutation = trpc.imageAnalysis.analyzePackagedFood.useMutation();
+  const createProductMutation = trpc.products.create.useMutation();
+
+  // Fill in where the photo was taken unless a venue location is already set
+  const applyPhotoLocation = (exif: Record<string, unknown> | null | undefined) => {
+    const location = readExifLocation(exif);
+    if (!location) return;
+    setVenue((current) => (current.latitude !== null ? current : { ...current, ...location }));
+  };
+
+  // EXIF is read here because the server strips it before storing the photo
+  const applyPhotoCaptureTime = (exif: Record<string, unknown> | null | undefined) => {
+    const suggestion = suggestMealFromPhoto(exif, today);
+    const differs = suggestion && (suggestion.mealDate !== mealDate || suggestion.mealType !== mealType);
+    setPhotoSuggestion(differs ? suggestion : null);
+  };
+
+  const acceptPhotoSuggestion = () => {
+    if (!photoSuggestion) return;
+    setRecordDate(photoSuggestion.mealDate === today ? null : photoSuggestion.mealDate);
+    setMealType(photoSuggestion.mealType);
+    setPhotoSuggestion(null);
+  };
 
   const pickImage = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -78,13 +173,16 @@ export default function RecordScreen() {
       allowsEditing: true,
       aspect: [4, 3],
       quality: 0.8,
-      base64: true,
+      exif: true,
     });
 
     if (!result.canceled && result.assets[0]) {
       setSelectedImage(result.assets[0].uri);
-      if (result.assets[0].base64 && isAuthenticated) {
-        analyzeImage(result.assets[0].base64, result.assets[0].mimeType || "image/jpeg");
+      setSelectedImageSize({ width: result.assets[0].width, height: result.assets[0].height });
+      applyPhotoLocation(result.assets[0].exif);
+      applyPhotoCaptureTime(result.assets[0].exif);
+      if (isAuthenticated) {
+        analyzePhoto(result.assets[0].uri);
       }
     }
   };
@@ -100,82 +198,219 @@ export default function RecordScreen() {
       allowsEditing: true,
       aspect: [4, 3],
       quality: 0.8,
-      base64: true,
+      exif: true,
     });
 
     if (!result.canceled && result.assets[0]) {
       setSelectedImage(result.assets[0].uri);
-      if (result.assets[0].base64 && isAuthenticated) {
-        analyzeImage(result.assets[0].base64, result.assets[0].mimeType || "image/jpeg");
+      setSelectedImageSize({ width: result.assets[0].width, height: result.assets[0].height });
+      applyPhotoLocation(result.assets[0].exif);
+      applyPhotoCaptureTime(result.assets[0].exif);
+      if (isAuthenticated) {
+        analyzePhoto(result.assets[0].uri);
       }
     }
   };
 
-  const analyzeImage = async (base64: string, mimeType: string) => {
+  const applyAnalysisPrefill = (prefill: AnalysisPrefill<DetectedDish>) => {
+    setDishName(prefill.dishName);
+    setSelectedCategory(prefill.category);
+    if (prefill.note) {
+      setNote(prefill.note);
+    }
+    setDetectedDishes(prefill.dishes.map((dish) => ({ ...dish, selected: true })));
+    setNutrition(toNutritionDraft(prefill.nutrition));
+  };
+
+  // The first pick on a low-confidence analysis also fills in what was held back
+  const handleSelectCandidate = (candidate: DishCandidate) => {
+    const prefill = pendingAnalysis ? getAnalysisPrefill(pendingAnalysis, candidate) : null;
+    if (prefill) {
+      applyAnalysisPrefill(prefill);
+      setPendingAnalysis(null);
+    } else {
+      setDishName(candidate.dishName);
+      setSelectedCategory(candidate.category);
+    }
+    setCustomCategoryId(null);
+  };
+
+  const analyzeImage = async (uri: string, forceReanalysis = false) => {
     setIsAnalyzing(true);
     try {
-      const result = await analyzeFoodMutation.mutateAsync({
-        imageBase64: base64,
-        mimeType: mimeType as "image/jpeg" | "image/png" | "image/webp",
+      const uploadId = await uploadPhoto(uri);
+      const result = await analyzeFoodMutation.mutateAsync({ uploadId, forceReanalysis });
+      setIsCachedAnalysis(result.cached);
+      setDishCandidates(result.candidates);
+      setAnalysisConfidence(result.confidence);
+      setStoredPhoto({
+        imageUrl: result.imageUrl,
+        imageKey: result.imageKey,
+        thumbnailUrl: result.thumbnailUrl,
+        thumbnailKey: result.thumbnailKey,
       });
-      
-      if (result.dishName) {
-        setDishName(result.dishName);
-      }
-      if (result.category) {
-        setSelectedCategory(result.category as Category);
+
+      const prefill = getAnalysisPrefill(result);
+      setPendingAnalysis(prefill || result.candidates.length === 0 ? null : result);
+      if (prefill) {
+        applyAnalysisPrefill(prefill);
+      } else {
+        // Nothing from an earlier photo is left behind either
+        setDetectedDishes([]);
+        setNutrition(EMPTY_NUTRITION_DRAFT);
+        if (result.candidates.length === 0) {
+          Alert.alert("料理を判定できませんでした", "料理名を入力してください。");
+        }
+        dishNameInputRef.current?.focus();
       }
-      if (result.imageUrl) {
-        setImageUrl(result.imageUrl);
+    } catch (error) {
+      console.error("Image analysis failed:", error);
+      Alert.alert("解析エラー", "画像の解析に失敗しました。手動で入力してください。");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const analyzePackagedFood = async (uri: string) => {
+    setIsAnalyzing(true);
+    try {
+      const uploadId = await uploadPhoto(uri);
+      const result = await analyzePackagedFoodMutation.mutateAsync({ uploadId });
+      setStoredPhoto({
+        imageUrl: result.imageUrl,
+        imageKey: result.imageKey,
+        thumbnailUrl: result.thumbnailUrl,
+        thumbnailKey: result.thumbnailKey,
+      });
+
+      // Catalog values are exact; a new reading is left for the user to check and add
+      const name = result.product?.name ?? result.reading.productName;
+      if (name) {
+        setDishName(name);
+        setSelectedCategory(result.product?.category ?? result.reading.category);
+        setCustomCategoryId(null);
+      } else {
+        dishNameInputRef.current?.focus();
       }
-      if (result.description) {
-        setNote(result.description);
+      setDetectedDishes([]);
+      setNutrition(toNutritionDraft(result.product?.nutrition ?? result.reading.nutrition));
+      setCatalogProduct(result.product);
+      setNewProductBarcode(result.product ? null : (result.reading.barcode ?? ""));
+
+      if (!result.product && !name && !result.reading.barcode) {
+        Alert.alert("読み取れませんでした", "バーコードか栄養成分表示が写るように撮り直すか、手動で入力してください。");
       }
     } catch (error) {
-      console.error("Image analysis failed:", error);
+      console.error("Packaged food analysis failed:", error);
       Alert.alert("解析エラー", "画像の解析に失敗しました。手動で入力してください。");
     } finally {
       setIsAnalyzing(false);
     }
   };
 
+  const analyzePhoto = (uri: string) =>
+    analysisMode === "package" ? analyzePackagedFood(uri) : analyzeImage(uri);
+
+  // Adds the product with what is in the form now, after the user has checked it
+  const addToCatalog = async () => {
+    const barcode = normalizeBarcode(newProductBarcode ?? "");
+    if (!barcode || !dishName.trim()) {
+      Alert.alert("入力エラー", "正しいバーコードと商品名を入力してください");
+      return;
+    }
+
+    try {
+      const { product, created } = await createProductMutation.mutateAsync({
+        barcode,
+        name: dishName.trim(),
+        category: selectedCategory,
+        nutrition: fromNutritionDraft(nutrition),
+      });
+      setCatalogProduct(product);
+      setNewProductBarcode(null);
+      if (!created) {
+        // Someone added it first: use the catalog's values
+        setDishName(product.name);
+        setSelectedCategory(product.category);
+        setNutrition(toNutritionDraft(product.nutrition));
+      }
+      Alert.alert(
+        created ? "カタログに登録しました" : "登録済みの商品です",
+        created ? "次からはバーコードで自動入力されます。" : "カタログの内容を入力しました。"
+      );
+    } catch (error) {
+      console.error("Failed to add product:", error);
+      Alert.alert("エラー", "カタログへの登録に失敗しました。");
+    }
+  };
+
   const handleSubmit = async () => {
     if (!dishName.trim()) {
       Alert.alert("入力エラー", "料理名を入力してください");
       return;
     }
 
+    const mealItems = [...detectedDishes.filter((dish) => dish.selected).map(toMealItem), ...items];
+
     setIsSubmitting(true);
     try {
       if (isAuthenticated) {
         await createMealMutation.mutateAsync({
-          date: getTodayDate(),
-          mealType: "lunch",
+          date: mealDate,
+          mealType,
           dishName: dishName.trim(),
           category: selectedCategory,
           note: note.trim() || undefined,
-          imageUrl: imageUrl || undefined,
+          ...storedPhoto,
+          items: mealItems.length > 0 ? mealItems : undefined,
+          // Left empty, the server estimates nutrition from the dish names
+          nutrition: isNutritionDraftEmpty(nutrition) ? undefined : fromNutritionDraft(nutrition),
+          customCategoryId,
+          tags,
+          rating: rating.rating,
+          wouldEatAgain: rating.wouldEatAgain,
+          ...fromPriceDraft(price),
+          ...fromVenueDraft(venue),
+          leftoverPortions: mealType === "dinner" ? leftoverPortions : null,
         });
       } else {
         await addLocalMeal({
-          date: getTodayDate(),
-          mealType: "lunch",
+          date: mealDate,
+          mealType,
           dishName: dishName.trim(),
           category: selectedCategory,
           note: note.trim() || undefined,
         });
       }
 
-      Alert.alert("記録完了", "ランチを記録しました！", [
+      Alert.alert("記録完了", `${mealTypeLabels[mealType]}を記録しました！`, [
         { text: "OK", onPress: () => router.push("/(tabs)") },
       ]);
 
       // Reset form
+      setRecordDate(null);
       setDishName("");
       setSelectedCategory("japanese");
+      setCustomCategoryId(null);
+      setTags([]);
+      setRating(EMPTY_RATING_DRAFT);
+      setPrice(EMPTY_PRICE_DRAFT);
+      setVenue(EMPTY_VENUE_DRAFT);
+      setLeftoverPortions(null);
       setNote("");
+      setItems([]);
+      setNutrition(EMPTY_NUTRITION_DRAFT);
       setSelectedImage(null);
-      setImageUrl(null);
+      setSelectedImageSize(null);
+      setDetectedDishes([]);
+      setStoredPhoto(null);
+      setIsCachedAnalysis(false);
+      setDishCandidates([]);
+      setPendingAnalysis(null);
+      setAnalysisConfidence(null);
+      setPhotoSuggestion(null);
+      setCatalogProduct(null);
+      setNewProductBarcode(null);
     } catch (error) {
       console.error("Failed to record meal:", error);
       Alert.alert("エラー", "記録に失敗しました。もう一度お試しください。");
@@ -186,10 +421,27 @@ export default function RecordScreen() {
 
   const clearImage = () => {
     setSelectedImage(null);
-    setImageUrl(null);
+    setSelectedImageSize(null);
+    setDetectedDishes([]);
+    setStoredPhoto(null);
+    setIsCachedAnalysis(false);
+    setDishCandidates([]);
+    setPendingAnalysis(null);
+    setAnalysisConfidence(null);
+    setPhotoSuggestion(null);
+    setCatalogProduct(null);
+    setNewProductBarcode(null);
     setDishName("");
     setSelectedCategory("japanese");
+    setCustomCategoryId(null);
+    setTags([]);
+    setRating(EMPTY_RATING_DRAFT);
+    setPrice(EMPTY_PRICE_DRAFT);
+    setVenue(EMPTY_VENUE_DRAFT);
+    setLeftoverPortions(null);
     setNote("");
+    setItems([]);
+    setNutrition(EMPTY_NUTRITION_DRAFT);
   };
 
   if (authLoading) {
@@ -214,12 +466,59 @@ export default function RecordScreen() {
         {/* Header */}
         <View style={styles.header}>
           <ThemedText style={styles.headerEmoji}>🍱</ThemedText>
-          <ThemedText type="title">ランチを記録</ThemedText>
+          <ThemedText type="title">食事を記録</ThemedText>
           <ThemedText style={[styles.headerSubtitle, { color: colors.textSecondary }]}>
             写真1枚で終わる食事報告
           </ThemedText>
         </View>
 
+        {/* Recording for an earlier day (confirmed from a photo) */}
+        {recordDate && (
+          <View style={[styles.recordDateBanner, { backgroundColor: colors.card }]}>
+            <ThemedText style={styles.recordDateText}>
+              📅{" "}
+              {new Date(recordDate + "T00:00:00").toLocaleDateString("ja-JP", {
+                month: "long",
+                day: "numeric",
+                weekday: "short",
+              })}
+              の記録
+            </ThemedText>
+            <Pressable onPress={() => setRecordDate(null)}>
+              <ThemedText style={[styles.loginLink, { color: colors.tint }]}>今日にする</ThemedText>
+            </Pressable>
+          </View>
+        )}
+
+        {/* Meal Type Selection */}
+        <View style={[styles.mealTypeToggle, { backgroundColor: colors.card }]}>
+          {MEAL_TYPE_OPTIONS.map((option) => (
+            <Pressable
+              key={option.key}
+              style={[
+                styles.mealTypeButton,
+                mealType === option.key && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => setMealType(option.key)}
+            >
+              <ThemedText style={styles.mealTypeEmoji}>{option.emoji}</ThemedText>
+              <ThemedText
+                style={[
+                  styles.mealTypeText,
+                  mealType === option.key && styles.modeButtonTextActive,
+                ]}
+              >
+                {option.label}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+
+        {/* Lunch from recent dinner leftovers */}
+        {isAuthenticated && mealType === "lunch" && (
+          <LeftoverSuggestionsCard date={today} onRecorded={() => router.push("/(tabs)")} />
+        )}
+
         {/* Input Mode Toggle */}
         <View style={[styles.modeToggle, { backgroundColor: colors.card }]}>
           <Pressable
@@ -261,7 +560,16 @@ export default function RecordScreen() {
           <View style={styles.photoSection}>
             {selectedImage ? (
               <View style={styles.imagePreviewContainer}>
-                <Image source={{ uri: selectedImage }} style={styles.imagePreview} />
+                <View
+                  style={
+                    selectedImageSize
+                      ? { aspectRatio: selectedImageSize.width / selectedImageSize.height }
+                      : styles.imagePreview
+                  }
+                >
+                  <Image source={{ uri: selectedImage }} style={StyleSheet.absoluteFill} />
+                  <DishBoxesOverlay dishes={detectedDishes} />
+                </View>
                 {isAnalyzing && (
                   <View style={styles.analyzingOverlay}>
                     <ActivityIndicator size="large" color="#FFFFFF" />
@@ -274,6 +582,28 @@ export default function RecordScreen() {
               </View>
             ) : (
               <View style={styles.photoButtons}>
+                {isAuthenticated && (
+                  <View style={[styles.modeToggle, styles.analysisModeToggle, { backgroundColor: colors.card }]}>
+                    {(
+                      [
+                        { key: "dish", label: "🍽️ 料理" },
+                        { key: "package", label: "🏷️ 市販品・バーコード" },
+                      ] as const
+                    ).map((option) => (
+                      <Pressable
+                        key={option.key}
+                        style={[styles.modeButton, analysisMode === option.key && { backgroundColor: colors.tint }]}
+                        onPress={() => setAnalysisMode(option.key)}
+                      >
+                        <ThemedText
+                          style={[styles.modeButtonText, analysisMode === option.key && styles.modeButtonTextActive]}
+                        >
+                          {option.label}
+                        </ThemedText>
+                      </Pressable>
+                    ))}
+                  </View>
+                )}
                 <Pressable
                   style={[styles.photoButton, { backgroundColor: colors.tint }]}
                   onPress={takePhoto}
@@ -290,9 +620,94 @@ export default function RecordScreen() {
                     ライブラリから選択
                   </ThemedText>
                 </Pressable>
+                {isAuthenticated && (
+                  <Pressable style={styles.backfillLink} onPress={() => router.push("/photo-backfill")}>
+                    <ThemedText style={[styles.loginLink, { color: colors.tint }]}>
+                      🗂️ 過去の写真をまとめて記録
+                    </ThemedText>
+                  </Pressable>
+                )}
               </View>
             )}
             
+            {selectedImage && photoSuggestion && (
+              <View style={[styles.cachedNotice, { backgroundColor: colors.card }]}>
+                <ThemedText style={styles.suggestionText}>
+                  {new Date(photoSuggestion.date + "T00:00:00").toLocaleDateString("ja-JP", {
+                    month: "numeric",
+                    day: "numeric",
+                  })}{" "}
+                  {photoSuggestion.time}に撮影された写真です。
+                  {photoSuggestion.mealDate === today
+                    ? "今日"
+                    : new Date(photoSuggestion.mealDate + "T00:00:00").toLocaleDateString("ja-JP", {
+                        month: "numeric",
+                        day: "numeric",
+                      })}
+                  の{mealTypeLabels[photoSuggestion.mealType]}として記録しますか？
+                </ThemedText>
+                <View style={styles.suggestionActions}>
+                  <Pressable onPress={acceptPhotoSuggestion}>
+                    <ThemedText style={[styles.loginLink, { color: colors.tint }]}>はい</ThemedText>
+                  </Pressable>
+                  <Pressable onPress={() => setPhotoSuggestion(null)}>
+                    <ThemedText style={[styles.loginLink, { color: colors.textSecondary }]}>いいえ</ThemedText>
+                  </Pressable>
+                </View>
+              </View>
+            )}
+
+            {selectedImage && catalogProduct && (
+              <View style={[styles.cachedNotice, { backgroundColor: colors.card }]}>
+                <ThemedText style={[styles.cachedNoticeText, { color: colors.textSecondary }]}>
+                  🏷️ カタログの商品です（{catalogProduct.barcode}）。栄養成分は登録済みの値を入力しました
+                </ThemedText>
+              </View>
+            )}
+
+            {selectedImage && newProductBarcode !== null && !isAnalyzing && (
+              <View style={[styles.cachedNotice, { backgroundColor: colors.card }]}>
+                <ThemedText style={styles.suggestionText}>
+                  📦 カタログにない商品です。商品名と栄養成分を確認して登録すると、次からバーコードで自動入力されます
+                </ThemedText>
+                <TextInput
+                  style={[
+                    styles.barcodeInput,
+                    { backgroundColor: colors.background, color: colors.text, borderColor: colors.border },
+                  ]}
+                  placeholder="バーコードの数字（JAN）"
+                  placeholderTextColor={colors.textDisabled}
+                  value={newProductBarcode}
+                  onChangeText={setNewProductBarcode}
+                  keyboardType="number-pad"
+                  maxLength={14}
+                />
+                <Pressable onPress={addToCatalog} disabled={createProductMutation.isPending}>
+                  <ThemedText style={[styles.loginLink, { color: colors.tint }]}>＋ カタログに登録</ThemedText>
+                </Pressable>
+              </View>
+            )}
+
+            {selectedImage && isCachedAnalysis && !isAnalyzing && (
+              <View style={[styles.cachedNotice, { backgroundColor: colors.card }]}>
+                <ThemedText style={[styles.cachedNoticeText, { color: colors.textSecondary }]}>
+                  以前に解析した写真のため、前回の結果を表示しています
+                </ThemedText>
+                <Pressable onPress={() => analyzeImage(selectedImage, true)}>
+                  <ThemedText style={[styles.loginLink, { color: colors.tint }]}>🔄 もう一度解析する</ThemedText>
+                </Pressable>
+              </View>
+            )}
+
+            {selectedImage && detectedDishes.length > 0 && (
+              <DetectedDishesEditor
+                imageUri={selectedImage}
+                imageSize={selectedImageSize}
+                dishes={detectedDishes}
+                onChange={setDetectedDishes}
+              />
+            )}
+
             {!isAuthenticated && selectedImage && (
               <View style={[styles.guestWarning, { backgroundColor: colors.card }]}>
                 <ThemedText style={styles.guestWarningText}>
@@ -322,7 +737,16 @@ export default function RecordScreen() {
           <ThemedText type="subtitle" style={styles.label}>
             料理名 {isAnalyzing && <ThemedText style={{ color: colors.tint }}>(解析中...)</ThemedText>}
           </ThemedText>
+          {dishCandidates.length > 0 && !isAnalyzing && (
+            <DishCandidateChips
+              candidates={dishCandidates}
+              selectedName={dishName}
+              onSelect={handleSelectCandidate}
+              lowConfidence={analysisConfidence !== null && analysisConfidence < ANALYSIS_CONFIDENCE_THRESHOLD}
+            />
+          )}
           <TextInput
+            ref={dishNameInputRef}
             style={[
               styles.textInput,
               {
@@ -344,41 +768,86 @@ export default function RecordScreen() {
           <ThemedText type="subtitle" style={styles.label}>
             カテゴリ
           </ThemedText>
-          <View style={styles.categoryGrid}>
-            {categories.map((cat) => (
-              <Pressable
-                key={cat.key}
-                style={[
-                  styles.categoryButton,
-                  {
-                    backgroundColor:
-                      selectedCategory === cat.key
-                        ? colors[cat.key as keyof typeof colors] || colors.tint
-                        : colors.card,
-                    borderColor:
-                      selectedCategory === cat.key
-                        ? colors[cat.key as keyof typeof colors] || colors.tint
-                        : colors.border,
-                  },
-                ]}
-                onPress={() => setSelectedCategory(cat.key)}
-              >
-                <ThemedText style={styles.categoryEmoji}>{cat.emoji}</ThemedText>
-                <ThemedText
-                  style={[
-                    styles.categoryLabel,
-                    {
-                      color: selectedCategory === cat.key ? "#FFFFFF" : colors.text,
-                    },
-                  ]}
-                >
-                  {cat.label}
-                </ThemedText>
-              </Pressable>
-            ))}
-          </View>
+          <CategoryPicker
+            value={{ category: selectedCategory, customCategoryId }}
+            onChange={(value) => {
+              setSelectedCategory(value.category);
+              setCustomCategoryId(value.customCategoryId);
+            }}
+            customCategories={isAuthenticated ? customCategories : undefined}
+          />
         </View>
 
+        {/* Tags (server only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              タグ（任意）
+            </ThemedText>
+            <TagInput tags={tags} onChange={setTags} suggestions={tagSuggestions} />
+          </View>
+        )}
+
+        {/* Satisfaction rating (server only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              満足度（任意）
+            </ThemedText>
+            <RatingInput value={rating} onChange={setRating} />
+          </View>
+        )}
+
+        {/* Where the meal was eaten (server only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              食べた場所（任意）
+            </ThemedText>
+            <VenuePicker value={venue} onChange={setVenue} recentVenues={recentVenues} />
+          </View>
+        )}
+
+        {/* Price for the food budget (server only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              金額（任意）
+            </ThemedText>
+            <PriceInput value={price} onChange={setPrice} />
+          </View>
+        )}
+
+        {/* Leftovers for later meals (server dinners only) */}
+        {isAuthenticated && mealType === "dinner" && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              残り物（任意）
+            </ThemedText>
+            <LeftoverPortionsInput value={leftoverPortions} onChange={setLeftoverPortions} />
+          </View>
+        )}
+
+        {/* Meal Items (multiple dishes per meal, server only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              品目（任意）
+            </ThemedText>
+            <MealItemsEditor items={items} onChange={setItems} defaultCategory={selectedCategory} />
+          </View>
+        )}
+
+        {/* Nutrition (estimated by the server when left empty) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              栄養素（空欄なら自動推定）
+            </ThemedText>
+            <NutritionEditor values={nutrition} onChange={setNutrition} />
+          </View>
+        )}
+
         {/* Note Input */}
         <View style={styles.inputSection}>
           <ThemedText type="subtitle" style={styles.label}>
@@ -454,6 +923,27 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginTop: Spacing.xs,
   },
+  mealTypeToggle: {
+    flexDirection: "row",
+    borderRadius: BorderRadius.md,
+    padding: 4,
+    marginBottom: Spacing.md,
+  },
+  mealTypeButton: {
+    flex: 1,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  mealTypeEmoji: {
+    fontSize: 20,
+    lineHeight: 26,
+  },
+  mealTypeText: {
+    fontSize: 12,
+    fontWeight: "600",
+    lineHeight: 16,
+  },
   modeToggle: {
     flexDirection: "row",
     borderRadius: BorderRadius.md,
@@ -480,6 +970,9 @@ const styles = StyleSheet.create({
   photoButtons: {
     gap: Spacing.md,
   },
+  backfillLink: {
+    alignItems: "center",
+  },
   photoButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -540,6 +1033,51 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     lineHeight: 20,
   },
+  cachedNotice: {
+    marginTop: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+  },
+  cachedNoticeText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  analysisModeToggle: {
+    marginBottom: 0,
+  },
+  barcodeInput: {
+    alignSelf: "stretch",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.sm,
+    fontSize: 16,
+    textAlign: "center",
+  },
+  suggestionText: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: "center",
+  },
+  suggestionActions: {
+    flexDirection: "row",
+    gap: Spacing.xl,
+  },
+  recordDateBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+  },
+  recordDateText: {
+    fontSize: 15,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
   guestWarning: {
     marginTop: Spacing.md,
     padding: Spacing.md,
@@ -586,31 +1124,6 @@ const styles = StyleSheet.create({
     minHeight: 100,
     textAlignVertical: "top",
   },
-  categoryGrid: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    gap: Spacing.sm,
-  },
-  categoryButton: {
-    flex: 1,
-    minWidth: "45%",
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    paddingVertical: Spacing.md,
-    paddingHorizontal: Spacing.md,
-    borderRadius: BorderRadius.md,
-    borderWidth: 2,
-    gap: Spacing.sm,
-  },
-  categoryEmoji: {
-    fontSize: 20,
-  },
-  categoryLabel: {
-    fontSize: 14,
-    fontWeight: "600",
-    lineHeight: 20,
-  },
   submitButton: {
     paddingVertical: Spacing.md,
     borderRadius: BorderRadius.md,
@@ -1,36 +1,36 @@
-import React, { useState, useEffect } from 'react';
-import { View, ScrollView, StyleSheet, ActivityIndicator } from 'react-native';
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet, ActivityIndicator, Pressable } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BudgetSection } from '@/components/budget-section';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { trpc } from '@/lib/trpc';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useToday } from '@/hooks/use-today';
+import { MEAL_SOURCE_OPTIONS, mealTypeLabels, NUTRITION_FIELDS } from '@/constants/meals';
 import { Colors } from '@/constants/theme';
+import { getWeekStart } from '@/shared/dates';
 
 export default function ReportsScreen() {
   const colorScheme = useColorScheme();
   const insets = useSafeAreaInsets();
-  const [weekStartDate, setWeekStartDate] = useState<string>('');
-
-  // Calculate current week's Monday
-  useEffect(() => {
-    const today = new Date();
-    const monday = new Date(today);
-    monday.setDate(today.getDate() - today.getDay() + 1);
-    setWeekStartDate(monday.toISOString().split('T')[0]);
-  }, []);
+  // Reports cover the current Monday-to-Sunday week in the user's timezone
+  const { today } = useToday(true);
+  const weekStartDate = getWeekStart(today);
 
   const { data: weeklyReport, isLoading: reportLoading } = trpc.reports.getWeeklyReport.useQuery(
     { weekStartDate },
     { enabled: !!weekStartDate }
   );
 
-  const { data: nutritionAdvice, isLoading: adviceLoading } = trpc.reports.getNutritionAdvice.useQuery(
+  // The advice is an LLM call, so it is only fetched when asked for (then kept for the week)
+  const [adviceRequested, setAdviceRequested] = useState(false);
+  const { data: nutritionAdvice, isFetching: adviceLoading } = trpc.reports.getNutritionAdvice.useQuery(
     { weekStartDate },
-    { enabled: !!weekStartDate }
+    { enabled: !!weekStartDate && adviceRequested, staleTime: Infinity }
   );
 
-  if (reportLoading || adviceLoading) {
+  if (reportLoading) {
     return (
       <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
         <ActivityIndicator size="large" color={Colors[colorScheme ?? 'light'].tint} />
@@ -38,7 +38,7 @@ export default function ReportsScreen() {
     );
   }
 
-  if (!weeklyReport || !nutritionAdvice) {
+  if (!weeklyReport) {
     return (
       <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
         <ThemedText style={styles.errorText}>レポートの読み込みに失敗しました</ThemedText>
@@ -62,6 +62,14 @@ export default function ReportsScreen() {
             <ThemedText style={styles.statValue}>{weeklyReport.totalMeals}</ThemedText>
             <ThemedText style={styles.statLabel}>総食事数</ThemedText>
           </View>
+          <View style={styles.statItem}>
+            <ThemedText style={styles.statValue}>{weeklyReport.completionRate}%</ThemedText>
+            <ThemedText style={styles.statLabel}>完了率</ThemedText>
+          </View>
+          <View style={styles.statItem}>
+            <ThemedText style={styles.statValue}>{weeklyReport.breakfasts}</ThemedText>
+            <ThemedText style={styles.statLabel}>朝食</ThemedText>
+          </View>
           <View style={styles.statItem}>
             <ThemedText style={styles.statValue}>{weeklyReport.lunches}</ThemedText>
             <ThemedText style={styles.statLabel}>ランチ</ThemedText>
@@ -71,14 +79,17 @@ export default function ReportsScreen() {
             <ThemedText style={styles.statLabel}>ディナー</ThemedText>
           </View>
           <View style={styles.statItem}>
-            <ThemedText style={styles.statValue}>{weeklyReport.completionRate}%</ThemedText>
-            <ThemedText style={styles.statLabel}>完了率</ThemedText>
+            <ThemedText style={styles.statValue}>{weeklyReport.snacks}</ThemedText>
+            <ThemedText style={styles.statLabel}>間食</ThemedText>
           </View>
         </View>
+        <ThemedText style={styles.statNote}>
+          完了率の対象: {weeklyReport.trackedMealTypes.map((t) => mealTypeLabels[t]).join('・')}
+        </ThemedText>
       </ThemedView>
 
       <ThemedView style={styles.section}>
-        <ThemedText style={styles.sectionTitle}>カテゴリ別分布</ThemedText>
+        <ThemedText style={styles.sectionTitle}>カテゴリ別分布（品目数）</ThemedText>
         <View style={styles.categoryStats}>
           <View style={styles.categoryItem}>
             <ThemedText style={styles.categoryLabel}>和食</ThemedText>
@@ -99,20 +110,116 @@ export default function ReportsScreen() {
         </View>
       </ThemedView>
 
+      {(weeklyReport.customCategoryStats.length > 0 || weeklyReport.tagStats.length > 0) && (
+        <ThemedView style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>マイカテゴリ・タグ（食事数）</ThemedText>
+          {weeklyReport.customCategoryStats.map((category) => (
+            <View key={category.id} style={styles.groupRow}>
+              <View style={[styles.groupDot, { backgroundColor: category.color }]} />
+              <ThemedText style={styles.groupLabel}>
+                {category.icon} {category.name}
+              </ThemedText>
+              <ThemedText style={styles.groupValue}>{category.count}</ThemedText>
+            </View>
+          ))}
+          {weeklyReport.tagStats.map(({ tag, count }) => (
+            <View key={tag} style={styles.groupRow}>
+              <ThemedText style={styles.groupLabel}>#{tag}</ThemedText>
+              <ThemedText style={styles.groupValue}>{count}</ThemedText>
+            </View>
+          ))}
+        </ThemedView>
+      )}
+
+      {weeklyReport.eatingOut.recordedMeals > 0 && (
+        <ThemedView style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>外食の頻度</ThemedText>
+          <View style={styles.nutritionScore}>
+            <ThemedText style={styles.scoreLabel}>外食率</ThemedText>
+            <ThemedText style={styles.scoreValue}>
+              {weeklyReport.eatingOut.eatingOutRate}%
+            </ThemedText>
+          </View>
+          {MEAL_SOURCE_OPTIONS.filter((option) => weeklyReport.eatingOut.bySource[option.key] > 0).map((option) => (
+            <View key={option.key} style={styles.groupRow}>
+              <ThemedText style={styles.groupLabel}>
+                {option.emoji} {option.label}
+              </ThemedText>
+              <ThemedText style={styles.groupValue}>{weeklyReport.eatingOut.bySource[option.key]}</ThemedText>
+            </View>
+          ))}
+          {weeklyReport.eatingOut.eatingOutCount > 0 && (
+            <ThemedText style={styles.statNote}>
+              外食 {weeklyReport.eatingOut.eatingOutCount}回（
+              {Object.entries(weeklyReport.eatingOut.eatingOutByMealType)
+                .filter(([, count]) => count > 0)
+                .map(([mealType, count]) => `${mealTypeLabels[mealType]} ${count}`)
+                .join('・')}
+              ）
+            </ThemedText>
+          )}
+          {weeklyReport.eatingOut.topVenues.length > 0 && (
+            <ThemedText style={styles.statNote}>
+              よく行くお店: {weeklyReport.eatingOut.topVenues.map((v) => `${v.venueName}（${v.count}）`).join('、')}
+            </ThemedText>
+          )}
+          <ThemedText style={styles.statNote}>
+            ※ 食べた場所を記録した{weeklyReport.eatingOut.recordedMeals}食が対象
+          </ThemedText>
+        </ThemedView>
+      )}
+
       <ThemedView style={styles.section}>
         <ThemedText style={styles.sectionTitle}>栄養バランス分析</ThemedText>
         <View style={styles.nutritionScore}>
           <ThemedText style={styles.scoreLabel}>栄養スコア</ThemedText>
-          <ThemedText style={styles.scoreValue}>{nutritionAdvice.nutritionScore}/100</ThemedText>
-        </View>
-        <ThemedText style={styles.analysisText}>{nutritionAdvice.analysis}</ThemedText>
-        <ThemedText style={styles.recommendationsTitle}>改善アドバイス</ThemedText>
-        {nutritionAdvice.recommendations.map((rec: string, index: number) => (
-          <ThemedText key={index} style={styles.recommendationItem}>
-            • {rec}
+          <ThemedText style={styles.scoreValue}>
+            {weeklyReport.nutrition.score !== null ? `${weeklyReport.nutrition.score}/100` : '—'}
           </ThemedText>
-        ))}
+        </View>
+        {weeklyReport.nutrition.days > 0 ? (
+          <>
+            <View style={styles.statsGrid}>
+              {NUTRITION_FIELDS.map((field) => (
+                <View key={field.key} style={styles.nutrientItem}>
+                  <ThemedText style={styles.nutrientValue}>
+                    {weeklyReport.nutrition.dailyAverage[field.key]}
+                    <ThemedText style={styles.statLabel}>{field.unit}</ThemedText>
+                  </ThemedText>
+                  <ThemedText style={styles.statLabel}>{field.label}</ThemedText>
+                </View>
+              ))}
+            </View>
+            <ThemedText style={styles.statNote}>
+              1日あたりの平均（推定値、{weeklyReport.nutrition.days}日分・{weeklyReport.nutrition.estimatedMeals}食）
+            </ThemedText>
+          </>
+        ) : (
+          <ThemedText style={styles.statNote}>栄養素の記録がまだありません</ThemedText>
+        )}
+        {nutritionAdvice ? (
+          <>
+            <ThemedText style={styles.analysisText}>{nutritionAdvice.analysis}</ThemedText>
+            <ThemedText style={styles.recommendationsTitle}>改善アドバイス</ThemedText>
+            {nutritionAdvice.recommendations.map((rec: string, index: number) => (
+              <ThemedText key={index} style={styles.recommendationItem}>
+                • {rec}
+              </ThemedText>
+            ))}
+          </>
+        ) : adviceLoading ? (
+          <ActivityIndicator style={styles.adviceButton} color={Colors[colorScheme ?? 'light'].tint} />
+        ) : (
+          <Pressable
+            style={[styles.adviceButton, { backgroundColor: Colors[colorScheme ?? 'light'].tint }]}
+            onPress={() => setAdviceRequested(true)}
+          >
+            <ThemedText style={styles.adviceButtonText}>🤖 AIの栄養アドバイスを見る</ThemedText>
+          </Pressable>
+        )}
       </ThemedView>
+
+      <BudgetSection />
     </ScrollView>
   );
 }
@@ -163,6 +270,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.7,
   },
+  statNote: {
+    fontSize: 12,
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  nutrientItem: {
+    width: '31%',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  nutrientValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
   categoryStats: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -180,6 +302,25 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: '600',
   },
+  groupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  groupDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  groupLabel: {
+    flex: 1,
+    fontSize: 15,
+  },
+  groupValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
   nutritionScore: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -199,8 +340,20 @@ const styles = StyleSheet.create({
   analysisText: {
     fontSize: 16,
     lineHeight: 24,
+    marginTop: 12,
     marginBottom: 16,
   },
+  adviceButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  adviceButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   recommendationsTitle: {
     fontSize: 16,
     fontWeight: '600',
@@ -79,6 +79,14 @@ export default function RootLayout() {
             <Stack>
               <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
               <Stack.Screen name="modal" options={{ presentation: "modal", title: "Modal" }} />
+              <Stack.Screen name="edit-meal" options={{ presentation: "modal", title: "食事を編集" }} />
+              <Stack.Screen name="custom-categories" options={{ presentation: "modal", title: "マイカテゴリ" }} />
+              <Stack.Screen name="trash" options={{ presentation: "modal", title: "ゴミ箱" }} />
+              <Stack.Screen name="import-meals" options={{ presentation: "modal", title: "記録のインポート" }} />
+              <Stack.Screen name="delete-account" options={{ presentation: "modal", title: "アカウントの削除" }} />
+              <Stack.Screen name="meal-templates" options={{ presentation: "modal", title: "定番メニュー" }} />
+              <Stack.Screen name="meal-plan" options={{ presentation: "modal", title: "食事の予定" }} />
+              <Stack.Screen name="photo-backfill" options={{ presentation: "modal", title: "写真からまとめて記録" }} />
               <Stack.Screen name="oauth/callback" options={{ headerShown: false }} />
             </Stack>
             <StatusBar style="auto" />
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { trpc } from "@/lib/trpc";
+
+const COLOR_OPTIONS = ["#E74C3C", "#E67E22", "#F1C40F", "#27AE60", "#16A085", "#3498DB", "#8E44AD", "#7F8C8D"];
+const ICON_OPTIONS = ["🍜", "🍛", "🥘", "🍱", "🍙", "🍔", "🍕", "🌮", "🥗", "🍰", "🏠", "🏪"];
+
+export default function CustomCategoriesScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(COLOR_OPTIONS[0]);
+  const [icon, setIcon] = useState(ICON_OPTIONS[0]);
+
+  const { data: customCategories, isLoading } = trpc.categories.list.useQuery();
+
+  const utils = trpc.useUtils();
+  const invalidate = () => {
+    utils.categories.list.invalidate();
+    utils.reports.getWeeklyReport.invalidate();
+  };
+  const createMutation = trpc.categories.create.useMutation({ onSuccess: invalidate });
+  const deleteMutation = trpc.categories.delete.useMutation({
+    onSuccess: () => {
+      invalidate();
+      utils.meals.getByDateRange.invalidate();
+    },
+  });
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    try {
+      await createMutation.mutateAsync({ name: name.trim(), color, icon });
+      setName("");
+    } catch (error) {
+      console.error("Failed to create category:", error);
+      Alert.alert("エラー", "カテゴリの追加に失敗しました");
+    }
+  };
+
+  const handleDelete = (id: number, categoryName: string) => {
+    Alert.alert(
+      "カテゴリを削除",
+      `「${categoryName}」を削除しますか？このカテゴリの記録は「その他」になります。`,
+      [
+        { text: "キャンセル", style: "cancel" },
+        {
+          text: "削除",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteMutation.mutateAsync({ id });
+            } catch (error) {
+              console.error("Failed to delete category:", error);
+              Alert.alert("エラー", "カテゴリの削除に失敗しました");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Existing categories */}
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          登録済み
+        </ThemedText>
+        {isLoading ? (
+          <ActivityIndicator size="small" color={colors.tint} />
+        ) : customCategories && customCategories.length > 0 ? (
+          customCategories.map((category) => (
+            <View
+              key={category.id}
+              style={[styles.categoryRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+            >
+              <View style={[styles.colorDot, { backgroundColor: category.color }]} />
+              <ThemedText style={styles.categoryName}>
+                {category.icon} {category.name}
+              </ThemedText>
+              <Pressable onPress={() => handleDelete(category.id, category.name)}>
+                <ThemedText style={{ color: colors.error }}>削除</ThemedText>
+              </Pressable>
+            </View>
+          ))
+        ) : (
+          <ThemedText style={[styles.emptyText, { color: colors.textSecondary }]}>
+            まだマイカテゴリはありません
+          </ThemedText>
+        )}
+
+        {/* New category */}
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          新しいカテゴリ
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.textInput,
+            { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+          ]}
+          placeholder="例: 韓国料理、ラーメン、弁当"
+          placeholderTextColor={colors.textDisabled}
+          value={name}
+          onChangeText={setName}
+          maxLength={50}
+        />
+
+        <View style={styles.optionRow}>
+          {ICON_OPTIONS.map((option) => (
+            <Pressable
+              key={option}
+              style={[
+                styles.iconOption,
+                { borderColor: icon === option ? colors.tint : colors.border },
+              ]}
+              onPress={() => setIcon(option)}
+            >
+              <ThemedText style={styles.iconText}>{option}</ThemedText>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={styles.optionRow}>
+          {COLOR_OPTIONS.map((option) => (
+            <Pressable
+              key={option}
+              style={[
+                styles.colorOption,
+                { backgroundColor: option },
+                color === option && { borderColor: colors.text, borderWidth: 3 },
+              ]}
+              onPress={() => setColor(option)}
+            />
+          ))}
+        </View>
+
+        <Pressable
+          style={[
+            styles.addButton,
+            { backgroundColor: name.trim() ? color : colors.textDisabled },
+          ]}
+          onPress={handleCreate}
+          disabled={!name.trim() || createMutation.isPending}
+        >
+          {createMutation.isPending ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <ThemedText style={styles.addButtonText}>
+              {icon} {name.trim() || "カテゴリ"}を追加
+            </ThemedText>
+          )}
+        </Pressable>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  sectionTitle: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  categoryName: {
+    flex: 1,
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  emptyText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    fontSize: 16,
+    lineHeight: 24,
+    marginBottom: Spacing.md,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  iconOption: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  iconText: {
+    fontSize: 22,
+    lineHeight: 28,
+  },
+  colorOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+  },
+  addButton: {
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+  },
+  addButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useAuth } from "@/hooks/use-auth";
+import { trpc } from "@/lib/trpc";
+
+// Per owned group: the member who takes over, or null to delete the group
+type GroupChoices = Record<number, number | null>;
+
+export default function DeleteAccountScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { logout } = useAuth({ autoFetch: false });
+
+  const [choices, setChoices] = useState<GroupChoices>({});
+
+  const { data: ownedGroups, isLoading } = trpc.account.getOwnedGroups.useQuery();
+  const deleteMutation = trpc.account.delete.useMutation();
+
+  // Default: hand the group to the longest-standing member, or delete it when alone
+  const getChoice = (group: NonNullable<typeof ownedGroups>[number]): number | null => {
+    if (group.id in choices) return choices[group.id];
+    return group.members[0]?.userId ?? null;
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      "アカウントを削除",
+      "食事記録・写真・お気に入り・在庫がすべて削除され、元に戻せません。本当に削除しますか？",
+      [
+        { text: "キャンセル", style: "cancel" },
+        {
+          text: "削除する",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteMutation.mutateAsync({
+                groupActions: (ownedGroups ?? []).map((group) => {
+                  const newOwnerId = getChoice(group);
+                  return newOwnerId === null
+                    ? { groupId: group.id, action: "delete" as const }
+                    : { groupId: group.id, action: "transfer" as const, newOwnerId };
+                }),
+              });
+              await logout();
+              Alert.alert("削除しました", "アカウントを削除しました。ご利用ありがとうございました。");
+              router.replace("/");
+            } catch (error) {
+              console.error("Account deletion failed:", error);
+              Alert.alert("エラー", "アカウントの削除に失敗しました");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xl }]}>
+        <ThemedText style={styles.description}>
+          アカウントを削除すると、食事記録・アップロードした写真・お気に入り・在庫・マイカテゴリ・通知設定がすべて削除されます。
+          必要なデータは先に設定画面の「すべてのデータをダウンロード」から保存してください。
+        </ThemedText>
+
+        {isLoading ? (
+          <ActivityIndicator color={colors.tint} style={styles.loading} />
+        ) : (
+          ownedGroups &&
+          ownedGroups.length > 0 && (
+            <>
+              <ThemedText type="subtitle" style={styles.sectionTitle}>
+                オーナーのグループ
+              </ThemedText>
+              {ownedGroups.map((group) => {
+                const choice = getChoice(group);
+                return (
+                  <View key={group.id} style={[styles.groupCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                    <ThemedText style={styles.groupName}>{group.name}</ThemedText>
+                    <ThemedText style={[styles.groupHint, { color: colors.textSecondary }]}>
+                      {group.members.length > 0 ? "引き継ぐメンバーを選ぶか、グループを削除します" : "ほかのメンバーがいないため削除されます"}
+                    </ThemedText>
+                    <View style={styles.chipRow}>
+                      {group.members.map((member) => {
+                        const selected = choice === member.userId;
+                        return (
+                          <Pressable
+                            key={member.userId}
+                            style={[
+                              styles.chip,
+                              { borderColor: selected ? colors.tint : colors.border },
+                              selected && { backgroundColor: colors.tint },
+                            ]}
+                            onPress={() => setChoices({ ...choices, [group.id]: member.userId })}
+                          >
+                            <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+                              {member.name || "メンバー"}に引き継ぐ
+                            </ThemedText>
+                          </Pressable>
+                        );
+                      })}
+                      <Pressable
+                        style={[
+                          styles.chip,
+                          { borderColor: choice === null ? colors.error : colors.border },
+                          choice === null && { backgroundColor: colors.error },
+                        ]}
+                        onPress={() => setChoices({ ...choices, [group.id]: null })}
+                      >
+                        <ThemedText style={[styles.chipText, choice === null && styles.chipTextSelected]}>
+                          グループを削除
+                        </ThemedText>
+                      </Pressable>
+                    </View>
+                  </View>
+                );
+              })}
+            </>
+          )
+        )}
+
+        <Pressable
+          style={[styles.deleteButton, { backgroundColor: colors.error }]}
+          onPress={handleDelete}
+          disabled={isLoading || deleteMutation.isPending}
+        >
+          {deleteMutation.isPending ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <ThemedText style={styles.deleteButtonText}>アカウントを削除する</ThemedText>
+          )}
+        </Pressable>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 22,
+    marginBottom: Spacing.lg,
+  },
+  loading: {
+    marginVertical: Spacing.lg,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.sm,
+  },
+  groupCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  groupName: {
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+  groupHint: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: 2,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  deleteButton: {
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    marginTop: Spacing.lg,
+  },
+  deleteButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+});
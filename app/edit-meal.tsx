@@ -0,0 +1,546 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { CategoryPicker } from "@/components/category-picker";
+import { MealItemsEditor, type MealItemDraft } from "@/components/meal-items-editor";
+import {
+  EMPTY_NUTRITION_DRAFT,
+  NutritionEditor,
+  fromNutritionDraft,
+  toNutritionDraft,
+  type NutritionDraft,
+} from "@/components/nutrition-editor";
+import { LeftoverPortionsInput } from "@/components/leftover-portions-input";
+import { TagInput } from "@/components/tag-input";
+import { EMPTY_RATING_DRAFT, RatingInput, type RatingDraft } from "@/components/rating-input";
+import { EMPTY_PRICE_DRAFT, fromPriceDraft, PriceInput, toPriceDraft, type PriceDraft } from "@/components/price-input";
+import { EMPTY_VENUE_DRAFT, fromVenueDraft, toVenueDraft, VenuePicker, type VenueDraft } from "@/components/venue-picker";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { MEAL_TYPE_OPTIONS } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocalMeals } from "@/hooks/use-local-meals";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { trpc } from "@/lib/trpc";
+import type { MealType } from "@/shared/const";
+import { hasOnlyOwnDishItem } from "@/shared/meal-items";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+export default function EditMealScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { getMealById: getLocalMealById, updateMeal: updateLocalMeal, loading: localLoading } =
+    useLocalMeals();
+  const router = useRouter();
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+
+  const [date, setDate] = useState("");
+  const [mealType, setMealType] = useState<MealType>("lunch");
+  const [dishName, setDishName] = useState("");
+  const [selectedCategory, setSelectedCategory] = useState<Category>("japanese");
+  const [customCategoryId, setCustomCategoryId] = useState<number | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [rating, setRating] = useState<RatingDraft>(EMPTY_RATING_DRAFT);
+  const [price, setPrice] = useState<PriceDraft>(EMPTY_PRICE_DRAFT);
+  const [venue, setVenue] = useState<VenueDraft>(EMPTY_VENUE_DRAFT);
+  const [leftoverPortions, setLeftoverPortions] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+  const [items, setItems] = useState<MealItemDraft[]>([]);
+  const [nutrition, setNutrition] = useState<NutritionDraft>(EMPTY_NUTRITION_DRAFT);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [initialized, setInitialized] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Server data for logged-in users
+  const { data: serverMeal, isLoading: serverLoading } = trpc.meals.getById.useQuery(
+    { id: Number(id) },
+    { enabled: isAuthenticated && !!id }
+  );
+
+  // Custom categories and past tags for logged-in users
+  const { data: customCategories } = trpc.categories.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const { data: tagSuggestions } = trpc.meals.getTags.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const { data: recentVenues } = trpc.meals.getRecentVenues.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  const utils = trpc.useUtils();
+  const updateMealMutation = trpc.meals.update.useMutation({
+    onSuccess: () => {
+      utils.meals.getByDate.invalidate();
+      utils.meals.getRecent.invalidate();
+      utils.meals.list.invalidate();
+      utils.meals.getTags.invalidate();
+      utils.meals.getByDateRange.invalidate();
+      utils.meals.getById.invalidate();
+    },
+  });
+  const deleteMealMutation = trpc.meals.delete.useMutation({
+    onSuccess: () => {
+      utils.meals.getByDate.invalidate();
+      utils.meals.getRecent.invalidate();
+      utils.meals.list.invalidate();
+      utils.meals.getTags.invalidate();
+      utils.meals.getByDateRange.invalidate();
+      utils.trash.list.invalidate();
+      utils.leftovers.getSuggestions.invalidate();
+      utils.pantry.list.invalidate();
+    },
+  });
+
+  const isLoading = authLoading || (isAuthenticated ? serverLoading : localLoading);
+  const meal = isAuthenticated ? serverMeal : getLocalMealById(id ?? "");
+
+  // Populate the form once the record has been loaded
+  useEffect(() => {
+    if (initialized || !meal) return;
+    setDate(meal.date);
+    setMealType(meal.mealType);
+    setDishName(meal.dishName);
+    setSelectedCategory(meal.category);
+    setCustomCategoryId("customCategoryId" in meal ? meal.customCategoryId : null);
+    setTags("tags" in meal ? (meal.tags ?? []) : []);
+    setRating("rating" in meal ? { rating: meal.rating, wouldEatAgain: meal.wouldEatAgain } : EMPTY_RATING_DRAFT);
+    setPrice("price" in meal ? toPriceDraft(meal) : EMPTY_PRICE_DRAFT);
+    setVenue("source" in meal ? toVenueDraft(meal) : EMPTY_VENUE_DRAFT);
+    setLeftoverPortions("leftoverPortions" in meal ? meal.leftoverPortions : null);
+    setNote(meal.note ?? "");
+    setImageUrl("imageUrl" in meal ? meal.imageUrl : null);
+    // A meal's own dish item is left out so that it follows a renamed dish on save
+    setItems(
+      "items" in meal && !hasOnlyOwnDishItem(meal)
+        ? meal.items.map((item) => ({
+            dishName: item.dishName,
+            category: item.category,
+            portion: item.portion ?? undefined,
+            confidence: item.confidence,
+            boundingBox: item.boundingBox,
+          }))
+        : []
+    );
+    setNutrition("calories" in meal ? toNutritionDraft(meal) : EMPTY_NUTRITION_DRAFT);
+    setInitialized(true);
+  }, [meal, initialized]);
+
+  const handleSubmit = async () => {
+    if (!dishName.trim()) {
+      Alert.alert("入力エラー", "料理名を入力してください");
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      Alert.alert("入力エラー", "日付はYYYY-MM-DD形式で入力してください");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (isAuthenticated) {
+        await updateMealMutation.mutateAsync({
+          id: Number(id),
+          date,
+          mealType,
+          dishName: dishName.trim(),
+          category: selectedCategory,
+          note: note.trim() || null,
+          imageUrl,
+          items: items.length > 0 ? items : [{ dishName: dishName.trim(), category: selectedCategory }],
+          nutrition: fromNutritionDraft(nutrition),
+          customCategoryId,
+          tags,
+          rating: rating.rating,
+          wouldEatAgain: rating.wouldEatAgain,
+          ...fromPriceDraft(price),
+          ...fromVenueDraft(venue),
+          leftoverPortions: mealType === "dinner" ? leftoverPortions : null,
+        });
+      } else {
+        await updateLocalMeal(id ?? "", {
+          date,
+          mealType,
+          dishName: dishName.trim(),
+          category: selectedCategory,
+          note: note.trim() || undefined,
+        });
+      }
+
+      Alert.alert("更新完了", "記録を更新しました", [
+        { text: "OK", onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error("Failed to update meal:", error);
+      Alert.alert("エラー", "更新に失敗しました。もう一度お試しください。");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Deleted records go to the trash and can be restored from Settings
+  const handleDelete = () => {
+    Alert.alert("ゴミ箱に移動", "この記録をゴミ箱に移動しますか？設定のゴミ箱から元に戻せます。", [
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "移動",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteMealMutation.mutateAsync({ id: Number(id) });
+            router.back();
+          } catch (error) {
+            console.error("Failed to delete meal:", error);
+            Alert.alert("エラー", "削除に失敗しました");
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </ThemedView>
+    );
+  }
+
+  if (!meal) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ThemedText style={{ color: colors.textSecondary }}>記録が見つかりません</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingTop: Spacing.md, paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Photo */}
+        {imageUrl && (
+          <View style={styles.imagePreviewContainer}>
+            <Image source={{ uri: imageUrl }} style={styles.imagePreview} />
+            <Pressable style={styles.clearImageButton} onPress={() => setImageUrl(null)}>
+              <ThemedText style={styles.clearImageText}>✕</ThemedText>
+            </Pressable>
+          </View>
+        )}
+
+        {/* Date Input */}
+        <View style={styles.inputSection}>
+          <ThemedText type="subtitle" style={styles.label}>
+            日付
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.textInput,
+              { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+            ]}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.textDisabled}
+            value={date}
+            onChangeText={setDate}
+            maxLength={10}
+          />
+        </View>
+
+        {/* Meal Type Toggle */}
+        <View style={[styles.modeToggle, { backgroundColor: colors.card }]}>
+          {MEAL_TYPE_OPTIONS.map((option) => (
+            <Pressable
+              key={option.key}
+              style={[styles.modeButton, mealType === option.key && { backgroundColor: colors.tint }]}
+              onPress={() => setMealType(option.key)}
+            >
+              <ThemedText
+                style={[styles.modeButtonText, mealType === option.key && styles.modeButtonTextActive]}
+              >
+                {option.emoji} {option.label}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+
+        {/* Dish Name Input */}
+        <View style={styles.inputSection}>
+          <ThemedText type="subtitle" style={styles.label}>
+            料理名
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.textInput,
+              { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+            ]}
+            placeholder="例: カレーライス、親子丼、パスタ..."
+            placeholderTextColor={colors.textDisabled}
+            value={dishName}
+            onChangeText={setDishName}
+            maxLength={100}
+          />
+        </View>
+
+        {/* Category Selection */}
+        <View style={styles.inputSection}>
+          <ThemedText type="subtitle" style={styles.label}>
+            カテゴリ
+          </ThemedText>
+          <CategoryPicker
+            value={{ category: selectedCategory, customCategoryId }}
+            onChange={(value) => {
+              setSelectedCategory(value.category);
+              setCustomCategoryId(value.customCategoryId);
+            }}
+            customCategories={isAuthenticated ? customCategories : undefined}
+          />
+        </View>
+
+        {/* Tags (server only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              タグ（任意）
+            </ThemedText>
+            <TagInput tags={tags} onChange={setTags} suggestions={tagSuggestions} />
+          </View>
+        )}
+
+        {/* Satisfaction rating (server only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              満足度（任意）
+            </ThemedText>
+            <RatingInput value={rating} onChange={setRating} />
+          </View>
+        )}
+
+        {/* Where the meal was eaten (server only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              食べた場所（任意）
+            </ThemedText>
+            <VenuePicker value={venue} onChange={setVenue} recentVenues={recentVenues} />
+          </View>
+        )}
+
+        {/* Price for the food budget (server only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              金額（任意）
+            </ThemedText>
+            <PriceInput value={price} onChange={setPrice} />
+          </View>
+        )}
+
+        {/* Leftovers for later meals (server dinners only) */}
+        {isAuthenticated && mealType === "dinner" && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              残り物（任意）
+            </ThemedText>
+            <LeftoverPortionsInput value={leftoverPortions} onChange={setLeftoverPortions} />
+          </View>
+        )}
+
+        {/* Meal Items (server records only) */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              品目
+            </ThemedText>
+            <MealItemsEditor items={items} onChange={setItems} defaultCategory={selectedCategory} />
+          </View>
+        )}
+
+        {/* Nutrition */}
+        {isAuthenticated && (
+          <View style={styles.inputSection}>
+            <ThemedText type="subtitle" style={styles.label}>
+              栄養素（推定値）
+            </ThemedText>
+            <NutritionEditor values={nutrition} onChange={setNutrition} />
+          </View>
+        )}
+
+        {/* Note Input */}
+        <View style={styles.inputSection}>
+          <ThemedText type="subtitle" style={styles.label}>
+            メモ（任意）
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.textInput,
+              styles.noteInput,
+              { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+            ]}
+            placeholder="味の感想や食べた場所など..."
+            placeholderTextColor={colors.textDisabled}
+            value={note}
+            onChangeText={setNote}
+            multiline
+            numberOfLines={3}
+            maxLength={500}
+          />
+        </View>
+
+        {/* Submit Button */}
+        <Pressable
+          style={[
+            styles.submitButton,
+            { backgroundColor: dishName.trim() ? colors.tint : colors.textDisabled },
+          ]}
+          onPress={handleSubmit}
+          disabled={!dishName.trim() || isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <ThemedText style={styles.submitButtonText}>保存する</ThemedText>
+          )}
+        </Pressable>
+
+        {isAuthenticated && (
+          <Pressable
+            style={styles.deleteButton}
+            onPress={handleDelete}
+            disabled={deleteMealMutation.isPending}
+          >
+            <ThemedText style={[styles.deleteButtonText, { color: colors.error }]}>
+              ゴミ箱に移動
+            </ThemedText>
+          </Pressable>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.md,
+  },
+  imagePreviewContainer: {
+    position: "relative",
+    borderRadius: BorderRadius.lg,
+    overflow: "hidden",
+    marginBottom: Spacing.lg,
+  },
+  imagePreview: {
+    width: "100%",
+    height: 200,
+    borderRadius: BorderRadius.lg,
+  },
+  clearImageButton: {
+    position: "absolute",
+    top: Spacing.sm,
+    right: Spacing.sm,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  clearImageText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "bold",
+    lineHeight: 20,
+  },
+  modeToggle: {
+    flexDirection: "row",
+    borderRadius: BorderRadius.md,
+    padding: 4,
+    marginBottom: Spacing.lg,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  modeButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  modeButtonTextActive: {
+    color: "#FFFFFF",
+  },
+  inputSection: {
+    marginBottom: Spacing.lg,
+  },
+  label: {
+    marginBottom: Spacing.sm,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  noteInput: {
+    minHeight: 100,
+    textAlignVertical: "top",
+  },
+  submitButton: {
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    marginTop: Spacing.md,
+  },
+  submitButtonText: {
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "600",
+    lineHeight: 26,
+  },
+  deleteButton: {
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+    marginTop: Spacing.sm,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,374 @@
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { mealTypeLabels } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { trpc } from "@/lib/trpc";
+import { MAX_IMPORT_CHARS } from "@/shared/const";
+
+type ImportFormat = "csv" | "json";
+type ImportField = "date" | "mealType" | "dishName" | "category" | "note";
+type ColumnMapping = Partial<Record<ImportField, string>>;
+
+const FIELD_LABELS: { key: ImportField; label: string; required: boolean }[] = [
+  { key: "date", label: "日付", required: true },
+  { key: "mealType", label: "食事タイプ", required: true },
+  { key: "dishName", label: "料理名", required: true },
+  { key: "category", label: "カテゴリ", required: false },
+  { key: "note", label: "メモ", required: false },
+];
+
+const CSV_EXAMPLE = "日付,食事,料理名,カテゴリ,メモ\n2024/04/01,ランチ,親子丼,和食,\n2024/04/01,夕食,麻婆豆腐,中華,辛め";
+
+// JSON starts with [ or {; anything else is treated as CSV
+function detectFormat(content: string): ImportFormat {
+  const first = content.trimStart()[0];
+  return first === "[" || first === "{" ? "json" : "csv";
+}
+
+export default function ImportMealsScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+
+  const [content, setContent] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping | undefined>(undefined);
+
+  const utils = trpc.useUtils();
+  const previewMutation = trpc.migration.importMeals.useMutation();
+  const commitMutation = trpc.migration.importMeals.useMutation({
+    onSuccess: () => {
+      utils.meals.getByDate.invalidate();
+      utils.meals.getRecent.invalidate();
+      utils.meals.list.invalidate();
+      utils.meals.getByDateRange.invalidate();
+      utils.reports.getWeeklyReport.invalidate();
+    },
+  });
+
+  const preview = previewMutation.data;
+  const format = detectFormat(content);
+
+  const runPreview = async (nextMapping: ColumnMapping | undefined) => {
+    if (!content.trim()) return;
+    if (content.length > MAX_IMPORT_CHARS) {
+      Alert.alert(
+        "ファイルが大きすぎます",
+        `${MAX_IMPORT_CHARS.toLocaleString("ja-JP")}文字までです。期間ごとに分けてインポートしてください。`
+      );
+      return;
+    }
+    try {
+      const result = await previewMutation.mutateAsync({ format, content, mapping: nextMapping, dryRun: true });
+      setMapping(result.mapping);
+    } catch (error) {
+      console.error("Import preview failed:", error);
+      Alert.alert("エラー", "ファイルを読み込めませんでした。CSVまたはJSONの形式を確認してください。");
+    }
+  };
+
+  const handleSelectColumn = (field: ImportField, column: string | undefined) => {
+    const nextMapping = { ...mapping, [field]: column };
+    setMapping(nextMapping);
+    runPreview(nextMapping);
+  };
+
+  const handleCommit = () => {
+    if (!preview) return;
+    const skipInvalidRows = preview.errors.length > 0;
+    Alert.alert(
+      "インポート",
+      skipInvalidRows
+        ? `エラーのある${preview.errors.length}行を除いて、${preview.validRows}件を記録します。`
+        : `${preview.validRows}件を記録します。`,
+      [
+        { text: "キャンセル", style: "cancel" },
+        {
+          text: "インポート",
+          onPress: async () => {
+            try {
+              const result = await commitMutation.mutateAsync({
+                format,
+                content,
+                mapping,
+                dryRun: false,
+                skipInvalidRows,
+              });
+              Alert.alert("完了", `${result.importedCount}件の記録をインポートしました`, [
+                { text: "OK", onPress: () => router.back() },
+              ]);
+            } catch (error) {
+              console.error("Import failed:", error);
+              Alert.alert("エラー", "インポートに失敗しました。記録は追加されていません。");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+          スプレッドシートなどから書き出したCSV（1行目は見出し）またはJSONを貼り付けてください。
+          日付・食事タイプ・料理名の列が必要です。
+        </ThemedText>
+
+        <TextInput
+          style={[
+            styles.contentInput,
+            { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+          ]}
+          placeholder={CSV_EXAMPLE}
+          placeholderTextColor={colors.textDisabled}
+          value={content}
+          onChangeText={(text) => {
+            setContent(text);
+            setMapping(undefined);
+            previewMutation.reset();
+          }}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <Pressable
+          style={[styles.button, { backgroundColor: content.trim() ? colors.tint : colors.textDisabled }]}
+          onPress={() => runPreview(mapping)}
+          disabled={!content.trim() || previewMutation.isPending}
+        >
+          {previewMutation.isPending ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <ThemedText style={styles.buttonText}>プレビュー（{format.toUpperCase()}）</ThemedText>
+          )}
+        </Pressable>
+
+        {preview && (
+          <>
+            {/* Column mapping */}
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              列の対応
+            </ThemedText>
+            {FIELD_LABELS.map((field) => (
+              <View key={field.key} style={styles.mappingRow}>
+                <ThemedText style={styles.mappingLabel}>
+                  {field.label}
+                  {field.required ? " *" : ""}
+                </ThemedText>
+                <View style={styles.chipRow}>
+                  {!field.required && (
+                    <Pressable
+                      style={[
+                        styles.chip,
+                        { borderColor: colors.border },
+                        !mapping?.[field.key] && { backgroundColor: colors.tint },
+                      ]}
+                      onPress={() => handleSelectColumn(field.key, undefined)}
+                    >
+                      <ThemedText style={[styles.chipText, !mapping?.[field.key] && styles.chipTextActive]}>
+                        なし
+                      </ThemedText>
+                    </Pressable>
+                  )}
+                  {preview.columns.map((column) => {
+                    const active = mapping?.[field.key] === column;
+                    return (
+                      <Pressable
+                        key={column}
+                        style={[
+                          styles.chip,
+                          { borderColor: active ? colors.tint : colors.border },
+                          active && { backgroundColor: colors.tint },
+                        ]}
+                        onPress={() => handleSelectColumn(field.key, column)}
+                      >
+                        <ThemedText style={[styles.chipText, active && styles.chipTextActive]}>{column}</ThemedText>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+
+            {/* Summary */}
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              確認
+            </ThemedText>
+            <ThemedText style={styles.summaryText}>
+              全{preview.totalRows}行: 取り込み{preview.validRows}件・エラー{preview.errors.length}件
+              {preview.duplicateRows.length > 0 ? `・記録済み${preview.duplicateRows.length}件（スキップ）` : ""}
+            </ThemedText>
+            {preview.missingFields.length > 0 && (
+              <ThemedText style={[styles.summaryText, { color: colors.error }]}>
+                必須の列（{FIELD_LABELS.filter((f) => (preview.missingFields as string[]).includes(f.key)).map((f) => f.label).join("・")}
+                ）を選んでください
+              </ThemedText>
+            )}
+
+            {preview.errors.slice(0, 50).map((error) => (
+              <View key={error.row} style={[styles.errorRow, { borderColor: colors.error }]}>
+                <ThemedText style={[styles.errorTitle, { color: colors.error }]}>{error.row}行目</ThemedText>
+                {error.messages.map((message) => (
+                  <ThemedText key={message} style={[styles.errorMessage, { color: colors.textSecondary }]}>
+                    {message}
+                  </ThemedText>
+                ))}
+              </View>
+            ))}
+
+            {preview.preview.map((row) => (
+              <View key={row.row} style={[styles.previewRow, { backgroundColor: colors.card }]}>
+                <ThemedText style={[styles.previewMeta, { color: colors.textSecondary }]}>
+                  {row.date} {mealTypeLabels[row.mealType]}
+                </ThemedText>
+                <ThemedText style={styles.previewName}>{row.dishName}</ThemedText>
+              </View>
+            ))}
+            {preview.validRows > preview.preview.length && (
+              <ThemedText style={[styles.summaryText, { color: colors.textSecondary }]}>
+                ほか{preview.validRows - preview.preview.length}件
+              </ThemedText>
+            )}
+
+            <Pressable
+              style={[
+                styles.button,
+                {
+                  backgroundColor:
+                    preview.validRows > 0 && preview.missingFields.length === 0 ? colors.tint : colors.textDisabled,
+                },
+              ]}
+              onPress={handleCommit}
+              disabled={preview.validRows === 0 || preview.missingFields.length > 0 || commitMutation.isPending}
+            >
+              {commitMutation.isPending ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <ThemedText style={styles.buttonText}>{preview.validRows}件をインポート</ThemedText>
+              )}
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: Spacing.md,
+  },
+  contentInput: {
+    minHeight: 160,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    fontSize: 14,
+    lineHeight: 20,
+    textAlignVertical: "top",
+    fontFamily: "monospace",
+  },
+  button: {
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    marginTop: Spacing.md,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+  sectionTitle: {
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  mappingRow: {
+    marginBottom: Spacing.sm,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+    marginBottom: Spacing.xs,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  summaryText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: Spacing.sm,
+  },
+  errorRow: {
+    borderLeftWidth: 3,
+    paddingLeft: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  errorTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    lineHeight: 18,
+  },
+  errorMessage: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  previewRow: {
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.xs,
+  },
+  previewMeta: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  previewName: {
+    fontSize: 15,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,270 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useEffect, useState } from "react";
+import { Alert, Pressable, ScrollView, StyleSheet, TextInput, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { CategoryPicker } from "@/components/category-picker";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { MEAL_TYPE_OPTIONS } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useToday } from "@/hooks/use-today";
+import { trpc } from "@/lib/trpc";
+import type { MealType } from "@/shared/const";
+import { addDays } from "@/shared/dates";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+export default function MealPlanScreen() {
+  const params = useLocalSearchParams<{ id?: string; date?: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const { today } = useToday(true);
+
+  const planId = params.id ? Number(params.id) : null;
+  const [date, setDate] = useState(params.date ?? today);
+  const [mealType, setMealType] = useState<MealType>("dinner");
+  const [dishName, setDishName] = useState("");
+  const [category, setCategory] = useState<Category>("japanese");
+  const [note, setNote] = useState("");
+  const [groupId, setGroupId] = useState<number | null>(null);
+  const [initialized, setInitialized] = useState(planId === null);
+
+  const utils = trpc.useUtils();
+  const { data: plans } = trpc.mealPlans.list.useQuery(
+    { startDate: params.date ?? today, endDate: params.date ?? today },
+    { enabled: planId !== null }
+  );
+  const { data: groups } = trpc.groups.myGroups.useQuery();
+  const { data: favorites } = trpc.favorites.list.useQuery();
+  const onSaved = () => {
+    utils.mealPlans.list.invalidate();
+    router.back();
+  };
+  const createMutation = trpc.mealPlans.create.useMutation({ onSuccess: onSaved });
+  const updateMutation = trpc.mealPlans.update.useMutation({ onSuccess: onSaved });
+
+  // Editing: fill the form from the existing plan
+  useEffect(() => {
+    const plan = plans?.find((p) => p.id === planId);
+    if (plan && !initialized) {
+      setDate(plan.date);
+      setMealType(plan.mealType);
+      setDishName(plan.dishName);
+      setCategory(plan.category);
+      setNote(plan.note ?? "");
+      setGroupId(plan.groupId);
+      setInitialized(true);
+    }
+  }, [plans, planId, initialized]);
+
+  const handleSave = async () => {
+    if (!dishName.trim()) {
+      Alert.alert("入力エラー", "料理名を入力してください");
+      return;
+    }
+
+    const values = { date, mealType, dishName: dishName.trim(), category, groupId };
+    try {
+      if (planId === null) {
+        await createMutation.mutateAsync({ ...values, note: note.trim() || undefined });
+      } else {
+        await updateMutation.mutateAsync({ id: planId, ...values, note: note.trim() || null });
+      }
+    } catch (error) {
+      console.error("Failed to save meal plan:", error);
+      Alert.alert("エラー", "予定の保存に失敗しました");
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: selected ? colors.tint : colors.border },
+        selected && { backgroundColor: colors.tint },
+      ]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <ThemedText style={styles.label}>日付</ThemedText>
+        <View style={[styles.dateRow, { backgroundColor: colors.card }]}>
+          <Pressable onPress={() => setDate(addDays(date, -1))} disabled={date <= today} style={styles.dateButton}>
+            <ThemedText style={[styles.dateButtonText, { color: date <= today ? colors.textDisabled : colors.tint }]}>
+              ←
+            </ThemedText>
+          </Pressable>
+          <ThemedText type="subtitle">
+            {new Date(date + "T00:00:00").toLocaleDateString("ja-JP", {
+              month: "long",
+              day: "numeric",
+              weekday: "short",
+            })}
+          </ThemedText>
+          <Pressable onPress={() => setDate(addDays(date, 1))} style={styles.dateButton}>
+            <ThemedText style={[styles.dateButtonText, { color: colors.tint }]}>→</ThemedText>
+          </Pressable>
+        </View>
+
+        <ThemedText style={styles.label}>食事</ThemedText>
+        <View style={styles.chipRow}>
+          {MEAL_TYPE_OPTIONS.map((option) =>
+            renderChip(option.key, `${option.emoji} ${option.label}`, mealType === option.key, () =>
+              setMealType(option.key)
+            )
+          )}
+        </View>
+
+        {planId === null && favorites && favorites.length > 0 && (
+          <>
+            <ThemedText style={styles.label}>お気に入りから選ぶ</ThemedText>
+            <View style={styles.chipRow}>
+              {favorites.slice(0, 10).map((favorite) =>
+                renderChip(String(favorite.id), favorite.dishName, dishName === favorite.dishName, () => {
+                  setDishName(favorite.dishName);
+                  setCategory(favorite.category);
+                })
+              )}
+            </View>
+          </>
+        )}
+
+        <ThemedText style={styles.label}>料理名</ThemedText>
+        <TextInput
+          style={[styles.input, { backgroundColor: colors.card, color: colors.text, borderColor: colors.border }]}
+          placeholder="例: 肉じゃが"
+          placeholderTextColor={colors.textDisabled}
+          value={dishName}
+          onChangeText={setDishName}
+          maxLength={255}
+        />
+
+        <ThemedText style={styles.label}>カテゴリ</ThemedText>
+        <CategoryPicker
+          value={{ category, customCategoryId: null }}
+          onChange={(value) => setCategory(value.category)}
+        />
+
+        {groups && groups.length > 0 && (
+          <>
+            <ThemedText style={styles.label}>誰の予定？</ThemedText>
+            <View style={styles.chipRow}>
+              {renderChip("none", "自分だけ", groupId === null, () => setGroupId(null))}
+              {groups.map((group) =>
+                renderChip(String(group.id), `👨‍👩‍👧 ${group.name}`, groupId === group.id, () => setGroupId(group.id))
+              )}
+            </View>
+            <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>
+              グループを選ぶとメンバー全員のカレンダーに表示されます
+            </ThemedText>
+          </>
+        )}
+
+        <ThemedText style={styles.label}>メモ</ThemedText>
+        <TextInput
+          style={[styles.input, { backgroundColor: colors.card, color: colors.text, borderColor: colors.border }]}
+          placeholder="任意（買い物メモなど）"
+          placeholderTextColor={colors.textDisabled}
+          value={note}
+          onChangeText={setNote}
+          maxLength={500}
+        />
+
+        <Pressable
+          style={[styles.saveButton, { backgroundColor: colors.tint }]}
+          onPress={handleSave}
+          disabled={!initialized || createMutation.isPending || updateMutation.isPending}
+        >
+          <ThemedText style={styles.saveButtonText}>{planId === null ? "予定を追加" : "保存"}</ThemedText>
+        </Pressable>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  dateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.md,
+  },
+  dateButton: {
+    padding: Spacing.sm,
+  },
+  dateButtonText: {
+    fontSize: 22,
+    fontWeight: "bold",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: Spacing.xs,
+  },
+  saveButton: {
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    marginTop: Spacing.lg,
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+});
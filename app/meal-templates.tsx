@@ -0,0 +1,431 @@
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useLocalSearchParams } from "expo-router";
+
+import { CategoryPicker } from "@/components/category-picker";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import {
+  formatWeekdays,
+  MEAL_TYPE_OPTIONS,
+  mealTypeLabels,
+  TEMPLATE_MODE_OPTIONS,
+  WEEKDAY_LABELS,
+} from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { trpc } from "@/lib/trpc";
+import type { MealType, TemplateMode } from "@/shared/const";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+type TemplateDraft = {
+  id: number | null;
+  favoriteMealId: number | null;
+  dishName: string;
+  category: Category;
+  note: string;
+  mealType: MealType;
+  weekdays: number[];
+  mode: TemplateMode;
+  time: string;
+};
+
+const EMPTY_DRAFT: TemplateDraft = {
+  id: null,
+  favoriteMealId: null,
+  dishName: "",
+  category: "japanese",
+  note: "",
+  mealType: "lunch",
+  weekdays: [1, 2, 3, 4, 5],
+  mode: "suggest",
+  time: "12:00",
+};
+
+const TIME_OPTIONS = ["07:30", "12:00", "12:30", "13:00", "19:00", "20:00"];
+
+export default function MealTemplatesScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const params = useLocalSearchParams<{ favoriteId?: string }>();
+
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: templates, isLoading } = trpc.templates.list.useQuery();
+  const { data: favorites } = trpc.favorites.list.useQuery();
+  const onChanged = () => {
+    utils.templates.list.invalidate();
+    utils.templates.getForDate.invalidate();
+  };
+  const createMutation = trpc.templates.create.useMutation({ onSuccess: onChanged });
+  const updateMutation = trpc.templates.update.useMutation({ onSuccess: onChanged });
+  const deleteMutation = trpc.templates.delete.useMutation({ onSuccess: onChanged });
+
+  // Opened from a favorite: start a new template with its dish
+  useEffect(() => {
+    const favorite = favorites?.find((f) => String(f.id) === params.favoriteId);
+    if (favorite) {
+      setDraft({
+        ...EMPTY_DRAFT,
+        favoriteMealId: favorite.id,
+        dishName: favorite.dishName,
+        category: favorite.category,
+        note: favorite.note ?? "",
+      });
+    }
+  }, [favorites, params.favoriteId]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.dishName.trim()) {
+      Alert.alert("入力エラー", "料理名を入力してください");
+      return;
+    }
+    if (draft.weekdays.length === 0) {
+      Alert.alert("入力エラー", "曜日を1つ以上選んでください");
+      return;
+    }
+
+    const values = {
+      dishName: draft.dishName.trim(),
+      category: draft.category,
+      mealType: draft.mealType,
+      weekdays: draft.weekdays,
+      mode: draft.mode,
+      time: draft.time,
+    };
+    try {
+      if (draft.id === null) {
+        await createMutation.mutateAsync({
+          ...values,
+          favoriteMealId: draft.favoriteMealId ?? undefined,
+          note: draft.note.trim() || undefined,
+        });
+      } else {
+        await updateMutation.mutateAsync({ id: draft.id, ...values, note: draft.note.trim() || null });
+      }
+      setDraft(null);
+    } catch (error) {
+      console.error("Failed to save template:", error);
+      Alert.alert("エラー", "定番メニューの保存に失敗しました");
+    }
+  };
+
+  const handleDelete = (id: number, dishName: string) => {
+    Alert.alert("定番メニューを削除", `「${dishName}」を削除しますか？記録済みの食事は残ります。`, [
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "削除",
+        style: "destructive",
+        onPress: () => deleteMutation.mutate({ id }),
+      },
+    ]);
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!draft) return;
+    const weekdays = draft.weekdays.includes(day)
+      ? draft.weekdays.filter((d) => d !== day)
+      : [...draft.weekdays, day].sort((a, b) => a - b);
+    setDraft({ ...draft, weekdays });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: selected ? colors.tint : colors.border },
+        selected && { backgroundColor: colors.tint },
+      ]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+          決まった曜日に食べる社食やお弁当を登録すると、ホームからワンタップで記録できます。自動記録にすると設定した時刻に記録されます。
+        </ThemedText>
+
+        {draft ? (
+          <View style={[styles.form, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            {draft.id === null && favorites && favorites.length > 0 && (
+              <>
+                <ThemedText style={styles.label}>お気に入りから選ぶ</ThemedText>
+                <View style={styles.chipRow}>
+                  {favorites.slice(0, 10).map((favorite) =>
+                    renderChip(String(favorite.id), favorite.dishName, draft.favoriteMealId === favorite.id, () =>
+                      setDraft({
+                        ...draft,
+                        favoriteMealId: favorite.id,
+                        dishName: favorite.dishName,
+                        category: favorite.category,
+                        note: favorite.note ?? "",
+                      })
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            <ThemedText style={styles.label}>料理名</ThemedText>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.background, color: colors.text, borderColor: colors.border }]}
+              placeholder="例: 社食A定食"
+              placeholderTextColor={colors.textDisabled}
+              value={draft.dishName}
+              onChangeText={(dishName) => setDraft({ ...draft, dishName })}
+              maxLength={255}
+            />
+
+            <ThemedText style={styles.label}>カテゴリ</ThemedText>
+            <CategoryPicker
+              value={{ category: draft.category, customCategoryId: null }}
+              onChange={(value) => setDraft({ ...draft, category: value.category })}
+            />
+
+            <ThemedText style={styles.label}>メモ</ThemedText>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.background, color: colors.text, borderColor: colors.border }]}
+              placeholder="任意"
+              placeholderTextColor={colors.textDisabled}
+              value={draft.note}
+              onChangeText={(note) => setDraft({ ...draft, note })}
+              maxLength={500}
+            />
+
+            <ThemedText style={styles.label}>食事</ThemedText>
+            <View style={styles.chipRow}>
+              {MEAL_TYPE_OPTIONS.map((option) =>
+                renderChip(option.key, `${option.emoji} ${option.label}`, draft.mealType === option.key, () =>
+                  setDraft({ ...draft, mealType: option.key })
+                )
+              )}
+            </View>
+
+            <ThemedText style={styles.label}>曜日</ThemedText>
+            <View style={styles.chipRow}>
+              {WEEKDAY_LABELS.map((label, day) =>
+                renderChip(label, label, draft.weekdays.includes(day), () => toggleWeekday(day))
+              )}
+            </View>
+
+            <ThemedText style={styles.label}>記録のしかた</ThemedText>
+            <View style={styles.chipRow}>
+              {TEMPLATE_MODE_OPTIONS.map((option) =>
+                renderChip(option.key, option.label, draft.mode === option.key, () => setDraft({ ...draft, mode: option.key }))
+              )}
+            </View>
+            <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>
+              {TEMPLATE_MODE_OPTIONS.find((option) => option.key === draft.mode)?.description}
+            </ThemedText>
+
+            {draft.mode === "auto" && (
+              <>
+                <ThemedText style={styles.label}>記録する時刻</ThemedText>
+                <View style={styles.chipRow}>
+                  {TIME_OPTIONS.map((time) =>
+                    renderChip(time, time, draft.time === time, () => setDraft({ ...draft, time }))
+                  )}
+                </View>
+              </>
+            )}
+
+            <View style={styles.formActions}>
+              <Pressable style={[styles.secondaryButton, { borderColor: colors.border }]} onPress={() => setDraft(null)}>
+                <ThemedText>キャンセル</ThemedText>
+              </Pressable>
+              <Pressable
+                style={[styles.primaryButton, { backgroundColor: colors.tint }]}
+                onPress={handleSave}
+                disabled={createMutation.isPending || updateMutation.isPending}
+              >
+                <ThemedText style={styles.primaryButtonText}>保存</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        ) : (
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: colors.tint }]}
+            onPress={() => setDraft(EMPTY_DRAFT)}
+          >
+            <ThemedText style={styles.primaryButtonText}>＋ 定番メニューを追加</ThemedText>
+          </Pressable>
+        )}
+
+        {isLoading ? (
+          <ActivityIndicator color={colors.tint} style={styles.loading} />
+        ) : (
+          templates?.map((template) => (
+            <Pressable
+              key={template.id}
+              style={[styles.templateRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+              onPress={() =>
+                setDraft({
+                  id: template.id,
+                  favoriteMealId: template.favoriteMealId,
+                  dishName: template.dishName,
+                  category: template.category,
+                  note: template.note ?? "",
+                  mealType: template.mealType,
+                  weekdays: template.weekdays,
+                  mode: template.mode,
+                  time: template.time,
+                })
+              }
+              onLongPress={() => handleDelete(template.id, template.dishName)}
+            >
+              <View style={styles.templateInfo}>
+                <ThemedText style={[styles.templateName, !template.isActive && { color: colors.textDisabled }]}>
+                  {template.dishName}
+                </ThemedText>
+                <ThemedText style={[styles.templateMeta, { color: colors.textSecondary }]}>
+                  {formatWeekdays(template.weekdays)}の{mealTypeLabels[template.mealType]}・
+                  {template.mode === "auto" ? `${template.time}に自動記録` : "提案"}
+                </ThemedText>
+              </View>
+              <Switch
+                value={template.isActive}
+                onValueChange={(isActive) => updateMutation.mutate({ id: template.id, isActive })}
+                trackColor={{ false: colors.border, true: colors.tint }}
+                thumbColor="#fff"
+              />
+            </Pressable>
+          ))
+        )}
+        {templates && templates.length > 0 && (
+          <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>長押しで削除できます</ThemedText>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: Spacing.md,
+  },
+  form: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.md,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: Spacing.xs,
+  },
+  formActions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  loading: {
+    marginVertical: Spacing.lg,
+  },
+  templateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 16,
+    fontWeight: "500",
+    lineHeight: 22,
+  },
+  templateMeta: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,429 @@
+import * as ImagePicker from "expo-image-picker";
+import { useRouter } from "expo-router";
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { toMealItem } from "@/components/detected-dishes-editor";
+import { DishCandidateChips, type DishCandidate } from "@/components/dish-candidate-chips";
+import type { MealItemDraft } from "@/components/meal-items-editor";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { MEAL_TYPE_OPTIONS } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth } from "@/hooks/use-auth";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useToday } from "@/hooks/use-today";
+import { uploadPhoto } from "@/lib/api";
+import { trpc } from "@/lib/trpc";
+import { ANALYSIS_CONFIDENCE_THRESHOLD, NUTRITION_KEYS, type MealType, type Nutrition } from "@/shared/const";
+import { addDays } from "@/shared/dates";
+import { suggestMealFromPhoto, type PhotoCaptureTime } from "@/shared/photo-time";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+type StoredPhoto = { imageUrl: string; imageKey: string; thumbnailUrl: string; thumbnailKey: string };
+
+type BackfillEntry = {
+  uri: string;
+  takenAt: PhotoCaptureTime | null;
+  date: string;
+  mealType: MealType;
+  dishName: string;
+  category: Category;
+  candidates: DishCandidate[];
+  lowConfidence: boolean;
+  items: MealItemDraft[];
+  nutrition: Nutrition | null;
+  photo: StoredPhoto | null;
+  status: "analyzing" | "ready" | "failed";
+  selected: boolean;
+};
+
+const MAX_BACKFILL_PHOTOS = 20;
+
+// Photos with a capture time first, oldest first
+function compareEntries(a: BackfillEntry, b: BackfillEntry): number {
+  if (!a.takenAt || !b.takenAt) return a.takenAt ? -1 : b.takenAt ? 1 : 0;
+  return `${a.takenAt.date} ${a.takenAt.time}`.localeCompare(`${b.takenAt.date} ${b.takenAt.time}`);
+}
+
+export default function PhotoBackfillScreen() {
+  const { isAuthenticated } = useAuth();
+  const { today } = useToday(isAuthenticated);
+  const router = useRouter();
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+
+  const [entries, setEntries] = useState<BackfillEntry[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const utils = trpc.useUtils();
+  const analyzeFoodMutation = trpc.imageAnalysis.analyzeFood.useMutation();
+  const createMealMutation = trpc.meals.create.useMutation({
+    onSuccess: () => {
+      utils.meals.getByDate.invalidate();
+      utils.meals.getRecent.invalidate();
+      utils.meals.list.invalidate();
+      utils.meals.getByDateRange.invalidate();
+      utils.meals.getTags.invalidate();
+      utils.reports.getWeeklyReport.invalidate();
+    },
+  });
+
+  const updateEntry = (uri: string, changes: Partial<BackfillEntry>) => {
+    setEntries((current) => current.map((entry) => (entry.uri === uri ? { ...entry, ...changes } : entry)));
+  };
+
+  // One photo at a time so a long selection does not flood the server
+  const analyzeEntries = async (pending: BackfillEntry[]) => {
+    for (const entry of pending) {
+      try {
+        const uploadId = await uploadPhoto(entry.uri);
+        const result = await analyzeFoodMutation.mutateAsync({ uploadId });
+        const confident = result.candidates.length > 0 && result.confidence >= ANALYSIS_CONFIDENCE_THRESHOLD;
+        updateEntry(entry.uri, {
+          status: "ready",
+          dishName: confident ? result.dishName : "",
+          category: confident ? (result.category as Category) : "other",
+          candidates: result.candidates,
+          lowConfidence: !confident,
+          items: result.dishes.map(toMealItem),
+          nutrition: NUTRITION_KEYS.some((key) => result.nutrition[key] != null) ? result.nutrition : null,
+          photo: {
+            imageUrl: result.imageUrl,
+            imageKey: result.imageKey,
+            thumbnailUrl: result.thumbnailUrl,
+            thumbnailKey: result.thumbnailKey,
+          },
+        });
+      } catch (error) {
+        console.error("Backfill photo analysis failed:", error);
+        updateEntry(entry.uri, { status: "failed", lowConfidence: true });
+      }
+    }
+  };
+
+  const pickPhotos = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== "granted") {
+      Alert.alert("権限が必要です", "写真ライブラリへのアクセス権限を許可してください。");
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      allowsMultipleSelection: true,
+      selectionLimit: MAX_BACKFILL_PHOTOS,
+      quality: 0.8,
+      exif: true,
+    });
+    if (result.canceled) return;
+
+    // The capture time is read on the device; the server strips EXIF from stored photos
+    const known = new Set(entries.map((entry) => entry.uri));
+    const added = result.assets
+      .filter((asset) => !known.has(asset.uri))
+      .map((asset): BackfillEntry => {
+        const suggestion = suggestMealFromPhoto(asset.exif, today);
+        return {
+          uri: asset.uri,
+          takenAt: suggestion ? { date: suggestion.date, time: suggestion.time } : null,
+          date: suggestion?.mealDate ?? today,
+          mealType: suggestion?.mealType ?? "lunch",
+          dishName: "",
+          category: "other",
+          candidates: [],
+          lowConfidence: false,
+          items: [],
+          nutrition: null,
+          photo: null,
+          status: "analyzing",
+          selected: true,
+        };
+      });
+    setEntries((current) => [...current, ...added].sort(compareEntries));
+    analyzeEntries(added);
+  };
+
+  const selectedEntries = entries.filter((entry) => entry.selected);
+  const isAnalyzing = entries.some((entry) => entry.status === "analyzing");
+
+  const handleSave = async () => {
+    if (selectedEntries.some((entry) => !entry.dishName.trim())) {
+      Alert.alert("入力エラー", "料理名が入っていない写真があります。候補から選ぶか入力してください。");
+      return;
+    }
+
+    setIsSaving(true);
+    const recorded: string[] = [];
+    try {
+      for (const entry of selectedEntries) {
+        await createMealMutation.mutateAsync({
+          date: entry.date,
+          mealType: entry.mealType,
+          dishName: entry.dishName.trim(),
+          category: entry.category,
+          ...entry.photo,
+          items: entry.items.length > 0 ? entry.items : undefined,
+          nutrition: entry.nutrition ?? undefined,
+        });
+        recorded.push(entry.uri);
+      }
+      Alert.alert("記録完了", `${recorded.length}件の食事を記録しました`, [
+        { text: "OK", onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error("Backfill failed:", error);
+      Alert.alert(
+        "エラー",
+        `${recorded.length}件を記録したところで失敗しました。残りの写真はもう一度お試しください。`
+      );
+    } finally {
+      // Recorded photos leave the list so a retry does not save them twice
+      setEntries((current) => current.filter((entry) => !recorded.includes(entry.uri)));
+      setIsSaving(false);
+    }
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date + "T00:00:00").toLocaleDateString("ja-JP", { month: "long", day: "numeric", weekday: "short" });
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+          記録し忘れた日の写真をまとめて選んでください。撮影日時から日付と食事を提案します。
+          内容を確認してから記録してください。
+        </ThemedText>
+
+        <Pressable style={[styles.button, { backgroundColor: colors.tint }]} onPress={pickPhotos} disabled={isSaving}>
+          <ThemedText style={styles.buttonText}>🖼️ 写真を選ぶ（最大{MAX_BACKFILL_PHOTOS}枚）</ThemedText>
+        </Pressable>
+
+        {entries.map((entry) => (
+          <View key={entry.uri} style={[styles.entry, { backgroundColor: colors.card }]}>
+            <View style={styles.entryHeader}>
+              <Pressable
+                style={[
+                  styles.checkbox,
+                  { borderColor: entry.selected ? colors.tint : colors.border },
+                  entry.selected && { backgroundColor: colors.tint },
+                ]}
+                onPress={() => updateEntry(entry.uri, { selected: !entry.selected })}
+                hitSlop={6}
+              >
+                {entry.selected && <ThemedText style={styles.checkmark}>✓</ThemedText>}
+              </Pressable>
+              <Image source={{ uri: entry.uri }} style={styles.thumbnail} />
+              <View style={styles.entryInfo}>
+                <View style={styles.dateRow}>
+                  <Pressable onPress={() => updateEntry(entry.uri, { date: addDays(entry.date, -1) })} hitSlop={6}>
+                    <ThemedText style={[styles.dateButtonText, { color: colors.tint }]}>←</ThemedText>
+                  </Pressable>
+                  <ThemedText style={styles.dateText}>{formatDate(entry.date)}</ThemedText>
+                  <Pressable
+                    onPress={() => updateEntry(entry.uri, { date: addDays(entry.date, 1) })}
+                    disabled={entry.date >= today}
+                    hitSlop={6}
+                  >
+                    <ThemedText
+                      style={[styles.dateButtonText, { color: entry.date >= today ? colors.textDisabled : colors.tint }]}
+                    >
+                      →
+                    </ThemedText>
+                  </Pressable>
+                </View>
+                <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+                  {entry.takenAt ? `撮影 ${entry.takenAt.date.replace(/-/g, "/")} ${entry.takenAt.time}` : "撮影日時なし"}
+                </ThemedText>
+              </View>
+              {entry.status === "analyzing" && <ActivityIndicator color={colors.tint} />}
+            </View>
+
+            <View style={styles.chipRow}>
+              {MEAL_TYPE_OPTIONS.map((option) => {
+                const active = entry.mealType === option.key;
+                return (
+                  <Pressable
+                    key={option.key}
+                    style={[
+                      styles.chip,
+                      { borderColor: active ? colors.tint : colors.border },
+                      active && { backgroundColor: colors.tint },
+                    ]}
+                    onPress={() => updateEntry(entry.uri, { mealType: option.key })}
+                  >
+                    <ThemedText style={[styles.chipText, active && styles.chipTextActive]}>
+                      {option.emoji} {option.label}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {entry.candidates.length > 0 && (
+              <DishCandidateChips
+                candidates={entry.candidates}
+                selectedName={entry.dishName}
+                onSelect={(candidate) =>
+                  updateEntry(entry.uri, { dishName: candidate.dishName, category: candidate.category })
+                }
+                lowConfidence={entry.lowConfidence}
+              />
+            )}
+            {entry.status === "failed" && (
+              <ThemedText style={[styles.meta, { color: colors.error }]}>
+                写真を解析できませんでした。料理名を入力してください
+              </ThemedText>
+            )}
+            <TextInput
+              style={[styles.textInput, { backgroundColor: colors.background, color: colors.text, borderColor: colors.border }]}
+              placeholder={entry.status === "analyzing" ? "解析中..." : "料理名"}
+              placeholderTextColor={colors.textDisabled}
+              value={entry.dishName}
+              onChangeText={(dishName) => updateEntry(entry.uri, { dishName })}
+              maxLength={100}
+            />
+          </View>
+        ))}
+
+        {entries.length > 0 && (
+          <Pressable
+            style={[
+              styles.button,
+              { backgroundColor: selectedEntries.length > 0 && !isAnalyzing ? colors.tint : colors.textDisabled },
+            ]}
+            onPress={handleSave}
+            disabled={selectedEntries.length === 0 || isAnalyzing || isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <ThemedText style={styles.buttonText}>
+                {isAnalyzing ? "解析中..." : `${selectedEntries.length}件を記録`}
+              </ThemedText>
+            )}
+          </Pressable>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.lg,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: Spacing.md,
+  },
+  button: {
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+  entry: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.md,
+    gap: Spacing.sm,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  checkmark: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "bold",
+    lineHeight: 18,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: BorderRadius.sm,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  dateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  dateButtonText: {
+    fontSize: 18,
+    fontWeight: "600",
+    lineHeight: 24,
+  },
+  dateText: {
+    fontSize: 15,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  meta: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  textInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+  },
+});
@@ -7,17 +7,25 @@ import {
   Alert,
   ScrollView,
   Platform,
+  Share,
+  ActivityIndicator,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
 import * as Haptics from "expo-haptics";
 
+import { DataExportCard } from "@/components/data-export-card";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { MEAL_TYPE_OPTIONS } from "@/constants/meals";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useAuth } from "@/hooks/use-auth";
 import { useNotifications } from "@/hooks/use-notifications";
+import { useToday } from "@/hooks/use-today";
+import { trpc } from "@/lib/trpc";
+import type { MealType } from "@/shared/const";
+import { getDeviceTimeZone } from "@/shared/dates";
 
 const REMINDER_TIMES = [
   { label: "11:00", value: "11:00" },
@@ -47,6 +55,27 @@ export default function SettingsScreen() {
   const [notificationsEnabled, setNotificationsEnabled] = useState(isEnabled);
   const [selectedTime, setSelectedTime] = useState(reminderTime);
 
+  const utils = trpc.useUtils();
+  const { data: mealSettings } = trpc.settings.getTrackedMealTypes.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const updateTrackedMealTypesMutation = trpc.settings.updateTrackedMealTypes.useMutation({
+    onSuccess: () => {
+      utils.settings.getTrackedMealTypes.invalidate();
+      utils.reports.getWeeklyReport.invalidate();
+    },
+  });
+  const trackedMealTypes = mealSettings?.trackedMealTypes ?? [];
+
+  const { timeZone } = useToday(isAuthenticated);
+  const deviceTimeZone = getDeviceTimeZone();
+  const updateTimeZoneMutation = trpc.settings.updateTimeZone.useMutation({
+    onSuccess: () => {
+      utils.settings.getTimeZone.invalidate();
+      utils.meals.getByDate.invalidate();
+    },
+  });
+
   useEffect(() => {
     setNotificationsEnabled(isEnabled);
     setSelectedTime(reminderTime);
@@ -96,6 +125,35 @@ export default function SettingsScreen() {
     Alert.alert("テスト通知を送信しました", "通知が届いたか確認してください。");
   };
 
+  const handleTrackedMealTypeToggle = async (mealType: MealType, value: boolean) => {
+    const next = value
+      ? [...trackedMealTypes, mealType]
+      : trackedMealTypes.filter((t) => t !== mealType);
+    if (next.length === 0) {
+      Alert.alert("設定エラー", "少なくとも1つの食事を選択してください。");
+      return;
+    }
+    try {
+      await updateTrackedMealTypesMutation.mutateAsync({ trackedMealTypes: next });
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      console.error("Failed to update tracked meal types:", error);
+      Alert.alert("エラー", "設定の保存に失敗しました");
+    }
+  };
+
+  const exportAccountMutation = trpc.account.exportAll.useMutation();
+
+  const handleDownloadAccountData = async () => {
+    try {
+      const archive = await exportAccountMutation.mutateAsync();
+      await Share.share({ title: archive.fileName, message: archive.content });
+    } catch (error) {
+      console.error("Account export failed:", error);
+      Alert.alert("エラー", "データのダウンロードに失敗しました");
+    }
+  };
+
   const handleLogout = () => {
     Alert.alert(
       "ログアウト",
@@ -183,6 +241,115 @@ export default function SettingsScreen() {
           </Pressable>
         </View>
 
+        {/* Tracked Meal Types */}
+        {isAuthenticated && (
+          <View style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>記録する食事</ThemedText>
+            <ThemedText style={[styles.sectionDescription, { color: colors.textSecondary }]}>
+              週間レポートの完了率は、選択した食事がすべて記録された日をもとに計算されます
+            </ThemedText>
+
+            {MEAL_TYPE_OPTIONS.map((option) => (
+              <View
+                key={option.key}
+                style={[styles.settingRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+              >
+                <View style={styles.settingInfo}>
+                  <ThemedText style={styles.settingLabel}>
+                    {option.emoji} {option.label}
+                  </ThemedText>
+                </View>
+                <Switch
+                  value={trackedMealTypes.includes(option.key)}
+                  onValueChange={(value) => handleTrackedMealTypeToggle(option.key, value)}
+                  trackColor={{ false: colors.border, true: colors.tint }}
+                  thumbColor="#fff"
+                />
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Time Zone */}
+        {isAuthenticated && (
+          <View style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>タイムゾーン</ThemedText>
+            <ThemedText style={[styles.sectionDescription, { color: colors.textSecondary }]}>
+              「今日」の記録や週間レポートの区切りは、このタイムゾーンの日付で決まります
+            </ThemedText>
+
+            <View style={[styles.settingRow, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>{timeZone}</ThemedText>
+                {timeZone !== deviceTimeZone && (
+                  <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                    この端末: {deviceTimeZone}
+                  </ThemedText>
+                )}
+              </View>
+              {timeZone !== deviceTimeZone && (
+                <Pressable
+                  onPress={() => updateTimeZoneMutation.mutate({ timezone: deviceTimeZone })}
+                  disabled={updateTimeZoneMutation.isPending}
+                >
+                  <ThemedText style={{ color: colors.tint }}>端末に合わせる</ThemedText>
+                </Pressable>
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Custom Categories */}
+        {isAuthenticated && (
+          <View style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>カテゴリ</ThemedText>
+            <Pressable
+              style={[styles.settingRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+              onPress={() => router.push("/custom-categories")}
+            >
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>マイカテゴリ</ThemedText>
+                <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                  韓国料理・弁当など、和食/洋食/中華以外のカテゴリを追加
+                </ThemedText>
+              </View>
+              <ThemedText style={{ color: colors.textSecondary }}>›</ThemedText>
+            </Pressable>
+          </View>
+        )}
+
+        {/* Trash */}
+        {isAuthenticated && (
+          <View style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>データ</ThemedText>
+            <Pressable
+              style={[styles.settingRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+              onPress={() => router.push("/trash")}
+            >
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>ゴミ箱</ThemedText>
+                <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                  削除した記録・お気に入りを元に戻す
+                </ThemedText>
+              </View>
+              <ThemedText style={{ color: colors.textSecondary }}>›</ThemedText>
+            </Pressable>
+            <Pressable
+              style={[styles.settingRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+              onPress={() => router.push("/import-meals")}
+            >
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>記録のインポート</ThemedText>
+                <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                  CSV・JSONから過去の食事をまとめて取り込む
+                </ThemedText>
+              </View>
+              <ThemedText style={{ color: colors.textSecondary }}>›</ThemedText>
+            </Pressable>
+            <DataExportCard />
+          </View>
+        )}
+
         {/* Account Section */}
         {isAuthenticated && (
           <View style={styles.section}>
@@ -195,12 +362,36 @@ export default function SettingsScreen() {
               </ThemedText>
             </View>
 
+            <Pressable
+              style={[styles.settingRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+              onPress={handleDownloadAccountData}
+              disabled={exportAccountMutation.isPending}
+            >
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>すべてのデータをダウンロード</ThemedText>
+                <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                  記録・写真・グループ・お気に入り・在庫・通知設定
+                </ThemedText>
+              </View>
+              {exportAccountMutation.isPending ? (
+                <ActivityIndicator color={colors.tint} />
+              ) : (
+                <ThemedText style={{ color: colors.textSecondary }}>›</ThemedText>
+              )}
+            </Pressable>
+
             <Pressable
               style={[styles.logoutButton, { backgroundColor: "rgba(255, 59, 48, 0.1)" }]}
               onPress={handleLogout}
             >
               <ThemedText style={styles.logoutButtonText}>ログアウト</ThemedText>
             </Pressable>
+
+            <Pressable style={styles.deleteAccountButton} onPress={() => router.push("/delete-account")}>
+              <ThemedText style={[styles.deleteAccountText, { color: colors.textSecondary }]}>
+                アカウントを削除
+              </ThemedText>
+            </Pressable>
           </View>
         )}
 
@@ -255,6 +446,10 @@ const styles = StyleSheet.create({
     fontSize: 18,
     lineHeight: 24,
   },
+  sectionDescription: {
+    fontSize: 13,
+    marginBottom: Spacing.md,
+  },
   settingRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -333,6 +528,14 @@ const styles = StyleSheet.create({
     color: "#FF3B30",
     fontWeight: "600",
   },
+  deleteAccountButton: {
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+  },
+  deleteAccountText: {
+    fontSize: 14,
+    textDecorationLine: "underline",
+  },
   infoCard: {
     borderRadius: BorderRadius.md,
     borderWidth: 1,
@@ -0,0 +1,248 @@
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { mealTypeEmojis, mealTypeLabels } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { trpc } from "@/lib/trpc";
+
+type TrashItemType = "meal" | "favorite" | "pantry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days left before the scheduled purge removes an item for good
+function daysUntilPurge(deletedAt: Date | string | null, retentionDays: number): number {
+  if (!deletedAt) return retentionDays;
+  const elapsed = Date.now() - new Date(deletedAt).getTime();
+  return Math.max(0, Math.ceil(retentionDays - elapsed / DAY_MS));
+}
+
+export default function TrashScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+
+  const { data: trash, isLoading } = trpc.trash.list.useQuery();
+
+  const utils = trpc.useUtils();
+  const restoreMutation = trpc.trash.restore.useMutation({
+    onSuccess: (_data, variables) => {
+      utils.trash.list.invalidate();
+      if (variables.type === "meal") {
+        utils.meals.getByDate.invalidate();
+        utils.meals.getRecent.invalidate();
+        utils.meals.list.invalidate();
+        utils.meals.getTags.invalidate();
+        utils.meals.getByDateRange.invalidate();
+        utils.reports.getWeeklyReport.invalidate();
+      } else if (variables.type === "favorite") {
+        utils.favorites.list.invalidate();
+      } else {
+        utils.pantry.list.invalidate();
+      }
+    },
+  });
+  const emptyMutation = trpc.trash.empty.useMutation({
+    onSuccess: () => utils.trash.list.invalidate(),
+  });
+
+  const handleRestore = async (type: TrashItemType, id: number) => {
+    try {
+      await restoreMutation.mutateAsync({ type, id });
+    } catch (error) {
+      console.error("Failed to restore item:", error);
+      Alert.alert("エラー", "元に戻せませんでした");
+    }
+  };
+
+  const handleEmpty = () => {
+    Alert.alert("ゴミ箱を空にする", "ゴミ箱の中身をすべて完全に削除します。この操作は取り消せません。", [
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "削除",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await emptyMutation.mutateAsync();
+          } catch (error) {
+            console.error("Failed to empty trash:", error);
+            Alert.alert("エラー", "削除に失敗しました");
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading || !trash) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </ThemedView>
+    );
+  }
+
+  const isEmpty = trash.meals.length + trash.favorites.length + trash.pantryItems.length === 0;
+
+  const renderRow = (
+    type: TrashItemType,
+    id: number,
+    title: string,
+    subtitle: string,
+    deletedAt: Date | string | null
+  ) => (
+    <View
+      key={`${type}-${id}`}
+      style={[styles.row, { backgroundColor: colors.card, borderColor: colors.border }]}
+    >
+      <View style={styles.rowInfo}>
+        <ThemedText style={styles.rowTitle}>{title}</ThemedText>
+        <ThemedText style={[styles.rowSubtitle, { color: colors.textSecondary }]}>
+          {subtitle}・あと{daysUntilPurge(deletedAt, trash.retentionDays)}日で完全に削除
+        </ThemedText>
+      </View>
+      <Pressable onPress={() => handleRestore(type, id)} disabled={restoreMutation.isPending}>
+        <ThemedText style={{ color: colors.tint }}>元に戻す</ThemedText>
+      </Pressable>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xl }]}>
+        <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+          削除した記録は{trash.retentionDays}日間ゴミ箱に保管され、その後自動的に完全に削除されます。
+        </ThemedText>
+
+        {isEmpty ? (
+          <ThemedText style={[styles.emptyText, { color: colors.textSecondary }]}>
+            ゴミ箱は空です
+          </ThemedText>
+        ) : (
+          <>
+            {trash.meals.length > 0 && (
+              <>
+                <ThemedText type="subtitle" style={styles.sectionTitle}>
+                  食事の記録
+                </ThemedText>
+                {trash.meals.map((meal) =>
+                  renderRow(
+                    "meal",
+                    meal.id,
+                    `${mealTypeEmojis[meal.mealType]} ${meal.dishName}`,
+                    `${meal.date} ${mealTypeLabels[meal.mealType]}`,
+                    meal.deletedAt
+                  )
+                )}
+              </>
+            )}
+
+            {trash.favorites.length > 0 && (
+              <>
+                <ThemedText type="subtitle" style={styles.sectionTitle}>
+                  お気に入り
+                </ThemedText>
+                {trash.favorites.map((favorite) =>
+                  renderRow("favorite", favorite.id, `⭐ ${favorite.dishName}`, "お気に入り", favorite.deletedAt)
+                )}
+              </>
+            )}
+
+            {trash.pantryItems.length > 0 && (
+              <>
+                <ThemedText type="subtitle" style={styles.sectionTitle}>
+                  食材在庫
+                </ThemedText>
+                {trash.pantryItems.map((item) =>
+                  renderRow(
+                    "pantry",
+                    item.id,
+                    item.ingredientName,
+                    [item.quantity, item.unit].filter(Boolean).join("") || "食材",
+                    item.deletedAt
+                  )
+                )}
+              </>
+            )}
+
+            <Pressable
+              style={[styles.emptyButton, { borderColor: colors.error }]}
+              onPress={handleEmpty}
+              disabled={emptyMutation.isPending}
+            >
+              {emptyMutation.isPending ? (
+                <ActivityIndicator color={colors.error} />
+              ) : (
+                <ThemedText style={[styles.emptyButtonText, { color: colors.error }]}>
+                  ゴミ箱を空にする
+                </ThemedText>
+              )}
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: Spacing.sm,
+  },
+  sectionTitle: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: Spacing.lg,
+    textAlign: "center",
+  },
+  emptyButton: {
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    alignItems: "center",
+    marginTop: Spacing.lg,
+  },
+  emptyButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { ActivityIndicator, Alert, Pressable, StyleSheet, TextInput, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { COST_TYPE_OPTIONS, formatYen, MEAL_TYPE_OPTIONS } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useToday } from "@/hooks/use-today";
+import { trpc } from "@/lib/trpc";
+
+const categoryLabels: Record<string, string> = {
+  japanese: "和食",
+  western: "洋食",
+  chinese: "中華",
+  other: "その他",
+};
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const date = new Date(year, monthIndex - 1 + delta, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * 月の食費と予算（個人またはグループ）
+ * グループの予算はオーナーのみ変更できる
+ */
+export function BudgetSection() {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  // Kept relative to this month so it follows the account timezone once loaded
+  const { today } = useToday(true);
+  const [monthOffset, setMonthOffset] = useState(0);
+  const month = shiftMonth(today.slice(0, 7), monthOffset);
+  const [groupId, setGroupId] = useState<number | undefined>(undefined);
+  const [editing, setEditing] = useState(false);
+  const [budgetText, setBudgetText] = useState("");
+
+  const { data: myGroups } = trpc.groups.myGroups.useQuery();
+  const { data: report, isLoading } = trpc.reports.getBudgetReport.useQuery({ month, groupId });
+
+  const utils = trpc.useUtils();
+  const onBudgetSaved = () => {
+    utils.reports.getBudgetReport.invalidate();
+    utils.settings.getMonthlyBudget.invalidate();
+    utils.groups.myGroups.invalidate();
+    setEditing(false);
+  };
+  const updateMyBudget = trpc.settings.updateMonthlyBudget.useMutation({ onSuccess: onBudgetSaved });
+  const updateGroupBudget = trpc.groups.updateBudget.useMutation({ onSuccess: onBudgetSaved });
+
+  const selectedGroup = myGroups?.find((g) => g.id === groupId);
+  const canEditBudget = groupId === undefined || selectedGroup?.memberRole === "owner";
+
+  const handleSaveBudget = async () => {
+    const value = budgetText.trim() ? parseInt(budgetText, 10) : null;
+    try {
+      if (groupId === undefined) {
+        await updateMyBudget.mutateAsync({ monthlyFoodBudget: value });
+      } else {
+        await updateGroupBudget.mutateAsync({ groupId, monthlyFoodBudget: value });
+      }
+    } catch (error) {
+      console.error("Failed to update budget:", error);
+      Alert.alert("エラー", "予算の保存に失敗しました");
+    }
+  };
+
+  const [year, monthNumber] = month.split("-").map(Number);
+  const usageRate = report?.usageRate ?? 0;
+  const overBudget = report?.remaining != null && report.remaining < 0;
+  const spendDays = report?.daily.filter((day) => day.total > 0) ?? [];
+  const maxDaily = Math.max(1, ...spendDays.map((day) => day.total));
+
+  return (
+    <ThemedView style={styles.section}>
+      <ThemedText style={styles.sectionTitle}>食費と予算</ThemedText>
+
+      {/* Scope: personal or one of the user's groups */}
+      {myGroups && myGroups.length > 0 && (
+        <View style={styles.chipRow}>
+          {[{ id: undefined, name: "自分" }, ...myGroups].map((scope) => {
+            const active = groupId === scope.id;
+            return (
+              <Pressable
+                key={scope.id ?? "me"}
+                style={[
+                  styles.chip,
+                  { borderColor: active ? colors.tint : colors.border },
+                  active && { backgroundColor: colors.tint },
+                ]}
+                onPress={() => {
+                  setGroupId(scope.id);
+                  setEditing(false);
+                }}
+              >
+                <ThemedText style={[styles.chipText, active && styles.chipTextActive]}>{scope.name}</ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
+      <View style={styles.monthNav}>
+        <Pressable onPress={() => setMonthOffset((offset) => offset - 1)} hitSlop={8}>
+          <ThemedText style={[styles.monthArrow, { color: colors.tint }]}>‹</ThemedText>
+        </Pressable>
+        <ThemedText style={styles.monthLabel}>
+          {year}年{monthNumber}月
+        </ThemedText>
+        <Pressable onPress={() => setMonthOffset((offset) => offset + 1)} hitSlop={8}>
+          <ThemedText style={[styles.monthArrow, { color: colors.tint }]}>›</ThemedText>
+        </Pressable>
+      </View>
+
+      {isLoading || !report ? (
+        <ActivityIndicator size="small" color={colors.tint} />
+      ) : (
+        <>
+          <View style={styles.totalRow}>
+            <ThemedText style={styles.totalValue}>{formatYen(report.totalSpend)}</ThemedText>
+            <ThemedText style={[styles.note, { color: colors.textSecondary }]}>
+              {report.budget !== null ? ` / 予算 ${formatYen(report.budget)}` : " / 予算未設定"}
+            </ThemedText>
+          </View>
+
+          {report.budget !== null && (
+            <>
+              <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    {
+                      width: `${Math.min(100, usageRate)}%`,
+                      backgroundColor: overBudget ? colors.error : colors.tint,
+                    },
+                  ]}
+                />
+              </View>
+              <ThemedText style={[styles.note, { color: overBudget ? colors.error : colors.textSecondary }]}>
+                {overBudget
+                  ? `予算を ${formatYen(-(report.remaining ?? 0))} 超えています（${usageRate}%）`
+                  : `残り ${formatYen(report.remaining ?? 0)}（${usageRate}%使用）`}
+              </ThemedText>
+            </>
+          )}
+
+          {/* Budget editing */}
+          {canEditBudget &&
+            (editing ? (
+              <View style={styles.editRow}>
+                <TextInput
+                  style={[
+                    styles.budgetInput,
+                    { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+                  ]}
+                  placeholder="月の予算（円、空欄で解除）"
+                  placeholderTextColor={colors.textDisabled}
+                  keyboardType="number-pad"
+                  value={budgetText}
+                  onChangeText={(text) => setBudgetText(text.replace(/[^0-9]/g, ""))}
+                  maxLength={8}
+                />
+                <Pressable
+                  style={[styles.saveButton, { backgroundColor: colors.tint }]}
+                  onPress={handleSaveBudget}
+                  disabled={updateMyBudget.isPending || updateGroupBudget.isPending}
+                >
+                  <ThemedText style={styles.saveButtonText}>保存</ThemedText>
+                </Pressable>
+              </View>
+            ) : (
+              <Pressable
+                onPress={() => {
+                  setBudgetText(report.budget !== null ? String(report.budget) : "");
+                  setEditing(true);
+                }}
+              >
+                <ThemedText style={[styles.link, { color: colors.tint }]}>
+                  {report.budget !== null ? "予算を変更" : "予算を設定"}
+                </ThemedText>
+              </Pressable>
+            ))}
+
+          {report.pricedMeals === 0 ? (
+            <ThemedText style={[styles.note, { color: colors.textSecondary }]}>
+              この月は金額の記録がありません
+            </ThemedText>
+          ) : (
+            <>
+              <ThemedText style={styles.subTitle}>自炊・外食</ThemedText>
+              {COST_TYPE_OPTIONS.map((option) => (
+                <View key={option.key} style={styles.spendRow}>
+                  <ThemedText style={styles.spendLabel}>
+                    {option.emoji} {option.label}
+                  </ThemedText>
+                  <ThemedText style={styles.spendValue}>{formatYen(report.byCostType[option.key])}</ThemedText>
+                </View>
+              ))}
+
+              <ThemedText style={styles.subTitle}>カテゴリ別</ThemedText>
+              {Object.entries(report.byCategory)
+                .filter(([, amount]) => amount > 0)
+                .map(([category, amount]) => (
+                  <View key={category} style={styles.spendRow}>
+                    <ThemedText style={styles.spendLabel}>{categoryLabels[category]}</ThemedText>
+                    <ThemedText style={styles.spendValue}>{formatYen(amount)}</ThemedText>
+                  </View>
+                ))}
+
+              <ThemedText style={styles.subTitle}>食事タイプ別</ThemedText>
+              {MEAL_TYPE_OPTIONS.filter((option) => report.byMealType[option.key] > 0).map((option) => (
+                <View key={option.key} style={styles.spendRow}>
+                  <ThemedText style={styles.spendLabel}>
+                    {option.emoji} {option.label}
+                  </ThemedText>
+                  <ThemedText style={styles.spendValue}>{formatYen(report.byMealType[option.key])}</ThemedText>
+                </View>
+              ))}
+
+              <ThemedText style={styles.subTitle}>日別</ThemedText>
+              {spendDays.map((day) => (
+                <View key={day.date} style={styles.dayRow}>
+                  <ThemedText style={styles.dayLabel}>{day.date.slice(5).replace("-", "/")}</ThemedText>
+                  <View style={styles.dayBarTrack}>
+                    <View
+                      style={[
+                        styles.dayBar,
+                        { width: `${(day.total / maxDaily) * 100}%`, backgroundColor: colors.tint },
+                      ]}
+                    />
+                  </View>
+                  <ThemedText style={styles.dayValue}>{formatYen(day.total)}</ThemedText>
+                </View>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    margin: 16,
+    padding: 16,
+    borderRadius: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  monthNav: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  monthArrow: {
+    fontSize: 24,
+    lineHeight: 30,
+  },
+  monthLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  totalRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    justifyContent: "center",
+    marginBottom: Spacing.sm,
+  },
+  totalValue: {
+    fontSize: 28,
+    fontWeight: "bold",
+    lineHeight: 34,
+  },
+  note: {
+    fontSize: 12,
+    textAlign: "center",
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+    marginBottom: Spacing.xs,
+  },
+  progressFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  editRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  budgetInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+  },
+  saveButton: {
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    justifyContent: "center",
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  link: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: Spacing.sm,
+  },
+  subTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  spendRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  spendLabel: {
+    fontSize: 15,
+  },
+  spendValue: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  dayRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: 2,
+  },
+  dayLabel: {
+    width: 44,
+    fontSize: 13,
+  },
+  dayBarTrack: {
+    flex: 1,
+    height: 8,
+  },
+  dayBar: {
+    height: 8,
+    borderRadius: 4,
+  },
+  dayValue: {
+    width: 72,
+    fontSize: 13,
+    textAlign: "right",
+  },
+});
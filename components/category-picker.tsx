@@ -0,0 +1,120 @@
+import { Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+const categories: { key: Category; label: string; emoji: string }[] = [
+  { key: "japanese", label: "和食", emoji: "🍱" },
+  { key: "western", label: "洋食", emoji: "🍝" },
+  { key: "chinese", label: "中華", emoji: "🥟" },
+  { key: "other", label: "その他", emoji: "🍽️" },
+];
+
+export type CustomCategoryOption = {
+  id: number;
+  name: string;
+  color: string;
+  icon: string;
+};
+
+export type CategorySelection = {
+  category: Category;
+  customCategoryId: number | null;
+};
+
+type CategoryPickerProps = {
+  value: CategorySelection;
+  onChange: (value: CategorySelection) => void;
+  customCategories?: CustomCategoryOption[];
+};
+
+/**
+ * 標準カテゴリ（和食・洋食・中華・その他）とユーザー定義カテゴリの選択
+ * ユーザー定義カテゴリを選ぶと標準カテゴリは「その他」として保存する
+ */
+export function CategoryPicker({ value, onChange, customCategories = [] }: CategoryPickerProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  const renderButton = (
+    key: string,
+    label: string,
+    emoji: string,
+    color: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={key}
+      style={[
+        styles.categoryButton,
+        {
+          backgroundColor: selected ? color : colors.card,
+          borderColor: selected ? color : colors.border,
+        },
+      ]}
+      onPress={onPress}
+    >
+      <ThemedText style={styles.categoryEmoji}>{emoji}</ThemedText>
+      <ThemedText style={[styles.categoryLabel, { color: selected ? "#FFFFFF" : colors.text }]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.categoryGrid}>
+      {categories.map((cat) =>
+        renderButton(
+          cat.key,
+          cat.label,
+          cat.emoji,
+          colors[cat.key] || colors.tint,
+          value.customCategoryId === null && value.category === cat.key,
+          () => onChange({ category: cat.key, customCategoryId: null })
+        )
+      )}
+      {customCategories.map((custom) =>
+        renderButton(
+          `custom-${custom.id}`,
+          custom.name,
+          custom.icon,
+          custom.color,
+          value.customCategoryId === custom.id,
+          () => onChange({ category: "other", customCategoryId: custom.id })
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  categoryGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  categoryButton: {
+    flex: 1,
+    minWidth: "45%",
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 2,
+    gap: Spacing.sm,
+  },
+  categoryEmoji: {
+    fontSize: 20,
+  },
+  categoryLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+});
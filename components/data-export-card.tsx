@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { ActivityIndicator, Alert, Pressable, Share, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useToday } from "@/hooks/use-today";
+import { trpc } from "@/lib/trpc";
+
+type ExportFormat = "csv" | "json" | "ics";
+
+const FORMAT_OPTIONS: { key: ExportFormat; label: string }[] = [
+  { key: "csv", label: "CSV" },
+  { key: "json", label: "JSON" },
+  { key: "ics", label: "カレンダー" },
+];
+
+// Months to go back from today (null = everything)
+const RANGE_OPTIONS: { label: string; months: number | null }[] = [
+  { label: "1ヶ月", months: 1 },
+  { label: "3ヶ月", months: 3 },
+  { label: "1年", months: 12 },
+  { label: "すべて", months: null },
+];
+
+function getDateRange(months: number | null, today: string): { startDate: string; endDate: string } {
+  if (months === null) return { startDate: "2000-01-01", endDate: today };
+  const [year, month, day] = today.split("-").map(Number);
+  const start = new Date(Date.UTC(year, month - 1 - months, day + 1));
+  return { startDate: start.toISOString().slice(0, 10), endDate: today };
+}
+
+/**
+ * 食事記録・お気に入り・在庫の書き出し（共有シートで送る）
+ * 期間は食事記録にのみ適用される
+ */
+export function DataExportCard() {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  const { today } = useToday(true);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [rangeIndex, setRangeIndex] = useState(0);
+
+  const exportMutation = trpc.dataExport.create.useMutation();
+
+  const handleExport = async () => {
+    try {
+      const result = await exportMutation.mutateAsync({
+        format,
+        ...getDateRange(RANGE_OPTIONS[rangeIndex].months, today),
+      });
+      // CSV is one file per table; each opens its own share sheet
+      for (const file of result.files) {
+        await Share.share({ title: file.fileName, message: file.content });
+      }
+    } catch (error) {
+      console.error("Export failed:", error);
+      Alert.alert("エラー", "データの書き出しに失敗しました");
+    }
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      <ThemedText style={styles.label}>データの書き出し</ThemedText>
+      <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+        食事記録（期間内）・お気に入り・在庫をCSVやJSONで、食事記録をカレンダー形式で共有
+      </ThemedText>
+
+      <View style={styles.chipRow}>
+        {RANGE_OPTIONS.map((option, index) => {
+          const selected = index === rangeIndex;
+          return (
+            <Pressable
+              key={option.label}
+              style={[
+                styles.chip,
+                { borderColor: selected ? colors.tint : colors.border },
+                selected && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => setRangeIndex(index)}
+            >
+              <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={styles.chipRow}>
+        {FORMAT_OPTIONS.map((option) => {
+          const selected = option.key === format;
+          return (
+            <Pressable
+              key={option.key}
+              style={[
+                styles.chip,
+                { borderColor: selected ? colors.tint : colors.border },
+                selected && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => setFormat(option.key)}
+            >
+              <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <Pressable
+        style={[styles.button, { backgroundColor: colors.tint }]}
+        onPress={handleExport}
+        disabled={exportMutation.isPending}
+      >
+        {exportMutation.isPending ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <ThemedText style={styles.buttonText}>書き出して共有</ThemedText>
+        )}
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "500",
+    lineHeight: 22,
+  },
+  description: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: 2,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  button: {
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+});
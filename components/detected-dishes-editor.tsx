@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { Image, Pressable, StyleSheet, View } from "react-native";
+
+import type { MealItemDraft } from "@/components/meal-items-editor";
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+  FULL_IMAGE_BOX,
+  moveBoundingBox,
+  resizeBoundingBox,
+  type BoundingBox,
+} from "@/shared/bounding-box";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+export type DetectedDishDraft = {
+  dishName: string;
+  category: Category;
+  portion?: string;
+  confidence: number;
+  boundingBox: BoundingBox | null;
+  selected: boolean;
+};
+
+type ImageSize = { width: number; height: number };
+
+/**
+ * Meal item saved for a dish detected in the photo
+ */
+export function toMealItem(dish: Omit<DetectedDishDraft, "selected">): MealItemDraft {
+  return {
+    dishName: dish.dishName,
+    category: dish.category,
+    portion: dish.portion,
+    confidence: dish.confidence,
+    boundingBox: dish.boundingBox,
+  };
+}
+
+const categoryLabels: Record<Category, string> = {
+  japanese: "和食",
+  western: "洋食",
+  chinese: "中華",
+  other: "その他",
+};
+
+const THUMBNAIL_SIZE = 56;
+const MOVE_STEP = 0.05;
+const RESIZE_STEP = 0.1;
+
+/**
+ * 写真の上に検出した料理の枠を重ねる（親は写真と同じ縦横比であること）
+ */
+export function DishBoxesOverlay({ dishes }: { dishes: DetectedDishDraft[] }) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      {dishes.map((dish, index) =>
+        dish.boundingBox ? (
+          <View
+            key={index}
+            style={[
+              styles.box,
+              {
+                left: `${dish.boundingBox.x * 100}%`,
+                top: `${dish.boundingBox.y * 100}%`,
+                width: `${dish.boundingBox.width * 100}%`,
+                height: `${dish.boundingBox.height * 100}%`,
+                borderColor: dish.selected ? colors.tint : "rgba(255,255,255,0.6)",
+                borderStyle: dish.selected ? "solid" : "dashed",
+              },
+            ]}
+          >
+            <ThemedText
+              style={[styles.boxLabel, { backgroundColor: dish.selected ? colors.tint : "rgba(0,0,0,0.5)" }]}
+              numberOfLines={1}
+            >
+              {index + 1}
+            </ThemedText>
+          </View>
+        ) : null
+      )}
+    </View>
+  );
+}
+
+/**
+ * 写真のうち box の範囲だけを正方形のサムネイルに表示する
+ */
+function CroppedThumbnail({ imageUri, imageSize, box }: { imageUri: string; imageSize: ImageSize; box: BoundingBox }) {
+  const cropWidth = box.width * imageSize.width;
+  const cropHeight = box.height * imageSize.height;
+  const scale = THUMBNAIL_SIZE / Math.max(cropWidth, cropHeight);
+
+  return (
+    <View style={styles.thumbnail}>
+      <Image
+        source={{ uri: imageUri }}
+        style={{
+          position: "absolute",
+          width: imageSize.width * scale,
+          height: imageSize.height * scale,
+          left: -box.x * imageSize.width * scale + (THUMBNAIL_SIZE - cropWidth * scale) / 2,
+          top: -box.y * imageSize.height * scale + (THUMBNAIL_SIZE - cropHeight * scale) / 2,
+        }}
+      />
+    </View>
+  );
+}
+
+type DetectedDishesEditorProps = {
+  imageUri: string;
+  imageSize: ImageSize | null;
+  dishes: DetectedDishDraft[];
+  onChange: (dishes: DetectedDishDraft[]) => void;
+};
+
+/**
+ * 写真から検出した料理の一覧。チェックで保存する料理を選び、✂️で写真上の範囲を調整する
+ */
+export function DetectedDishesEditor({ imageUri, imageSize, dishes, onChange }: DetectedDishesEditorProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const [croppingIndex, setCroppingIndex] = useState<number | null>(null);
+
+  const updateDish = (index: number, changes: Partial<DetectedDishDraft>) => {
+    onChange(dishes.map((dish, i) => (i === index ? { ...dish, ...changes } : dish)));
+  };
+
+  const updateBox = (index: number, change: (box: BoundingBox) => BoundingBox) => {
+    updateDish(index, { boundingBox: change(dishes[index].boundingBox ?? FULL_IMAGE_BOX) });
+  };
+
+  const renderCropButton = (label: string, onPress: () => void) => (
+    <Pressable key={label} style={[styles.cropButton, { borderColor: colors.border }]} onPress={onPress}>
+      <ThemedText style={styles.cropButtonText}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.card }]}>
+      <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>
+        写真から{dishes.length}品を見つけました。記録する料理にチェックを入れてください
+      </ThemedText>
+
+      {dishes.map((dish, index) => (
+        <View key={index} style={[styles.row, { borderColor: colors.border }]}>
+          <View style={styles.rowMain}>
+            <Pressable
+              style={[
+                styles.checkbox,
+                { borderColor: dish.selected ? colors.tint : colors.border },
+                dish.selected && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => updateDish(index, { selected: !dish.selected })}
+              hitSlop={6}
+            >
+              {dish.selected && <ThemedText style={styles.checkmark}>✓</ThemedText>}
+            </Pressable>
+
+            {imageSize && (
+              <CroppedThumbnail imageUri={imageUri} imageSize={imageSize} box={dish.boundingBox ?? FULL_IMAGE_BOX} />
+            )}
+
+            <View style={styles.info}>
+              <ThemedText
+                style={[styles.dishName, !dish.selected && { color: colors.textDisabled }]}
+                numberOfLines={1}
+              >
+                {index + 1}. {dish.dishName}
+              </ThemedText>
+              <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+                {categoryLabels[dish.category]}
+                {dish.portion ? `・${dish.portion}` : ""}・確信度 {Math.round(dish.confidence * 100)}%
+              </ThemedText>
+            </View>
+
+            <Pressable onPress={() => setCroppingIndex(croppingIndex === index ? null : index)} hitSlop={6}>
+              <ThemedText style={[styles.cropToggle, croppingIndex === index && { color: colors.tint }]}>✂️</ThemedText>
+            </Pressable>
+          </View>
+
+          {croppingIndex === index && (
+            <View style={styles.cropControls}>
+              {renderCropButton("←", () => updateBox(index, (box) => moveBoundingBox(box, -MOVE_STEP, 0)))}
+              {renderCropButton("→", () => updateBox(index, (box) => moveBoundingBox(box, MOVE_STEP, 0)))}
+              {renderCropButton("↑", () => updateBox(index, (box) => moveBoundingBox(box, 0, -MOVE_STEP)))}
+              {renderCropButton("↓", () => updateBox(index, (box) => moveBoundingBox(box, 0, MOVE_STEP)))}
+              {renderCropButton("縮小", () => updateBox(index, (box) => resizeBoundingBox(box, -RESIZE_STEP)))}
+              {renderCropButton("拡大", () => updateBox(index, (box) => resizeBoundingBox(box, RESIZE_STEP)))}
+              {renderCropButton("写真全体", () => updateDish(index, { boundingBox: FULL_IMAGE_BOX }))}
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    position: "absolute",
+    borderWidth: 2,
+    borderRadius: BorderRadius.sm,
+  },
+  boxLabel: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    paddingHorizontal: 4,
+    color: "#FFFFFF",
+    fontSize: 11,
+    fontWeight: "600",
+    lineHeight: 14,
+  },
+  container: {
+    marginTop: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: Spacing.xs,
+  },
+  row: {
+    paddingVertical: Spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  rowMain: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  checkmark: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "bold",
+    lineHeight: 18,
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: BorderRadius.sm,
+    overflow: "hidden",
+    backgroundColor: "#000",
+  },
+  info: {
+    flex: 1,
+  },
+  dishName: {
+    fontSize: 15,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  meta: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  cropToggle: {
+    fontSize: 20,
+    lineHeight: 26,
+  },
+  cropControls: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  cropButton: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  cropButtonText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
@@ -0,0 +1,105 @@
+import { Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+export type DishCandidate = {
+  dishName: string;
+  category: Category;
+  confidence: number;
+};
+
+const categoryLabels: Record<Category, string> = {
+  japanese: "和食",
+  western: "洋食",
+  chinese: "中華",
+  other: "その他",
+};
+
+type DishCandidateChipsProps = {
+  candidates: DishCandidate[];
+  selectedName: string;
+  onSelect: (candidate: DishCandidate) => void;
+  lowConfidence: boolean;
+};
+
+/**
+ * 写真解析で挙がった料理名の候補。自信が低いときは選ぶか手入力するよう促す
+ */
+export function DishCandidateChips({ candidates, selectedName, onSelect, lowConfidence }: DishCandidateChipsProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  return (
+    <View style={styles.container}>
+      {lowConfidence && (
+        <ThemedText style={[styles.warning, { color: colors.warning }]}>
+          ⚠️ AIの判定に自信がありません。候補から選ぶか、料理名を入力してください
+        </ThemedText>
+      )}
+      <View style={styles.row}>
+        {candidates.map((candidate) => {
+          const selected = candidate.dishName === selectedName;
+          return (
+            <Pressable
+              key={candidate.dishName}
+              style={[
+                styles.chip,
+                { borderColor: selected ? colors.tint : colors.border },
+                selected && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => onSelect(candidate)}
+            >
+              <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {candidate.dishName}
+              </ThemedText>
+              <ThemedText
+                style={[styles.chipMeta, { color: selected ? "#FFFFFF" : colors.textSecondary }]}
+              >
+                {categoryLabels[candidate.category]}・{Math.round(candidate.confidence * 100)}%
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.sm,
+  },
+  warning: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: Spacing.sm,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    alignItems: "center",
+  },
+  chipText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  chipMeta: {
+    fontSize: 11,
+    lineHeight: 14,
+  },
+});
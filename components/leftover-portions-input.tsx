@@ -0,0 +1,77 @@
+import { Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+
+const PORTION_OPTIONS = [null, 1, 2, 3, 4] as const;
+
+type LeftoverPortionsInputProps = {
+  value: number | null;
+  onChange: (value: number | null) => void;
+};
+
+/**
+ * 夕食の残り物（翌日以降のお弁当などに回す食数）の入力
+ */
+export function LeftoverPortionsInput({ value, onChange }: LeftoverPortionsInputProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  return (
+    <View>
+      <View style={styles.row}>
+        {PORTION_OPTIONS.map((option) => {
+          const selected = value === option;
+          return (
+            <Pressable
+              key={String(option)}
+              style={[
+                styles.chip,
+                { borderColor: selected ? colors.tint : colors.border },
+                selected && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => onChange(option)}
+            >
+              <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {option === null ? "なし" : `${option}食分`}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+      {value !== null && (
+        <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>
+          食材在庫に追加され、翌日のランチで「残り物で記録」を提案します
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: Spacing.xs,
+  },
+});
@@ -0,0 +1,116 @@
+import { Alert, Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { trpc } from "@/lib/trpc";
+
+type LeftoverSuggestionsCardProps = {
+  date: string;
+  onRecorded?: () => void;
+};
+
+/**
+ * 最近の夕食の残り物をランチとしてワンタップで記録する
+ * 残り物がなければ何も表示しない
+ */
+export function LeftoverSuggestionsCard({ date, onRecorded }: LeftoverSuggestionsCardProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  const utils = trpc.useUtils();
+  const { data: suggestions } = trpc.leftovers.getSuggestions.useQuery({ date });
+  const recordMutation = trpc.leftovers.recordLunch.useMutation({
+    onSuccess: () => {
+      utils.leftovers.getSuggestions.invalidate();
+      utils.meals.getByDate.invalidate();
+      utils.meals.getTodayLunch.invalidate();
+      utils.meals.getRecent.invalidate();
+      utils.meals.list.invalidate();
+      utils.pantry.list.invalidate();
+    },
+  });
+
+  if (!suggestions || suggestions.length === 0) return null;
+
+  const handleRecord = async (mealId: number) => {
+    try {
+      await recordMutation.mutateAsync({ mealId, date });
+      onRecorded?.();
+    } catch (error) {
+      console.error("Failed to record leftovers:", error);
+      Alert.alert("エラー", "記録に失敗しました");
+    }
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card }]}>
+      <ThemedText type="subtitle" style={styles.title}>
+        🥡 残り物でランチ
+      </ThemedText>
+      {suggestions.map((item) => (
+        <View key={item.mealId} style={[styles.row, { borderColor: colors.border }]}>
+          <View style={styles.info}>
+            <ThemedText style={styles.dishName}>{item.dishName}</ThemedText>
+            <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+              {new Date(item.date + "T00:00:00").toLocaleDateString("ja-JP", { month: "numeric", day: "numeric" })}
+              の夕食・残り{item.remainingPortions}食分
+            </ThemedText>
+          </View>
+          <Pressable
+            style={[styles.recordButton, { backgroundColor: colors.tint }]}
+            onPress={() => handleRecord(item.mealId)}
+            disabled={recordMutation.isPending}
+          >
+            <ThemedText style={styles.recordButtonText}>ランチに記録</ThemedText>
+          </Pressable>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.md,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  title: {
+    marginBottom: Spacing.sm,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  info: {
+    flex: 1,
+  },
+  dishName: {
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+  meta: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  recordButton: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  recordButtonText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+    lineHeight: 18,
+  },
+});
@@ -0,0 +1,195 @@
+import { Image, Pressable, StyleSheet, View } from "react-native";
+
+import { formatRating } from "@/components/rating-input";
+import { ThemedText } from "@/components/themed-text";
+import {
+  costTypeLabels,
+  formatYen,
+  mealSourceEmojis,
+  mealSourceLabels,
+  mealTypeEmojis,
+  mealTypeLabels,
+} from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { trpc } from "@/lib/trpc";
+
+const categoryLabels: Record<string, string> = {
+  japanese: "和食",
+  western: "洋食",
+  chinese: "中華",
+  other: "その他",
+};
+
+// Shape shared by server records and guest LocalMealRecord
+export type MealCardData = {
+  id: number | string;
+  date: string;
+  mealType: string;
+  dishName: string;
+  category: string;
+  note?: string | null;
+  items?: { dishName: string }[];
+  customCategoryId?: number | null;
+  tags?: string[] | null;
+  rating?: number | null;
+  wouldEatAgain?: boolean | null;
+  price?: number | null;
+  costType?: string | null;
+  source?: string | null;
+  venueName?: string | null;
+  thumbnailUrl?: string | null;
+};
+
+type MealCardProps = {
+  meal: MealCardData;
+  onPress?: () => void;
+  showDate?: boolean;
+};
+
+export function MealCard({ meal, onPress, showDate = false }: MealCardProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  // Only fetched (and shared via the query cache) when the meal uses a custom category
+  const { data: customCategories } = trpc.categories.list.useQuery(undefined, {
+    enabled: meal.customCategoryId != null,
+  });
+  const customCategory = customCategories?.find((c) => c.id === meal.customCategoryId);
+  const ratingLabel = formatRating(meal.rating, meal.wouldEatAgain);
+
+  return (
+    <Pressable style={[styles.mealCard, { backgroundColor: colors.card }]} onPress={onPress}>
+      <View style={styles.mealHeader}>
+        {meal.thumbnailUrl ? (
+          <Image source={{ uri: meal.thumbnailUrl }} style={styles.thumbnail} />
+        ) : (
+          <ThemedText style={styles.mealEmoji}>{mealTypeEmojis[meal.mealType]}</ThemedText>
+        )}
+        <View style={styles.mealInfo}>
+          <ThemedText style={[styles.mealType, { color: colors.textSecondary }]}>
+            {showDate ? `${meal.date} ` : ""}
+            {mealTypeLabels[meal.mealType]}
+          </ThemedText>
+          <ThemedText style={styles.mealName}>{meal.dishName}</ThemedText>
+          {meal.items && meal.items.length > 1 && (
+            <ThemedText style={[styles.mealItems, { color: colors.textSecondary }]}>
+              {meal.items.map((item) => item.dishName).join("・")}
+            </ThemedText>
+          )}
+          {ratingLabel && <ThemedText style={styles.rating}>{ratingLabel}</ThemedText>}
+          {meal.source && (
+            <ThemedText style={[styles.mealItems, { color: colors.textSecondary }]}>
+              {mealSourceEmojis[meal.source]} {meal.venueName || mealSourceLabels[meal.source]}
+            </ThemedText>
+          )}
+          {meal.price != null && (
+            <ThemedText style={[styles.mealItems, { color: colors.textSecondary }]}>
+              {formatYen(meal.price)}
+              {meal.costType ? `（${costTypeLabels[meal.costType]}）` : ""}
+            </ThemedText>
+          )}
+        </View>
+        <View
+          style={[
+            styles.categoryBadge,
+            {
+              backgroundColor:
+                customCategory?.color ?? (colors[meal.category as keyof typeof colors] || colors.tint),
+            },
+          ]}
+        >
+          <ThemedText style={styles.categoryText}>
+            {customCategory ? `${customCategory.icon} ${customCategory.name}` : categoryLabels[meal.category]}
+          </ThemedText>
+        </View>
+      </View>
+      {meal.tags && meal.tags.length > 0 && (
+        <View style={styles.tagRow}>
+          {meal.tags.map((tag) => (
+            <ThemedText key={tag} style={[styles.tag, { color: colors.tint }]}>
+              #{tag}
+            </ThemedText>
+          ))}
+        </View>
+      )}
+      {meal.note && (
+        <ThemedText style={[styles.mealNote, { color: colors.textSecondary }]}>{meal.note}</ThemedText>
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  mealCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.sm,
+  },
+  mealHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  mealEmoji: {
+    fontSize: 32,
+    marginRight: Spacing.md,
+  },
+  // Same width as the emoji so tags and notes stay aligned
+  thumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    marginRight: Spacing.sm,
+  },
+  mealInfo: {
+    flex: 1,
+  },
+  mealType: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  mealName: {
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+  },
+  mealItems: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 2,
+  },
+  rating: {
+    color: "#F5A623",
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 2,
+  },
+  categoryBadge: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  categoryText: {
+    color: "#FFFFFF",
+    fontSize: 10,
+    fontWeight: "600",
+    lineHeight: 14,
+  },
+  tagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+    paddingLeft: 48,
+  },
+  tag: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  mealNote: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: Spacing.sm,
+    paddingLeft: 48,
+  },
+});
@@ -0,0 +1,206 @@
+import { useRouter } from "expo-router";
+import { useMemo, useState, type ReactElement } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  View,
+  type StyleProp,
+  type ViewStyle,
+} from "react-native";
+
+import { MealCard, type MealCardData } from "@/components/meal-card";
+import { ThemedText } from "@/components/themed-text";
+import { MEAL_TYPE_OPTIONS } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import type { LocalMealRecord } from "@/hooks/use-local-meals";
+import { trpc } from "@/lib/trpc";
+import type { MealType } from "@/shared/const";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+const PAGE_SIZE = 20;
+
+const categoryOptions: { key: Category; label: string }[] = [
+  { key: "japanese", label: "和食" },
+  { key: "western", label: "洋食" },
+  { key: "chinese", label: "中華" },
+  { key: "other", label: "その他" },
+];
+
+type MealHistoryListProps = {
+  isAuthenticated: boolean;
+  localMeals: LocalMealRecord[];
+  ListHeaderComponent?: ReactElement;
+  contentContainerStyle?: StyleProp<ViewStyle>;
+};
+
+/**
+ * 食事履歴を新しい順に無限スクロールで表示する
+ * ログイン中は meals.list のカーソルページング、ゲストはローカル記録を同じ件数ずつ表示
+ */
+export function MealHistoryList({
+  isAuthenticated,
+  localMeals,
+  ListHeaderComponent,
+  contentContainerStyle,
+}: MealHistoryListProps) {
+  const router = useRouter();
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  const [mealType, setMealType] = useState<MealType | undefined>(undefined);
+  const [category, setCategory] = useState<Category | undefined>(undefined);
+  const [localVisibleCount, setLocalVisibleCount] = useState(PAGE_SIZE);
+
+  const serverQuery = trpc.meals.list.useInfiniteQuery(
+    { limit: PAGE_SIZE, mealType, category },
+    {
+      enabled: isAuthenticated,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    }
+  );
+
+  const filteredLocalMeals = useMemo(
+    () =>
+      localMeals
+        .filter((m) => (!mealType || m.mealType === mealType) && (!category || m.category === category))
+        .sort((a, b) => b.date.localeCompare(a.date) || Number(b.id) - Number(a.id)),
+    [localMeals, mealType, category]
+  );
+
+  const meals: MealCardData[] = isAuthenticated
+    ? (serverQuery.data?.pages.flatMap((page) => page.items) ?? [])
+    : filteredLocalMeals.slice(0, localVisibleCount);
+
+  const hasMore = isAuthenticated
+    ? !!serverQuery.hasNextPage
+    : localVisibleCount < filteredLocalMeals.length;
+
+  const loadMore = () => {
+    if (!hasMore) return;
+    if (isAuthenticated) {
+      if (!serverQuery.isFetchingNextPage) serverQuery.fetchNextPage();
+    } else {
+      setLocalVisibleCount((count) => count + PAGE_SIZE);
+    }
+  };
+
+  const changeMealType = (value: MealType | undefined) => {
+    setMealType(value);
+    setLocalVisibleCount(PAGE_SIZE);
+  };
+
+  const changeCategory = (value: Category | undefined) => {
+    setCategory(value);
+    setLocalVisibleCount(PAGE_SIZE);
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      style={[
+        styles.chip,
+        { borderColor: active ? colors.tint : colors.border },
+        active && { backgroundColor: colors.tint },
+      ]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, active && styles.chipTextActive]}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  const filters = (
+    <View>
+      {ListHeaderComponent}
+      <View style={styles.chipRow}>
+        {renderChip("すべて", !mealType, () => changeMealType(undefined))}
+        {MEAL_TYPE_OPTIONS.map((option) =>
+          renderChip(`${option.emoji} ${option.label}`, mealType === option.key, () =>
+            changeMealType(option.key)
+          )
+        )}
+      </View>
+      <View style={styles.chipRow}>
+        {renderChip("全カテゴリ", !category, () => changeCategory(undefined))}
+        {categoryOptions.map((option) =>
+          renderChip(option.label, category === option.key, () => changeCategory(option.key))
+        )}
+      </View>
+    </View>
+  );
+
+  const isInitialLoading = isAuthenticated && serverQuery.isLoading;
+
+  return (
+    <FlatList
+      data={meals}
+      keyExtractor={(meal) => String(meal.id)}
+      renderItem={({ item }) => (
+        <MealCard
+          meal={item}
+          showDate
+          onPress={() => router.push({ pathname: "/edit-meal", params: { id: String(item.id) } })}
+        />
+      )}
+      ListHeaderComponent={filters}
+      ListEmptyComponent={
+        isInitialLoading ? (
+          <ActivityIndicator size="small" color={colors.tint} style={styles.footer} />
+        ) : (
+          <View style={[styles.emptyCard, { backgroundColor: colors.card }]}>
+            <ThemedText style={[styles.emptyText, { color: colors.textSecondary }]}>
+              該当する記録はありません
+            </ThemedText>
+          </View>
+        )
+      }
+      ListFooterComponent={
+        serverQuery.isFetchingNextPage ? (
+          <ActivityIndicator size="small" color={colors.tint} style={styles.footer} />
+        ) : null
+      }
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      contentContainerStyle={contentContainerStyle}
+      showsVerticalScrollIndicator={false}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  footer: {
+    paddingVertical: Spacing.lg,
+  },
+  emptyCard: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+  },
+  emptyText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
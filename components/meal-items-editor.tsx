@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Pressable, StyleSheet, TextInput, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import type { BoundingBox } from "@/shared/bounding-box";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+export type MealItemDraft = {
+  dishName: string;
+  category: Category;
+  portion?: string;
+  // Set when the item was detected in the meal photo
+  confidence?: number | null;
+  boundingBox?: BoundingBox | null;
+};
+
+const categoryOrder: Category[] = ["japanese", "western", "chinese", "other"];
+
+const categoryLabels: Record<Category, string> = {
+  japanese: "和食",
+  western: "洋食",
+  chinese: "中華",
+  other: "その他",
+};
+
+type MealItemsEditorProps = {
+  items: MealItemDraft[];
+  onChange: (items: MealItemDraft[]) => void;
+  defaultCategory?: Category;
+};
+
+/**
+ * 1回の食事に含まれる品目（主菜・副菜・汁物など）の一覧を編集する
+ * カテゴリのバッジをタップすると次のカテゴリに切り替わる
+ */
+export function MealItemsEditor({ items, onChange, defaultCategory = "japanese" }: MealItemsEditorProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const [newDishName, setNewDishName] = useState("");
+
+  const addItem = () => {
+    const name = newDishName.trim();
+    if (!name) return;
+    onChange([...items, { dishName: name, category: defaultCategory }]);
+    setNewDishName("");
+  };
+
+  const cycleCategory = (index: number) => {
+    onChange(
+      items.map((item, i) =>
+        i === index
+          ? {
+              ...item,
+              category: categoryOrder[(categoryOrder.indexOf(item.category) + 1) % categoryOrder.length],
+            }
+          : item
+      )
+    );
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  return (
+    <View>
+      {items.map((item, index) => (
+        <View
+          key={`${item.dishName}-${index}`}
+          style={[styles.itemRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+        >
+          <ThemedText style={styles.itemName} numberOfLines={1}>
+            {item.dishName}
+            {item.portion ? (
+              <ThemedText style={[styles.itemPortion, { color: colors.textSecondary }]}>
+                {" "}
+                {item.portion}
+              </ThemedText>
+            ) : null}
+          </ThemedText>
+          <Pressable
+            style={[styles.categoryBadge, { backgroundColor: colors[item.category] }]}
+            onPress={() => cycleCategory(index)}
+          >
+            <ThemedText style={styles.categoryBadgeText}>{categoryLabels[item.category]}</ThemedText>
+          </Pressable>
+          <Pressable style={styles.removeButton} onPress={() => removeItem(index)}>
+            <ThemedText style={{ color: colors.textSecondary }}>✕</ThemedText>
+          </Pressable>
+        </View>
+      ))}
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={[
+            styles.addInput,
+            { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+          ]}
+          placeholder="品目を追加（例: 味噌汁）"
+          placeholderTextColor={colors.textDisabled}
+          value={newDishName}
+          onChangeText={setNewDishName}
+          onSubmitEditing={addItem}
+          maxLength={100}
+        />
+        <Pressable
+          style={[
+            styles.addButton,
+            { backgroundColor: newDishName.trim() ? colors.tint : colors.textDisabled },
+          ]}
+          onPress={addItem}
+          disabled={!newDishName.trim()}
+        >
+          <ThemedText style={styles.addButtonText}>追加</ThemedText>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  itemPortion: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  categoryBadge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+  },
+  categoryBadgeText: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    fontWeight: "600",
+    lineHeight: 18,
+  },
+  removeButton: {
+    padding: Spacing.xs,
+  },
+  addRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  addInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  addButton: {
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    justifyContent: "center",
+  },
+  addButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+});
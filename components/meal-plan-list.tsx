@@ -0,0 +1,153 @@
+import { Alert, Pressable, StyleSheet, View } from "react-native";
+import { useRouter } from "expo-router";
+
+import { ThemedText } from "@/components/themed-text";
+import { mealTypeEmojis, mealTypeLabels } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { trpc } from "@/lib/trpc";
+import type { MealType } from "@/shared/const";
+
+export type MealPlanData = {
+  id: number;
+  date: string;
+  mealType: MealType;
+  dishName: string;
+  note: string | null;
+  groupId: number | null;
+  mealRecordId: number | null;
+};
+
+type MealPlanListProps = {
+  date: string;
+  today: string;
+  plans: MealPlanData[];
+};
+
+/**
+ * 選択した日の食事予定（当日以降はワンタップで記録に変換）
+ */
+export function MealPlanList({ date, today, plans }: MealPlanListProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const router = useRouter();
+
+  const utils = trpc.useUtils();
+  const { data: groups } = trpc.groups.myGroups.useQuery();
+  const recordMutation = trpc.mealPlans.record.useMutation({
+    onSuccess: () => {
+      utils.mealPlans.list.invalidate();
+      utils.meals.getByDateRange.invalidate();
+      utils.meals.getByDate.invalidate();
+      utils.meals.list.invalidate();
+    },
+  });
+  const deleteMutation = trpc.mealPlans.delete.useMutation({
+    onSuccess: () => utils.mealPlans.list.invalidate(),
+  });
+
+  const handleRecord = async (id: number) => {
+    try {
+      await recordMutation.mutateAsync({ id });
+    } catch (error) {
+      console.error("Failed to record meal plan:", error);
+      Alert.alert("エラー", "記録に失敗しました");
+    }
+  };
+
+  const handleDelete = (plan: MealPlanData) => {
+    Alert.alert("予定を削除", `「${plan.dishName}」の予定を削除しますか？`, [
+      { text: "キャンセル", style: "cancel" },
+      { text: "削除", style: "destructive", onPress: () => deleteMutation.mutate({ id: plan.id }) },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      {plans.map((plan) => {
+        const group = groups?.find((g) => g.id === plan.groupId);
+        const recorded = plan.mealRecordId !== null;
+        return (
+          <Pressable
+            key={plan.id}
+            style={[styles.card, { backgroundColor: colors.card, borderColor: colors.tint }]}
+            // A recorded plan opens its meal; the plan itself can no longer be edited
+            onPress={() =>
+              recorded
+                ? router.push({ pathname: "/edit-meal", params: { id: String(plan.mealRecordId) } })
+                : router.push({ pathname: "/meal-plan", params: { id: String(plan.id), date: plan.date } })
+            }
+            onLongPress={() => handleDelete(plan)}
+          >
+            <View style={styles.info}>
+              <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+                🗓 予定・{mealTypeEmojis[plan.mealType]} {mealTypeLabels[plan.mealType]}
+                {group ? `・${group.name}` : ""}
+              </ThemedText>
+              <ThemedText style={[styles.dishName, recorded && { color: colors.textSecondary }]}>
+                {plan.dishName}
+              </ThemedText>
+              {plan.note && (
+                <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>{plan.note}</ThemedText>
+              )}
+            </View>
+            {recorded ? (
+              <ThemedText style={[styles.status, { color: colors.textSecondary }]}>✓ 記録済み</ThemedText>
+            ) : date <= today ? (
+              <Pressable
+                style={[styles.recordButton, { backgroundColor: colors.tint }]}
+                onPress={() => handleRecord(plan.id)}
+                disabled={recordMutation.isPending}
+              >
+                <ThemedText style={styles.recordButtonText}>記録する</ThemedText>
+              </Pressable>
+            ) : null}
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
+  info: {
+    flex: 1,
+  },
+  meta: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  dishName: {
+    fontSize: 16,
+    fontWeight: "600",
+    lineHeight: 22,
+    marginVertical: 2,
+  },
+  status: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  recordButton: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  recordButtonText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+    lineHeight: 18,
+  },
+});
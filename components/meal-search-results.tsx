@@ -0,0 +1,167 @@
+import { useRouter } from "expo-router";
+import { useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, View } from "react-native";
+
+import { MealCard, type MealCardData } from "@/components/meal-card";
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import type { LocalMealRecord } from "@/hooks/use-local-meals";
+import { trpc } from "@/lib/trpc";
+import { searchMeals, type MealSearchFacets } from "@/shared/search";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+const categoryLabels: Record<Category, string> = {
+  japanese: "和食",
+  western: "洋食",
+  chinese: "中華",
+  other: "その他",
+};
+
+type MealSearchResultsProps = {
+  query: string;
+  isAuthenticated: boolean;
+  localMeals: LocalMealRecord[];
+  onSelectMonth: (month: string) => void;
+};
+
+/**
+ * 食事履歴の検索結果（カテゴリ・月ごとの件数付き）
+ * ログイン中は meals.search（サーバーのSQL検索）、ゲストはローカル記録を searchMeals で検索する
+ */
+export function MealSearchResults({
+  query,
+  isAuthenticated,
+  localMeals,
+  onSelectMonth,
+}: MealSearchResultsProps) {
+  const router = useRouter();
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  const [category, setCategory] = useState<Category | undefined>(undefined);
+
+  const { data: serverResult, isLoading: serverLoading } = trpc.meals.search.useQuery(
+    { query, category },
+    { enabled: isAuthenticated && query.length > 0 }
+  );
+
+  const localResult = useMemo(
+    () => (isAuthenticated ? null : searchMeals(localMeals, query, { category })),
+    [isAuthenticated, localMeals, query, category]
+  );
+
+  const result: { results: MealCardData[]; total: number; facets: MealSearchFacets } | null | undefined =
+    isAuthenticated ? serverResult : localResult;
+
+  if (isAuthenticated && serverLoading) {
+    return <ActivityIndicator size="small" color={colors.tint} style={styles.loading} />;
+  }
+
+  if (!result) return null;
+
+  return (
+    <View>
+      <ThemedText style={[styles.summary, { color: colors.textSecondary }]}>
+        「{query}」の検索結果: {result.total}件
+      </ThemedText>
+
+      {/* Category facets */}
+      <View style={styles.chipRow}>
+        {(Object.keys(categoryLabels) as Category[])
+          .filter((key) => result.facets.categories[key])
+          .map((key) => {
+            const active = category === key;
+            return (
+              <Pressable
+                key={key}
+                style={[
+                  styles.chip,
+                  { borderColor: active ? colors.tint : colors.border },
+                  active && { backgroundColor: colors.tint },
+                ]}
+                onPress={() => setCategory(active ? undefined : key)}
+              >
+                <ThemedText style={[styles.chipText, active && styles.chipTextActive]}>
+                  {categoryLabels[key]} {result.facets.categories[key]}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+      </View>
+
+      {/* Month facets: jump to the calendar */}
+      <View style={styles.chipRow}>
+        {result.facets.months.map(({ month, count }) => (
+          <Pressable
+            key={month}
+            style={[styles.chip, { borderColor: colors.border }]}
+            onPress={() => onSelectMonth(month)}
+          >
+            <ThemedText style={styles.chipText}>
+              📅 {month.replace("-", "/")} ({count})
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+
+      {result.results.length > 0 ? (
+        result.results.map((meal) => (
+          <MealCard
+            key={meal.id}
+            meal={meal}
+            showDate
+            onPress={() => router.push({ pathname: "/edit-meal", params: { id: String(meal.id) } })}
+          />
+        ))
+      ) : (
+        <View style={[styles.emptyCard, { backgroundColor: colors.card }]}>
+          <ThemedText style={[styles.emptyText, { color: colors.textSecondary }]}>
+            一致する記録はありません
+          </ThemedText>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: Spacing.lg,
+  },
+  summary: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  emptyCard: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+  },
+  emptyText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
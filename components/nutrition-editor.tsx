@@ -0,0 +1,100 @@
+import { StyleSheet, TextInput, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { NUTRITION_FIELDS } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { NUTRITION_KEYS, type Nutrition, type NutritionKey } from "@/shared/const";
+
+// Text input values; an empty string means "unknown"
+export type NutritionDraft = Record<NutritionKey, string>;
+
+export const EMPTY_NUTRITION_DRAFT: NutritionDraft = {
+  calories: "",
+  protein: "",
+  fat: "",
+  carbohydrate: "",
+  salt: "",
+  vegetableGrams: "",
+};
+
+export function toNutritionDraft(nutrition: Partial<Nutrition>): NutritionDraft {
+  return Object.fromEntries(
+    NUTRITION_KEYS.map((key) => [key, nutrition[key] != null ? String(nutrition[key]) : ""])
+  ) as NutritionDraft;
+}
+
+export function fromNutritionDraft(draft: NutritionDraft): Nutrition {
+  return Object.fromEntries(
+    NUTRITION_KEYS.map((key) => {
+      const value = parseFloat(draft[key]);
+      return [key, Number.isFinite(value) && value >= 0 ? value : null];
+    })
+  ) as Nutrition;
+}
+
+export function isNutritionDraftEmpty(draft: NutritionDraft): boolean {
+  return NUTRITION_KEYS.every((key) => !draft[key].trim());
+}
+
+type NutritionEditorProps = {
+  values: NutritionDraft;
+  onChange: (values: NutritionDraft) => void;
+};
+
+/**
+ * 推定された栄養素を確認・修正するための入力欄
+ */
+export function NutritionEditor({ values, onChange }: NutritionEditorProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  return (
+    <View style={styles.grid}>
+      {NUTRITION_FIELDS.map((field) => (
+        <View key={field.key} style={styles.field}>
+          <ThemedText style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+            {field.label}（{field.unit}）
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+            ]}
+            placeholder="—"
+            placeholderTextColor={colors.textDisabled}
+            value={values[field.key]}
+            onChangeText={(text) => onChange({ ...values, [field.key]: text })}
+            keyboardType="decimal-pad"
+            maxLength={6}
+          />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  field: {
+    width: "31%",
+  },
+  fieldLabel: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    lineHeight: 22,
+    textAlign: "right",
+  },
+});
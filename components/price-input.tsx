@@ -0,0 +1,121 @@
+import { Pressable, StyleSheet, TextInput, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { COST_TYPE_OPTIONS } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import type { CostType } from "@/shared/const";
+
+// Text input value; an empty string means "not tracked"
+export type PriceDraft = {
+  price: string;
+  costType: CostType;
+};
+
+export const EMPTY_PRICE_DRAFT: PriceDraft = { price: "", costType: "home_cooked" };
+
+export function toPriceDraft(meal: { price: number | null; costType: CostType | null }): PriceDraft {
+  return {
+    price: meal.price != null ? String(meal.price) : "",
+    costType: meal.costType ?? "home_cooked",
+  };
+}
+
+export function fromPriceDraft(draft: PriceDraft): { price: number | null; costType: CostType | null } {
+  const price = parseInt(draft.price, 10);
+  return Number.isFinite(price) && price >= 0
+    ? { price, costType: draft.costType }
+    : { price: null, costType: null };
+}
+
+type PriceInputProps = {
+  value: PriceDraft;
+  onChange: (value: PriceDraft) => void;
+};
+
+/**
+ * 食費（円）と自炊/外食の区分の入力
+ */
+export function PriceInput({ value, onChange }: PriceInputProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.priceField}>
+        <ThemedText style={[styles.yen, { color: colors.textSecondary }]}>¥</ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+          ]}
+          placeholder="例: 800"
+          placeholderTextColor={colors.textDisabled}
+          keyboardType="number-pad"
+          value={value.price}
+          onChangeText={(price) => onChange({ ...value, price: price.replace(/[^0-9]/g, "") })}
+          maxLength={7}
+        />
+      </View>
+      {COST_TYPE_OPTIONS.map((option) => {
+        const selected = value.costType === option.key;
+        return (
+          <Pressable
+            key={option.key}
+            style={[
+              styles.typeButton,
+              { borderColor: selected ? colors.tint : colors.border },
+              selected && { backgroundColor: colors.tint },
+            ]}
+            onPress={() => onChange({ ...value, costType: option.key })}
+          >
+            <ThemedText style={[styles.typeText, selected && styles.typeTextSelected]}>
+              {option.emoji} {option.label}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  priceField: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  yen: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  typeButton: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  typeText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  typeTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+});
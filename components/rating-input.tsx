@@ -0,0 +1,116 @@
+import { Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+
+const STAR_COLOR = "#F5A623";
+
+export type RatingDraft = {
+  rating: number | null;
+  wouldEatAgain: boolean | null;
+};
+
+export const EMPTY_RATING_DRAFT: RatingDraft = { rating: null, wouldEatAgain: null };
+
+type RatingInputProps = {
+  value: RatingDraft;
+  onChange: (value: RatingDraft) => void;
+};
+
+/**
+ * 満足度（★1〜5）と「また食べたい」の入力
+ * 選択中の星やボタンをもう一度タップすると未評価に戻す
+ */
+export function RatingInput({ value, onChange }: RatingInputProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  return (
+    <View>
+      <View style={styles.starRow}>
+        {[1, 2, 3, 4, 5].map((star) => (
+          <Pressable
+            key={star}
+            hitSlop={4}
+            onPress={() => onChange({ ...value, rating: value.rating === star ? null : star })}
+          >
+            <ThemedText
+              style={[
+                styles.star,
+                { color: value.rating !== null && star <= value.rating ? STAR_COLOR : colors.textDisabled },
+              ]}
+            >
+              ★
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+      <View style={styles.againRow}>
+        {([true, false] as const).map((option) => {
+          const selected = value.wouldEatAgain === option;
+          return (
+            <Pressable
+              key={String(option)}
+              style={[
+                styles.againButton,
+                { borderColor: selected ? colors.tint : colors.border },
+                selected && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => onChange({ ...value, wouldEatAgain: selected ? null : option })}
+            >
+              <ThemedText style={[styles.againText, selected && styles.againTextSelected]}>
+                {option ? "😋 また食べたい" : "🙅 もういいかな"}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * 一覧表示用の短い評価表示（例: ★★★★☆ 😋）。未評価なら null
+ */
+export function formatRating(rating: number | null | undefined, wouldEatAgain?: boolean | null): string | null {
+  const parts: string[] = [];
+  if (rating != null) {
+    const rounded = Math.round(rating);
+    parts.push("★".repeat(rounded) + "☆".repeat(5 - rounded));
+  }
+  if (wouldEatAgain === true) parts.push("😋");
+  if (wouldEatAgain === false) parts.push("🙅");
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+const styles = StyleSheet.create({
+  starRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  star: {
+    fontSize: 32,
+    lineHeight: 40,
+  },
+  againRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  againButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    alignItems: "center",
+  },
+  againText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  againTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Pressable, StyleSheet, TextInput, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+
+const MAX_TAGS = 10;
+
+type TagInputProps = {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+};
+
+/**
+ * 自由入力のタグ（例: 韓国料理、外食、手作り）
+ * 入力して確定すると追加、タグをタップすると削除。過去に使ったタグは候補として表示する
+ */
+export function TagInput({ tags, onChange, suggestions = [] }: TagInputProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const [text, setText] = useState("");
+
+  const addTag = (value: string) => {
+    const tag = value.trim().replace(/^#/, "");
+    if (!tag || tags.includes(tag) || tags.length >= MAX_TAGS) return;
+    onChange([...tags, tag]);
+    setText("");
+  };
+
+  const unusedSuggestions = suggestions.filter((s) => !tags.includes(s)).slice(0, 8);
+
+  return (
+    <View>
+      {tags.length > 0 && (
+        <View style={styles.tagRow}>
+          {tags.map((tag) => (
+            <Pressable
+              key={tag}
+              style={[styles.tag, { backgroundColor: colors.tint }]}
+              onPress={() => onChange(tags.filter((t) => t !== tag))}
+            >
+              <ThemedText style={styles.tagText}>#{tag} ✕</ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      )}
+      <TextInput
+        style={[
+          styles.input,
+          { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+        ]}
+        placeholder="タグを追加（例: 外食、韓国料理）"
+        placeholderTextColor={colors.textDisabled}
+        value={text}
+        onChangeText={setText}
+        onSubmitEditing={() => addTag(text)}
+        returnKeyType="done"
+        maxLength={30}
+      />
+      {unusedSuggestions.length > 0 && (
+        <View style={[styles.tagRow, styles.suggestionRow]}>
+          {unusedSuggestions.map((tag) => (
+            <Pressable
+              key={tag}
+              style={[styles.tag, { borderColor: colors.border, borderWidth: 1 }]}
+              onPress={() => addTag(tag)}
+            >
+              <ThemedText style={[styles.suggestionText, { color: colors.textSecondary }]}>#{tag}</ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  suggestionRow: {
+    marginTop: Spacing.sm,
+    marginBottom: 0,
+  },
+  tag: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+  },
+  tagText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+    lineHeight: 18,
+  },
+  suggestionText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+});
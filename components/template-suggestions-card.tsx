@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { Alert, Pressable, StyleSheet, TextInput, View } from "react-native";
+import { useRouter } from "expo-router";
+
+import { ThemedText } from "@/components/themed-text";
+import { mealTypeEmojis, mealTypeLabels } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { trpc } from "@/lib/trpc";
+
+type TemplateSuggestionsCardProps = {
+  date: string;
+};
+
+/**
+ * 今日の定番メニュー（ワンタップで記録・今日だけスキップ／変更）
+ * 今日予定された定番がなければ何も表示しない
+ */
+export function TemplateSuggestionsCard({ date }: TemplateSuggestionsCardProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const router = useRouter();
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [overrideName, setOverrideName] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: suggestions } = trpc.templates.getForDate.useQuery({ date });
+  const onChanged = () => utils.templates.getForDate.invalidate();
+  const recordMutation = trpc.templates.record.useMutation({
+    onSuccess: () => {
+      onChanged();
+      utils.meals.getByDate.invalidate();
+      utils.meals.getRecent.invalidate();
+      utils.meals.list.invalidate();
+    },
+  });
+  const skipMutation = trpc.templates.skip.useMutation({ onSuccess: onChanged });
+  const overrideMutation = trpc.templates.override.useMutation({ onSuccess: onChanged });
+  const clearMutation = trpc.templates.clearException.useMutation({ onSuccess: onChanged });
+
+  if (!suggestions || suggestions.length === 0) return null;
+
+  const handleRecord = async (templateId: number) => {
+    try {
+      await recordMutation.mutateAsync({ templateId, date });
+    } catch (error) {
+      console.error("Failed to record template:", error);
+      Alert.alert("エラー", "記録に失敗しました");
+    }
+  };
+
+  const handleOverride = async (templateId: number) => {
+    if (!overrideName.trim()) return;
+    try {
+      await overrideMutation.mutateAsync({ templateId, date, dishName: overrideName.trim() });
+      setEditingId(null);
+      setOverrideName("");
+    } catch (error) {
+      console.error("Failed to override template:", error);
+      Alert.alert("エラー", "変更に失敗しました");
+    }
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card }]}>
+      <View style={styles.header}>
+        <ThemedText type="subtitle">📅 今日の定番</ThemedText>
+        <Pressable onPress={() => router.push("/meal-templates")}>
+          <ThemedText style={{ color: colors.tint }}>管理</ThemedText>
+        </Pressable>
+      </View>
+
+      {suggestions.map((item) => (
+        <View key={item.templateId} style={[styles.row, { borderColor: colors.border }]}>
+          <View style={styles.rowHeader}>
+            <ThemedText style={[styles.mealType, { color: colors.textSecondary }]}>
+              {mealTypeEmojis[item.mealType]} {mealTypeLabels[item.mealType]}
+              {item.mode === "auto" ? `・${item.time}に自動記録` : ""}
+            </ThemedText>
+            {item.overridden && (
+              <ThemedText style={[styles.badge, { color: colors.tint }]}>今日だけ変更</ThemedText>
+            )}
+          </View>
+          <ThemedText
+            style={[
+              styles.dishName,
+              item.skipped && { color: colors.textDisabled, textDecorationLine: "line-through" },
+            ]}
+          >
+            {item.dishName}
+          </ThemedText>
+
+          {item.recordedMealId !== null ? (
+            <ThemedText style={[styles.status, { color: colors.textSecondary }]}>✓ 記録済み</ThemedText>
+          ) : item.skipped ? (
+            <Pressable onPress={() => clearMutation.mutate({ templateId: item.templateId, date })}>
+              <ThemedText style={[styles.status, { color: colors.tint }]}>今日はスキップ・元に戻す</ThemedText>
+            </Pressable>
+          ) : editingId === item.templateId ? (
+            <View style={styles.overrideRow}>
+              <TextInput
+                style={[styles.input, { backgroundColor: colors.background, color: colors.text, borderColor: colors.border }]}
+                placeholder="今日食べたもの"
+                placeholderTextColor={colors.textDisabled}
+                value={overrideName}
+                onChangeText={setOverrideName}
+                maxLength={255}
+                autoFocus
+              />
+              <Pressable
+                style={[styles.smallButton, { backgroundColor: colors.tint }]}
+                onPress={() => handleOverride(item.templateId)}
+              >
+                <ThemedText style={styles.smallButtonText}>変更</ThemedText>
+              </Pressable>
+              <Pressable onPress={() => setEditingId(null)}>
+                <ThemedText style={{ color: colors.textSecondary }}>✕</ThemedText>
+              </Pressable>
+            </View>
+          ) : (
+            <View style={styles.actions}>
+              <Pressable
+                style={[styles.smallButton, { backgroundColor: colors.tint }]}
+                onPress={() => handleRecord(item.templateId)}
+                disabled={recordMutation.isPending}
+              >
+                <ThemedText style={styles.smallButtonText}>記録する</ThemedText>
+              </Pressable>
+              <Pressable
+                style={[styles.outlineButton, { borderColor: colors.border }]}
+                onPress={() => {
+                  setEditingId(item.templateId);
+                  setOverrideName(item.dishName);
+                }}
+              >
+                <ThemedText style={styles.outlineButtonText}>今日だけ変更</ThemedText>
+              </Pressable>
+              <Pressable
+                style={[styles.outlineButton, { borderColor: colors.border }]}
+                onPress={() => skipMutation.mutate({ templateId: item.templateId, date })}
+              >
+                <ThemedText style={styles.outlineButtonText}>スキップ</ThemedText>
+              </Pressable>
+              {item.overridden && (
+                <Pressable onPress={() => clearMutation.mutate({ templateId: item.templateId, date })}>
+                  <ThemedText style={[styles.outlineButtonText, { color: colors.textSecondary }]}>元に戻す</ThemedText>
+                </Pressable>
+              )}
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.md,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.sm,
+  },
+  row: {
+    paddingVertical: Spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  mealType: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  badge: {
+    fontSize: 12,
+    fontWeight: "600",
+    lineHeight: 16,
+  },
+  dishName: {
+    fontSize: 17,
+    fontWeight: "600",
+    lineHeight: 24,
+    marginVertical: Spacing.xs,
+  },
+  status: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  overrideRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  smallButton: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  smallButtonText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+    lineHeight: 18,
+  },
+  outlineButton: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  outlineButtonText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
@@ -0,0 +1,190 @@
+import { Pressable, StyleSheet, TextInput, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { MEAL_SOURCE_OPTIONS, mealSourceEmojis } from "@/constants/meals";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import type { MealSource } from "@/shared/const";
+
+export type VenueDraft = {
+  source: MealSource | null;
+  venueName: string;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export const EMPTY_VENUE_DRAFT: VenueDraft = { source: null, venueName: "", latitude: null, longitude: null };
+
+export type RecentVenueOption = {
+  venueName: string;
+  source: MealSource | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export function toVenueDraft(meal: {
+  source: MealSource | null;
+  venueName: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}): VenueDraft {
+  return {
+    source: meal.source,
+    venueName: meal.venueName ?? "",
+    latitude: meal.latitude,
+    longitude: meal.longitude,
+  };
+}
+
+export function fromVenueDraft(draft: VenueDraft) {
+  return {
+    source: draft.source,
+    venueName: draft.venueName.trim() || null,
+    latitude: draft.latitude,
+    longitude: draft.longitude,
+  };
+}
+
+/**
+ * 写真のEXIFに含まれるGPS座標（南緯・西経は負の値）。なければ null
+ */
+export function readExifLocation(
+  exif: Record<string, unknown> | null | undefined
+): { latitude: number; longitude: number } | null {
+  const latitude = Number(exif?.GPSLatitude);
+  const longitude = Number(exif?.GPSLongitude);
+  if (!exif || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (latitude === 0 && longitude === 0) return null;
+  return {
+    latitude: exif.GPSLatitudeRef === "S" ? -Math.abs(latitude) : latitude,
+    longitude: exif.GPSLongitudeRef === "W" ? -Math.abs(longitude) : longitude,
+  };
+}
+
+type VenuePickerProps = {
+  value: VenueDraft;
+  onChange: (value: VenueDraft) => void;
+  recentVenues?: RecentVenueOption[];
+};
+
+/**
+ * どこで食べたか（自炊・お弁当・飲食店など）と店名の入力
+ * 最近使った店をタップすると店名・種類・位置をまとめて入力する
+ */
+export function VenuePicker({ value, onChange, recentVenues = [] }: VenuePickerProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  const showVenue = value.source !== null && value.source !== "home_cooked";
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {MEAL_SOURCE_OPTIONS.map((option) => {
+          const selected = value.source === option.key;
+          return (
+            <Pressable
+              key={option.key}
+              style={[
+                styles.chip,
+                { borderColor: selected ? colors.tint : colors.border },
+                selected && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => onChange({ ...value, source: selected ? null : option.key })}
+            >
+              <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {option.emoji} {option.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {showVenue && (
+        <>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: colors.card, color: colors.text, borderColor: colors.border },
+            ]}
+            placeholder="店名（任意）"
+            placeholderTextColor={colors.textDisabled}
+            value={value.venueName}
+            onChangeText={(venueName) => onChange({ ...value, venueName })}
+            maxLength={255}
+          />
+          {recentVenues.length > 0 && (
+            <View style={[styles.chipRow, styles.recentRow]}>
+              {recentVenues.map((venue) => (
+                <Pressable
+                  key={venue.venueName}
+                  style={[styles.chip, { borderColor: colors.border }]}
+                  onPress={() =>
+                    onChange({
+                      source: venue.source ?? value.source,
+                      venueName: venue.venueName,
+                      latitude: venue.latitude,
+                      longitude: venue.longitude,
+                    })
+                  }
+                >
+                  <ThemedText style={[styles.chipText, { color: colors.textSecondary }]}>
+                    {venue.source ? mealSourceEmojis[venue.source] : "📍"} {venue.venueName}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          )}
+        </>
+      )}
+
+      {value.latitude !== null && value.longitude !== null && (
+        <Pressable onPress={() => onChange({ ...value, latitude: null, longitude: null })}>
+          <ThemedText style={[styles.location, { color: colors.textSecondary }]}>
+            📍 位置情報あり（{value.latitude.toFixed(4)}, {value.longitude.toFixed(4)}）✕
+          </ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  recentRow: {
+    marginTop: Spacing.sm,
+    marginBottom: 0,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  location: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: Spacing.sm,
+  },
+});
@@ -0,0 +1,87 @@
+import type { CostType, MealSource, MealType, NutritionKey, TemplateMode } from "@/shared/const";
+
+/**
+ * 食事タイプの表示用ラベルと絵文字
+ * 並び順は1日の流れ（朝食 → ランチ → ディナー → 間食）に合わせる
+ */
+export const MEAL_TYPE_OPTIONS: { key: MealType; label: string; emoji: string }[] = [
+  { key: "breakfast", label: "朝食", emoji: "🍳" },
+  { key: "lunch", label: "ランチ", emoji: "🍱" },
+  { key: "dinner", label: "ディナー", emoji: "🍽️" },
+  { key: "snack", label: "間食", emoji: "🍩" },
+];
+
+export const mealTypeLabels: Record<string, string> = Object.fromEntries(
+  MEAL_TYPE_OPTIONS.map((option) => [option.key, option.label])
+);
+
+export const mealTypeEmojis: Record<string, string> = Object.fromEntries(
+  MEAL_TYPE_OPTIONS.map((option) => [option.key, option.emoji])
+);
+
+/**
+ * 栄養素の表示用ラベルと単位（食事記録・週間レポートで共通）
+ */
+export const NUTRITION_FIELDS: { key: NutritionKey; label: string; unit: string }[] = [
+  { key: "calories", label: "エネルギー", unit: "kcal" },
+  { key: "protein", label: "たんぱく質", unit: "g" },
+  { key: "fat", label: "脂質", unit: "g" },
+  { key: "carbohydrate", label: "炭水化物", unit: "g" },
+  { key: "salt", label: "食塩相当量", unit: "g" },
+  { key: "vegetableGrams", label: "野菜", unit: "g" },
+];
+
+/**
+ * 食費の区分（自炊・外食）
+ */
+export const COST_TYPE_OPTIONS: { key: CostType; label: string; emoji: string }[] = [
+  { key: "home_cooked", label: "自炊", emoji: "🏠" },
+  { key: "eaten_out", label: "外食", emoji: "🏪" },
+];
+
+export const costTypeLabels: Record<string, string> = Object.fromEntries(
+  COST_TYPE_OPTIONS.map((option) => [option.key, option.label])
+);
+
+/**
+ * 食事をどこで用意したか（自炊・お弁当・外食の各種）
+ */
+export const MEAL_SOURCE_OPTIONS: { key: MealSource; label: string; emoji: string }[] = [
+  { key: "home_cooked", label: "自炊", emoji: "🏠" },
+  { key: "bento", label: "お弁当", emoji: "🍙" },
+  { key: "restaurant", label: "飲食店", emoji: "🍜" },
+  { key: "convenience_store", label: "コンビニ", emoji: "🏪" },
+  { key: "delivery", label: "デリバリー", emoji: "🛵" },
+  { key: "cafeteria", label: "社食・学食", emoji: "🏢" },
+];
+
+export const mealSourceLabels: Record<string, string> = Object.fromEntries(
+  MEAL_SOURCE_OPTIONS.map((option) => [option.key, option.label])
+);
+
+export const mealSourceEmojis: Record<string, string> = Object.fromEntries(
+  MEAL_SOURCE_OPTIONS.map((option) => [option.key, option.emoji])
+);
+
+/**
+ * 金額の表示（例: ¥1,200）
+ */
+export function formatYen(amount: number): string {
+  return `¥${amount.toLocaleString("ja-JP")}`;
+}
+
+/**
+ * 定番メニューの曜日（0 = 日曜 … 6 = 土曜）と記録のしかた
+ */
+export const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+export const TEMPLATE_MODE_OPTIONS: { key: TemplateMode; label: string; description: string }[] = [
+  { key: "suggest", label: "提案", description: "ホームに表示してワンタップで記録" },
+  { key: "auto", label: "自動記録", description: "設定した時刻に自動で記録" },
+];
+
+export function formatWeekdays(weekdays: number[]): string {
+  if (weekdays.length === 7) return "毎日";
+  if (weekdays.join(",") === "1,2,3,4,5") return "平日";
+  return weekdays.map((day) => WEEKDAY_LABELS[day]).join("・");
+}
@@ -30,6 +30,11 @@ export const Colors = {
     western: "#3498DB",
     chinese: "#F39C12",
     other: "#9B59B6",
+    // Meal type colors (calendar markers)
+    breakfast: "#F1C40F",
+    lunch: "#FF6B35",
+    dinner: "#34495E",
+    snack: "#1ABC9C",
   },
   dark: {
     text: "#F5F5F5",
@@ -51,6 +56,11 @@ export const Colors = {
     western: "#5DADE2",
     chinese: "#F5B041",
     other: "#BB8FCE",
+    // Meal type colors (calendar markers)
+    breakfast: "#F7DC6F",
+    lunch: "#FF8C5A",
+    dinner: "#85A1C1",
+    snack: "#48C9B0",
   },
 };
 
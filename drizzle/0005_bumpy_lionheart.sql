@@ -0,0 +1,2 @@
+ALTER TABLE `meal_records` MODIFY COLUMN `mealType` enum('breakfast','lunch','dinner','snack') NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `trackedMealTypes` json;
\ No newline at end of file
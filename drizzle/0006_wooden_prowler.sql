@@ -0,0 +1,12 @@
+CREATE TABLE `meal_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`mealRecordId` int NOT NULL,
+	`dishName` varchar(255) NOT NULL,
+	`category` enum('japanese','western','chinese','other') NOT NULL,
+	`portion` varchar(50),
+	`sortOrder` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `meal_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+INSERT INTO `meal_items` (`mealRecordId`, `dishName`, `category`, `sortOrder`) SELECT `id`, `dishName`, `category`, 0 FROM `meal_records`;
@@ -0,0 +1,6 @@
+ALTER TABLE `meal_records` ADD `calories` int;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `protein` float;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `fat` float;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `carbohydrate` float;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `salt` float;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `vegetableGrams` int;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `custom_categories` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(50) NOT NULL,
+	`color` varchar(7) NOT NULL,
+	`icon` varchar(16) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `custom_categories_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `customCategoryId` int;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `tags` json;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `favorite_meals` ADD `deletedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `deletedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `pantry_inventory` ADD `deletedAt` timestamp;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `meal_records` ADD `rating` int;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `wouldEatAgain` boolean;
\ No newline at end of file
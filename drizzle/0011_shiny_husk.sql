@@ -0,0 +1,4 @@
+ALTER TABLE `groups` ADD `monthlyFoodBudget` int;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `price` int;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `costType` enum('home_cooked','eaten_out');--> statement-breakpoint
+ALTER TABLE `users` ADD `monthlyFoodBudget` int;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `meal_records` ADD `source` enum('home_cooked','bento','restaurant','convenience_store','delivery','cafeteria');--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `venueName` varchar(255);--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `latitude` double;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `longitude` double;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `meal_template_exceptions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`templateId` int NOT NULL,
+	`date` varchar(10) NOT NULL,
+	`action` enum('skip','override') NOT NULL,
+	`dishName` varchar(255),
+	`category` enum('japanese','western','chinese','other'),
+	`note` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `meal_template_exceptions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `meal_templates` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`favoriteMealId` int,
+	`dishName` varchar(255) NOT NULL,
+	`category` enum('japanese','western','chinese','other') NOT NULL,
+	`note` text,
+	`mealType` enum('breakfast','lunch','dinner','snack') NOT NULL,
+	`weekdays` json NOT NULL,
+	`mode` enum('suggest','auto') NOT NULL DEFAULT 'suggest',
+	`time` varchar(5) NOT NULL DEFAULT '12:00',
+	`isActive` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `meal_templates_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `templateId` int;
\ No newline at end of file
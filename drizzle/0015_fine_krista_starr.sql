@@ -0,0 +1,14 @@
+CREATE TABLE `meal_plans` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`groupId` int,
+	`date` varchar(10) NOT NULL,
+	`mealType` enum('breakfast','lunch','dinner','snack') NOT NULL DEFAULT 'dinner',
+	`dishName` varchar(255) NOT NULL,
+	`category` enum('japanese','western','chinese','other') NOT NULL,
+	`note` text,
+	`mealRecordId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `meal_plans_id` PRIMARY KEY(`id`)
+);
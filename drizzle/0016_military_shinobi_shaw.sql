@@ -0,0 +1,3 @@
+ALTER TABLE `meal_records` ADD `leftoverPortions` int;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `leftoverFromId` int;--> statement-breakpoint
+ALTER TABLE `pantry_inventory` ADD `mealRecordId` int;
\ No newline at end of file
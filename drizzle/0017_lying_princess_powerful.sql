@@ -0,0 +1,2 @@
+ALTER TABLE `meal_items` ADD `confidence` float;--> statement-breakpoint
+ALTER TABLE `meal_items` ADD `boundingBox` json;
\ No newline at end of file
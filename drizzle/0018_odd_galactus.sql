@@ -0,0 +1,6 @@
+ALTER TABLE `favorite_meals` ADD `imageKey` varchar(255);--> statement-breakpoint
+ALTER TABLE `favorite_meals` ADD `thumbnailUrl` text;--> statement-breakpoint
+ALTER TABLE `favorite_meals` ADD `thumbnailKey` varchar(255);--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `imageKey` varchar(255);--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `thumbnailUrl` text;--> statement-breakpoint
+ALTER TABLE `meal_records` ADD `thumbnailKey` varchar(255);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `image_analyses` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`contentHash` varchar(64) NOT NULL,
+	`imageUrl` text NOT NULL,
+	`imageKey` varchar(255) NOT NULL,
+	`thumbnailUrl` text NOT NULL,
+	`thumbnailKey` varchar(255) NOT NULL,
+	`result` json,
+	`hitCount` int NOT NULL DEFAULT 0,
+	`lastHitAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `image_analyses_id` PRIMARY KEY(`id`)
+);
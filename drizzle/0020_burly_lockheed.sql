@@ -0,0 +1,17 @@
+CREATE TABLE `products` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`barcode` varchar(13) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`category` enum('japanese','western','chinese','other') NOT NULL,
+	`calories` int,
+	`protein` float,
+	`fat` float,
+	`carbohydrate` float,
+	`salt` float,
+	`vegetableGrams` int,
+	`addedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `products_id` PRIMARY KEY(`id`),
+	CONSTRAINT `products_barcode_unique` UNIQUE(`barcode`)
+);
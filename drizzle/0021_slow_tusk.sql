@@ -0,0 +1 @@
+CREATE INDEX `image_analyses_user_hash_idx` ON `image_analyses` (`userId`,`contentHash`);
\ No newline at end of file
@@ -1,4 +1,7 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean } from "drizzle-orm/mysql-core";
+import { double, float, index, int, json, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean } from "drizzle-orm/mysql-core";
+import type { BoundingBox } from "../shared/bounding-box";
+import { COST_TYPES, MEAL_SOURCES, MEAL_TYPES, TEMPLATE_EXCEPTION_ACTIONS, TEMPLATE_MODES, type MealType } from "../shared/const";
+import type { FoodAnalysis } from "../shared/food-analysis";
 
 /**
  * Core user table backing auth flow.
@@ -23,25 +26,53 @@ export const users = mysqlTable("users", {
   // Notification settings
   notificationEnabled: boolean("notificationEnabled").default(true),
   lunchReminderTime: varchar("lunchReminderTime", { length: 5 }).default("12:00"), // HH:MM format
+  // Meal types counted in the weekly completion rate (null = DEFAULT_TRACKED_MEAL_TYPES)
+  trackedMealTypes: json("trackedMealTypes").$type<MealType[]>(),
+  monthlyFoodBudget: int("monthlyFoodBudget"), // 円 (null = no budget)
+  timezone: varchar("timezone", { length: 64 }), // IANA name deciding "today" (null = DEFAULT_TIME_ZONE)
 });
 
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
 /**
- * Meal records table - stores lunch and dinner records
+ * Meal records table - stores breakfast, lunch, dinner and snack records
  */
 export const mealRecords = mysqlTable("meal_records", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
   groupId: int("groupId"), // Optional group association
   date: varchar("date", { length: 10 }).notNull(), // YYYY-MM-DD format
-  mealType: mysqlEnum("mealType", ["lunch", "dinner"]).notNull(),
+  mealType: mysqlEnum("mealType", MEAL_TYPES).notNull(),
   dishName: varchar("dishName", { length: 255 }).notNull(),
   category: mysqlEnum("category", ["japanese", "western", "chinese", "other"]).notNull(),
   note: text("note"),
-  imageUrl: text("imageUrl"),
+  imageUrl: text("imageUrl"), // Display-size photo
+  imageKey: varchar("imageKey", { length: 255 }), // Storage key of imageUrl
+  thumbnailUrl: text("thumbnailUrl"), // Square thumbnail for lists
+  thumbnailKey: varchar("thumbnailKey", { length: 255 }),
   isFavorite: boolean("isFavorite").default(false), // v0.6: お気に入りフラグ
+  // Estimated nutrition (null when unknown)
+  calories: int("calories"), // kcal
+  protein: float("protein"), // g
+  fat: float("fat"), // g
+  carbohydrate: float("carbohydrate"), // g
+  salt: float("salt"), // g (食塩相当量)
+  vegetableGrams: int("vegetableGrams"), // g
+  customCategoryId: int("customCategoryId"), // User-defined category (category is then "other")
+  tags: json("tags").$type<string[]>(), // Free-form user tags
+  rating: int("rating"), // Satisfaction 1-5 (null when not rated)
+  wouldEatAgain: boolean("wouldEatAgain"), // "また食べたい" (null when not answered)
+  price: int("price"), // 円 (null = not tracked)
+  costType: mysqlEnum("costType", COST_TYPES), // Eaten out vs home-cooked, set together with price
+  source: mysqlEnum("source", MEAL_SOURCES), // Where the meal came from (null = not recorded)
+  venueName: varchar("venueName", { length: 255 }), // Restaurant / shop name
+  latitude: double("latitude"),
+  longitude: double("longitude"),
+  templateId: int("templateId"), // Recurring template the record was created from
+  leftoverPortions: int("leftoverPortions"), // Dinner only: extra portions cooked for later (null = none)
+  leftoverFromId: int("leftoverFromId"), // Dinner whose leftovers this meal was made from
+  deletedAt: timestamp("deletedAt"), // Soft delete: set while the record sits in the trash
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -49,6 +80,39 @@ export const mealRecords = mysqlTable("meal_records", {
 export type MealRecord = typeof mealRecords.$inferSelect;
 export type InsertMealRecord = typeof mealRecords.$inferInsert;
 
+/**
+ * Custom categories table - user-defined categories kept next to the built-in ones
+ */
+export const customCategories = mysqlTable("custom_categories", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 50 }).notNull(),
+  color: varchar("color", { length: 7 }).notNull(), // #RRGGBB
+  icon: varchar("icon", { length: 16 }).notNull(), // Emoji
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type CustomCategory = typeof customCategories.$inferSelect;
+export type InsertCustomCategory = typeof customCategories.$inferInsert;
+
+/**
+ * Meal items table - individual dishes (main, sides, soup...) within a meal record
+ */
+export const mealItems = mysqlTable("meal_items", {
+  id: int("id").autoincrement().primaryKey(),
+  mealRecordId: int("mealRecordId").notNull(),
+  dishName: varchar("dishName", { length: 255 }).notNull(),
+  category: mysqlEnum("category", ["japanese", "western", "chinese", "other"]).notNull(),
+  portion: varchar("portion", { length: 50 }), // "1人前", "小鉢" など
+  confidence: float("confidence"), // 0-1, set when the dish was detected in the photo
+  boundingBox: json("boundingBox").$type<BoundingBox>(), // Where the dish is in the meal photo (normalized)
+  sortOrder: int("sortOrder").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type MealItem = typeof mealItems.$inferSelect;
+export type InsertMealItem = typeof mealItems.$inferInsert;
+
 /**
  * Groups table - family/group management
  */
@@ -58,6 +122,7 @@ export const groups = mysqlTable("groups", {
   description: text("description"),
   inviteCode: varchar("inviteCode", { length: 8 }).notNull().unique(),
   ownerId: int("ownerId").notNull(),
+  monthlyFoodBudget: int("monthlyFoodBudget"), // 円, shared by the group (null = no budget)
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -88,9 +153,13 @@ export const favoriteMeals = mysqlTable("favorite_meals", {
   dishName: varchar("dishName", { length: 255 }).notNull(),
   category: mysqlEnum("category", ["japanese", "western", "chinese", "other"]).notNull(),
   note: text("note"),
-  imageUrl: text("imageUrl"),
+  imageUrl: text("imageUrl"), // Display-size photo
+  imageKey: varchar("imageKey", { length: 255 }), // Storage key of imageUrl
+  thumbnailUrl: text("thumbnailUrl"), // Square thumbnail for lists
+  thumbnailKey: varchar("thumbnailKey", { length: 255 }),
   usageCount: int("usageCount").default(0), // 使用回数
   lastUsedAt: timestamp("lastUsedAt"),
+  deletedAt: timestamp("deletedAt"), // Soft delete
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -111,9 +180,121 @@ export const pantryInventory = mysqlTable("pantry_inventory", {
   category: mysqlEnum("category", ["vegetable", "meat", "fish", "seasoning", "other"]).notNull(),
   expiryDate: varchar("expiryDate", { length: 10 }), // YYYY-MM-DD format
   lowStockAlert: boolean("lowStockAlert").default(false),
+  mealRecordId: int("mealRecordId"), // Leftovers of this dinner (kept in sync with the portions left)
+  deletedAt: timestamp("deletedAt"), // Soft delete
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
 
 export type PantryInventory = typeof pantryInventory.$inferSelect;
 export type InsertPantryInventory = typeof pantryInventory.$inferInsert;
+
+/**
+ * Meal templates table - recurring meals on fixed weekdays (cafeteria set, bento...)
+ */
+export const mealTemplates = mysqlTable("meal_templates", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  favoriteMealId: int("favoriteMealId"), // Favorite the template was made from
+  dishName: varchar("dishName", { length: 255 }).notNull(),
+  category: mysqlEnum("category", ["japanese", "western", "chinese", "other"]).notNull(),
+  note: text("note"),
+  mealType: mysqlEnum("mealType", MEAL_TYPES).notNull(),
+  weekdays: json("weekdays").$type<number[]>().notNull(), // 0 = Sunday ... 6 = Saturday
+  mode: mysqlEnum("mode", TEMPLATE_MODES).default("suggest").notNull(),
+  time: varchar("time", { length: 5 }).default("12:00").notNull(), // HH:MM, when auto mode records the meal
+  isActive: boolean("isActive").default(true).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type MealTemplate = typeof mealTemplates.$inferSelect;
+export type InsertMealTemplate = typeof mealTemplates.$inferInsert;
+
+/**
+ * Meal template exceptions table - skip or change a template on a single day
+ */
+export const mealTemplateExceptions = mysqlTable("meal_template_exceptions", {
+  id: int("id").autoincrement().primaryKey(),
+  templateId: int("templateId").notNull(),
+  date: varchar("date", { length: 10 }).notNull(), // YYYY-MM-DD format
+  action: mysqlEnum("action", TEMPLATE_EXCEPTION_ACTIONS).notNull(),
+  // Replacement for that day (override only)
+  dishName: varchar("dishName", { length: 255 }),
+  category: mysqlEnum("category", ["japanese", "western", "chinese", "other"]),
+  note: text("note"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type MealTemplateException = typeof mealTemplateExceptions.$inferSelect;
+export type InsertMealTemplateException = typeof mealTemplateExceptions.$inferInsert;
+
+/**
+ * Meal plans table - dinners (or other meals) planned for upcoming days
+ */
+export const mealPlans = mysqlTable("meal_plans", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(), // Who made the plan
+  groupId: int("groupId"), // Group the meal is planned for (visible to its members)
+  date: varchar("date", { length: 10 }).notNull(), // YYYY-MM-DD format
+  mealType: mysqlEnum("mealType", MEAL_TYPES).default("dinner").notNull(),
+  dishName: varchar("dishName", { length: 255 }).notNull(),
+  category: mysqlEnum("category", ["japanese", "western", "chinese", "other"]).notNull(),
+  note: text("note"),
+  mealRecordId: int("mealRecordId"), // Set once the plan was turned into a meal record
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type MealPlan = typeof mealPlans.$inferSelect;
+export type InsertMealPlan = typeof mealPlans.$inferInsert;
+
+/**
+ * Image analyses table - stored photo and analysis per uploaded image content,
+ * so the same photo sent again reuses both instead of a new upload and LLM call
+ */
+export const imageAnalyses = mysqlTable("image_analyses", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  contentHash: varchar("contentHash", { length: 64 }).notNull(), // SHA-256 of the uploaded bytes
+  imageUrl: text("imageUrl").notNull(),
+  imageKey: varchar("imageKey", { length: 255 }).notNull(),
+  thumbnailUrl: text("thumbnailUrl").notNull(),
+  thumbnailKey: varchar("thumbnailKey", { length: 255 }).notNull(),
+  result: json("result").$type<FoodAnalysis>(), // null while no analysis has succeeded
+  hitCount: int("hitCount").default(0).notNull(), // Times a cached result was returned instead of a new LLM call
+  lastHitAt: timestamp("lastHitAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  // Cache lookup for a photo sent again
+  index("image_analyses_user_hash_idx").on(table.userId, table.contentHash),
+]);
+
+export type ImageAnalysis = typeof imageAnalyses.$inferSelect;
+export type InsertImageAnalysis = typeof imageAnalyses.$inferInsert;
+
+/**
+ * Product catalog table - packaged foods (コンビニ弁当, おにぎり, サンドイッチ...) by barcode,
+ * with the nutrition from their label for the whole package. Shared by all users;
+ * unknown products are added once a user confirms what was read from the photo
+ */
+export const products = mysqlTable("products", {
+  id: int("id").autoincrement().primaryKey(),
+  barcode: varchar("barcode", { length: 13 }).notNull().unique(), // EAN-13 / EAN-8 digits
+  name: varchar("name", { length: 255 }).notNull(),
+  category: mysqlEnum("category", ["japanese", "western", "chinese", "other"]).notNull(),
+  // Per package, as printed on the 栄養成分表示 (null when not on the label)
+  calories: int("calories"), // kcal
+  protein: float("protein"), // g
+  fat: float("fat"), // g
+  carbohydrate: float("carbohydrate"), // g
+  salt: float("salt"), // g (食塩相当量)
+  vegetableGrams: int("vegetableGrams"), // g
+  addedBy: int("addedBy"), // User who confirmed the product (null once their account is deleted)
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = typeof products.$inferInsert;
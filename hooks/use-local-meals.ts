@@ -1,10 +1,11 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useCallback, useEffect, useState } from "react";
+import type { MealType } from "@/shared/const";
 
 export interface LocalMealRecord {
   id: string;
   date: string;
-  mealType: "lunch" | "dinner";
+  mealType: MealType;
   dishName: string;
   category: "japanese" | "western" | "chinese" | "other";
   note?: string;
@@ -102,6 +103,23 @@ export function useLocalMeals() {
     [meals]
   );
 
+  // Get a single meal
+  const getMealById = useCallback(
+    (id: string) => {
+      return meals.find((m) => m.id === id) || null;
+    },
+    [meals]
+  );
+
+  // Update a meal
+  const updateMeal = useCallback(
+    async (id: string, updates: Partial<Omit<LocalMealRecord, "id" | "createdAt">>) => {
+      const newMeals = meals.map((m) => (m.id === id ? { ...m, ...updates } : m));
+      await saveMeals(newMeals);
+    },
+    [meals, saveMeals]
+  );
+
   // Delete a meal
   const deleteMeal = useCallback(
     async (id: string) => {
@@ -130,6 +148,8 @@ export function useLocalMeals() {
     getTodayDinner,
     getRecentMeals,
     getMealsByDateRange,
+    getMealById,
+    updateMeal,
     deleteMeal,
     clearMeals,
     refresh: loadMeals,
@@ -0,0 +1,28 @@
+import { useEffect } from "react";
+import { trpc } from "@/lib/trpc";
+import { DEFAULT_TIME_ZONE, getDateInTimeZone, getDeviceTimeZone } from "@/shared/dates";
+
+/**
+ * Today's date (YYYY-MM-DD) in the user's timezone.
+ * Signed-in users use the timezone saved on their account (the device's zone
+ * is saved the first time); guests use the device's zone.
+ * Until the account's zone is known the server's default applies, as it does
+ * on the server, so "today" checks agree on the first load.
+ */
+export function useToday(isAuthenticated: boolean) {
+  const utils = trpc.useUtils();
+  const { data } = trpc.settings.getTimeZone.useQuery(undefined, { enabled: isAuthenticated });
+  const { mutate: saveTimeZone } = trpc.settings.updateTimeZone.useMutation({
+    onSuccess: () => utils.settings.getTimeZone.invalidate(),
+  });
+
+  const needsTimeZone = isAuthenticated && data !== undefined && data.timezone === null;
+  useEffect(() => {
+    if (needsTimeZone) {
+      saveTimeZone({ timezone: getDeviceTimeZone() });
+    }
+  }, [needsTimeZone, saveTimeZone]);
+
+  const timeZone = isAuthenticated ? (data?.timezone ?? DEFAULT_TIME_ZONE) : getDeviceTimeZone();
+  return { timeZone, today: getDateInTimeZone(timeZone) };
+}
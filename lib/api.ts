@@ -170,3 +170,42 @@ export async function establishSession(token: string): Promise<boolean> {
     return false;
   }
 }
+
+type UploadStatus = { uploadId: string; size: number; offset: number; complete: boolean };
+
+const UPLOAD_CHUNK_BYTES = 512 * 1024;
+const UPLOAD_MAX_RETRIES = 3;
+
+// Send a local photo to /api/uploads in chunks and return the upload id for
+// imageAnalysis.analyzeFood / meals.create. After a network error the server is
+// asked how much it received and the upload continues from there.
+export async function uploadPhoto(uri: string): Promise<string> {
+  const blob = await (await fetch(uri)).blob();
+  const { uploadId } = await apiCall<UploadStatus>("/api/uploads", {
+    method: "POST",
+    body: JSON.stringify({ size: blob.size }),
+  });
+
+  let offset = 0;
+  let failures = 0;
+  while (offset < blob.size) {
+    try {
+      const status = await apiCall<UploadStatus>(`/api/uploads/${uploadId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/octet-stream", "Upload-Offset": String(offset) },
+        body: blob.slice(offset, offset + UPLOAD_CHUNK_BYTES),
+      });
+      offset = status.offset;
+      failures = 0;
+    } catch (error) {
+      failures++;
+      if (failures > UPLOAD_MAX_RETRIES) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * failures));
+      // A rejected upload (wrong type, too large) is gone: report the original error
+      const status = await apiCall<UploadStatus>(`/api/uploads/${uploadId}`).catch(() => null);
+      if (!status) throw error;
+      offset = status.offset;
+    }
+  }
+  return uploadId;
+}
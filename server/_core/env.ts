@@ -7,4 +7,6 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // Days a soft-deleted record stays in the trash before it is purged
+  trashRetentionDays: parseInt(process.env.TRASH_RETENTION_DAYS ?? "", 10) || 30,
 };
@@ -0,0 +1,104 @@
+// Account data archive and self-service account deletion
+
+import type { GroupMember } from "../drizzle/schema";
+import type { ExportFile } from "./data-export";
+import { storageKeyFromUrl } from "./data-export";
+import { storageDelete } from "./storage";
+
+export const OWNED_GROUP_ACTIONS = ["transfer", "delete"] as const;
+export type OwnedGroupActionType = (typeof OWNED_GROUP_ACTIONS)[number];
+
+// What happens to a group the deleted user owns
+export type OwnedGroupAction =
+  | { groupId: number; action: "transfer"; newOwnerId: number }
+  | { groupId: number; action: "delete" };
+
+export type OwnedGroup = {
+  groupId: number;
+  members: Pick<GroupMember, "userId" | "joinedAt">[];
+};
+
+/**
+ * Decide the fate of every owned group. Requested transfers must name another
+ * member; groups without a choice go to the longest-standing other member, or
+ * are deleted when nobody else is left
+ */
+export function resolveOwnedGroupActions(
+  userId: number,
+  ownedGroups: OwnedGroup[],
+  requested: { groupId: number; action: OwnedGroupActionType; newOwnerId?: number }[] = []
+): OwnedGroupAction[] {
+  return ownedGroups.map(group => {
+    const others = group.members
+      .filter(member => member.userId !== userId)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+    const choice = requested.find(r => r.groupId === group.groupId);
+
+    if (choice?.action === "delete") return { groupId: group.groupId, action: "delete" };
+    if (choice?.action === "transfer") {
+      const newOwnerId = choice.newOwnerId ?? others[0]?.userId;
+      if (newOwnerId === undefined || !others.some(member => member.userId === newOwnerId)) {
+        throw new Error(`New owner must be another member of group ${group.groupId}`);
+      }
+      return { groupId: group.groupId, action: "transfer", newOwnerId };
+    }
+
+    return others.length > 0
+      ? { groupId: group.groupId, action: "transfer", newOwnerId: others[0].userId }
+      : { groupId: group.groupId, action: "delete" };
+  });
+}
+
+/**
+ * Distinct storage keys of uploaded photos among the given image URLs
+ */
+export function collectImageKeys(imageUrls: (string | null)[]): string[] {
+  const keys = imageUrls.map(url => (url ? storageKeyFromUrl(url) : null)).filter((key): key is string => key !== null);
+  return Array.from(new Set(keys));
+}
+
+type StoredPhotoUrls = { imageUrl: string | null; thumbnailUrl: string | null };
+
+/**
+ * Storage keys of every photo kept for the account: meal and favorite photos with
+ * their thumbnails, and the photos held by the analysis cache
+ */
+export function collectAccountImageKeys(data: {
+  meals: StoredPhotoUrls[];
+  favorites: StoredPhotoUrls[];
+  imageAnalyses: StoredPhotoUrls[];
+}): string[] {
+  return collectImageKeys(
+    [...data.meals, ...data.favorites, ...data.imageAnalyses].flatMap(r => [r.imageUrl, r.thumbnailUrl])
+  );
+}
+
+/**
+ * Best-effort removal of stored photos; failures are logged so that account
+ * deletion itself is never blocked by storage
+ */
+export async function deleteStoredImages(keys: string[]): Promise<number> {
+  let deleted = 0;
+  for (const key of keys) {
+    try {
+      await storageDelete(key);
+      deleted++;
+    } catch (error) {
+      console.warn(`[account] Failed to delete image ${key}:`, error);
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Everything stored for the account as one JSON file. Photos are listed with
+ * their storage key and a signed download URL
+ */
+export function buildAccountArchive(data: Record<string, unknown>, exportedAt: Date = new Date()): ExportFile {
+  const day = exportedAt.toISOString().slice(0, 10);
+  return {
+    fileName: `meal-log-account_${day}.json`,
+    mimeType: "application/json",
+    content: JSON.stringify({ exportedAt: exportedAt.toISOString(), ...data }, null, 2),
+  };
+}
@@ -0,0 +1,69 @@
+// Monthly food spending aggregation against a budget
+
+import { COST_TYPES, MEAL_TYPES, type CostType, type MealType } from "../shared/const.js";
+import type { MealRecord } from "../drizzle/schema";
+
+type MealCategory = MealRecord["category"];
+
+export type PricedMeal = Pick<MealRecord, "date" | "mealType" | "category" | "price" | "costType">;
+
+export type DailySpend = { date: string } & Record<CostType, number> & { total: number };
+
+/**
+ * First and last day (YYYY-MM-DD) of a YYYY-MM month
+ */
+export function getMonthRange(month: string): { startDate: string; endDate: string; days: string[] } {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const dayCount = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const days = Array.from({ length: dayCount }, (_, i) => `${month}-${String(i + 1).padStart(2, "0")}`);
+  return { startDate: days[0], endDate: days[days.length - 1], days };
+}
+
+const emptyCostTypes = (): Record<CostType, number> =>
+  Object.fromEntries(COST_TYPES.map(t => [t, 0])) as Record<CostType, number>;
+
+/**
+ * Spend per day, cost type, category and meal type for one month.
+ * Meals without a price are ignored; a price without a cost type counts as home-cooked
+ */
+export function summarizeSpending(meals: PricedMeal[], month: string, budget: number | null) {
+  const { startDate, endDate, days } = getMonthRange(month);
+
+  const daily: Record<string, DailySpend> = {};
+  days.forEach(date => {
+    daily[date] = { date, ...emptyCostTypes(), total: 0 };
+  });
+  const byCostType = emptyCostTypes();
+  const byCategory: Record<MealCategory, number> = { japanese: 0, western: 0, chinese: 0, other: 0 };
+  const byMealType = Object.fromEntries(MEAL_TYPES.map(t => [t, 0])) as Record<MealType, number>;
+
+  let totalSpend = 0;
+  let pricedMeals = 0;
+  meals.forEach(meal => {
+    if (meal.price == null || !daily[meal.date]) return;
+    const costType = meal.costType ?? "home_cooked";
+    totalSpend += meal.price;
+    pricedMeals++;
+    daily[meal.date][costType] += meal.price;
+    daily[meal.date].total += meal.price;
+    byCostType[costType] += meal.price;
+    byCategory[meal.category] += meal.price;
+    byMealType[meal.mealType] += meal.price;
+  });
+
+  return {
+    month,
+    startDate,
+    endDate,
+    budget,
+    totalSpend,
+    remaining: budget !== null ? budget - totalSpend : null,
+    // Percentage of the budget used so far
+    usageRate: budget ? Math.round((totalSpend / budget) * 100) : null,
+    pricedMeals,
+    byCostType,
+    byCategory,
+    byMealType,
+    daily: days.map(date => daily[date]),
+  };
+}
@@ -0,0 +1,221 @@
+// Export of meal history, favorites and pantry as CSV, JSON and iCalendar
+
+import type { MealType } from "../shared/const.js";
+import type { FavoriteMeal, PantryInventory } from "../drizzle/schema";
+import type { MealRecordWithItems } from "./db";
+import { storageGet } from "./storage";
+
+export const EXPORT_FORMATS = ["csv", "json", "ics"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportFile = {
+  fileName: string;
+  mimeType: string;
+  content: string;
+};
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+function escapeCsv(value: CsvValue): string {
+  if (value == null) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a header row; rows are objects keyed by column name
+ */
+export function toCsv<T extends Record<string, unknown>>(columns: (keyof T & string)[], rows: T[]): string {
+  const lines = [columns.join(","), ...rows.map(row => columns.map(column => escapeCsv(row[column] as CsvValue)).join(","))];
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Storage key of an uploaded meal photo (`meals/<userId>/<file>`), or null
+ * for images that did not come from our storage
+ */
+export function storageKeyFromUrl(url: string): string | null {
+  const match = url.match(/(meals\/\d+\/[^?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Replace stored image URLs with freshly signed download URLs. Falls back to
+ * the stored URL when signing fails (e.g. storage is not configured)
+ */
+export async function signImageUrls<T extends { imageUrl: string | null }>(records: T[]): Promise<T[]> {
+  return Promise.all(
+    records.map(async record => {
+      const key = record.imageUrl ? storageKeyFromUrl(record.imageUrl) : null;
+      if (!key) return record;
+      try {
+        const { url } = await storageGet(key);
+        return { ...record, imageUrl: url };
+      } catch {
+        return record;
+      }
+    })
+  );
+}
+
+const MEAL_COLUMNS = [
+  "id",
+  "date",
+  "mealType",
+  "dishName",
+  "category",
+  "items",
+  "note",
+  "tags",
+  "calories",
+  "protein",
+  "fat",
+  "carbohydrate",
+  "salt",
+  "vegetableGrams",
+  "rating",
+  "wouldEatAgain",
+  "price",
+  "costType",
+  "source",
+  "venueName",
+  "latitude",
+  "longitude",
+  "imageUrl",
+  "createdAt",
+] as const;
+
+export function mealsToCsv(meals: MealRecordWithItems[]): string {
+  return toCsv(
+    [...MEAL_COLUMNS],
+    meals.map(meal => ({
+      ...meal,
+      // Dishes within the meal and tags are joined into one cell
+      items: meal.items.map(item => item.dishName).join(" / "),
+      tags: (meal.tags ?? []).join(" "),
+    }))
+  );
+}
+
+export function favoritesToCsv(favorites: FavoriteMeal[]): string {
+  return toCsv(["id", "dishName", "category", "note", "imageUrl", "usageCount", "lastUsedAt", "createdAt"], favorites);
+}
+
+export function pantryToCsv(items: PantryInventory[]): string {
+  return toCsv(
+    ["id", "ingredientName", "quantity", "unit", "category", "expiryDate", "lowStockAlert", "createdAt"],
+    items
+  );
+}
+
+// Calendar events use a typical time for each meal type (local floating time)
+const MEAL_EVENT_TIMES: Record<MealType, { start: string; end: string }> = {
+  breakfast: { start: "073000", end: "080000" },
+  lunch: { start: "120000", end: "130000" },
+  dinner: { start: "190000", end: "200000" },
+  snack: { start: "150000", end: "151500" },
+};
+
+const MEAL_TYPE_NAMES: Record<MealType, string> = {
+  breakfast: "朝食",
+  lunch: "昼食",
+  dinner: "夕食",
+  snack: "間食",
+};
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545: lines longer than 75 octets are folded with CRLF + space
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatIcsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * iCalendar file with one event per meal
+ */
+export function mealsToIcs(meals: MealRecordWithItems[], generatedAt: Date = new Date()): string {
+  const stamp = formatIcsTimestamp(generatedAt);
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Meal Log//Export//JA", "CALSCALE:GREGORIAN", "X-WR-CALNAME:食事記録"];
+
+  meals.forEach(meal => {
+    const day = meal.date.replace(/-/g, "");
+    const time = MEAL_EVENT_TIMES[meal.mealType];
+    const description = [
+      meal.items.length > 1 ? meal.items.map(item => item.dishName).join(" / ") : null,
+      meal.calories != null ? `${meal.calories}kcal` : null,
+      meal.note,
+    ].filter(Boolean).join("\n");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:meal-${meal.id}@meal-log`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${day}T${time.start}`,
+      `DTEND:${day}T${time.end}`,
+      `SUMMARY:${escapeIcsText(`${MEAL_TYPE_NAMES[meal.mealType]}: ${meal.dishName}`)}`
+    );
+    if (description) lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+    if (meal.venueName) lines.push(`LOCATION:${escapeIcsText(meal.venueName)}`);
+    if (meal.latitude != null && meal.longitude != null) lines.push(`GEO:${meal.latitude};${meal.longitude}`);
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+export type ExportData = {
+  startDate: string;
+  endDate: string;
+  meals: MealRecordWithItems[];
+  favorites: FavoriteMeal[];
+  pantry: PantryInventory[];
+};
+
+/**
+ * Files for one export format. The date range limits meals; favorites and
+ * pantry are exported in full
+ */
+export function buildExportFiles(format: ExportFormat, data: ExportData): ExportFile[] {
+  const suffix = `${data.startDate}_${data.endDate}`;
+  switch (format) {
+    case "csv":
+      return [
+        { fileName: `meals_${suffix}.csv`, mimeType: "text/csv", content: mealsToCsv(data.meals) },
+        { fileName: "favorites.csv", mimeType: "text/csv", content: favoritesToCsv(data.favorites) },
+        { fileName: "pantry.csv", mimeType: "text/csv", content: pantryToCsv(data.pantry) },
+      ];
+    case "json":
+      return [
+        {
+          fileName: `meal-log_${suffix}.json`,
+          mimeType: "application/json",
+          content: JSON.stringify(data, null, 2),
+        },
+      ];
+    case "ics":
+      return [{ fileName: `meals_${suffix}.ics`, mimeType: "text/calendar", content: mealsToIcs(data.meals) }];
+  }
+}
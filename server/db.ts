@@ -1,9 +1,14 @@
-import { and, desc, eq, inArray } from "drizzle-orm";
+import { and, count, desc, eq, inArray, isNull, like, or, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users, mealRecords, InsertMealRecord, MealRecord, groups, groupMembers, InsertGroup, InsertGroupMember, Group, GroupMember } from "../drizzle/schema";
+import { InsertUser, users, mealRecords, InsertMealRecord, MealRecord, mealItems, InsertMealItem, MealItem, groups, groupMembers, InsertGroup, InsertGroupMember, Group, GroupMember } from "../drizzle/schema";
 import { ENV } from "./_core/env";
+import type { MealType, NutritionKey } from "../shared/const";
+import type { FoodAnalysis } from "../shared/food-analysis";
+import { hasOnlyOwnDishItem } from "../shared/meal-items";
+import { expandSearchTermForStoredText, type MealSearchFacets } from "../shared/search";
 
 let _db: ReturnType<typeof drizzle> | null = null;
+type DbTransaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
 
 // Lazily create the drizzle instance so local tooling can run without a DB.
 export async function getDb() {
@@ -107,46 +112,172 @@ export async function updateUserNotificationSettings(userId: number, enabled: bo
   }).where(eq(users.id, userId));
 }
 
+export async function updateUserTrackedMealTypes(userId: number, trackedMealTypes: MealType[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users).set({
+    trackedMealTypes,
+  }).where(eq(users.id, userId));
+}
+
+export async function updateUserMonthlyBudget(userId: number, monthlyFoodBudget: number | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users).set({
+    monthlyFoodBudget,
+  }).where(eq(users.id, userId));
+}
+
+export async function updateUserTimeZone(userId: number, timezone: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users).set({
+    timezone,
+  }).where(eq(users.id, userId));
+}
+
 // Meal record queries
 
-export async function createMealRecord(data: InsertMealRecord): Promise<number> {
+export type MealItemInput = Pick<InsertMealItem, "dishName" | "category" | "portion" | "confidence" | "boundingBox">;
+export type MealRecordWithItems = MealRecord & { items: MealItem[] };
+
+/**
+ * Create a meal record together with its dishes.
+ * When no items are given the record's own dish is stored as the single item.
+ */
+export async function createMealRecord(data: InsertMealRecord, items?: MealItemInput[]): Promise<number> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const result = await db.insert(mealRecords).values(data);
-  return Number(result[0].insertId);
+  const dishes = items && items.length > 0
+    ? items
+    : [{ dishName: data.dishName, category: data.category }];
+
+  // A record is never left without its items
+  return db.transaction(async (tx) => {
+    const result = await tx.insert(mealRecords).values(data);
+    const id = Number(result[0].insertId);
+
+    await tx.insert(mealItems).values(
+      dishes.map((item, index) => ({
+        mealRecordId: id,
+        dishName: item.dishName,
+        category: item.category,
+        portion: item.portion ?? null,
+        confidence: item.confidence ?? null,
+        boundingBox: item.boundingBox ?? null,
+        sortOrder: index,
+      }))
+    );
+
+    return id;
+  });
 }
 
-export async function getMealsByDate(userId: number, date: string): Promise<MealRecord[]> {
+/**
+ * Insert many meal records (each with itself as the single item) in one
+ * transaction: either every row is stored or none is
+ */
+export async function createMealRecordsInTransaction(records: InsertMealRecord[]): Promise<number> {
   const db = await getDb();
-  if (!db) return [];
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    for (const data of records) {
+      const result = await tx.insert(mealRecords).values(data);
+      await tx.insert(mealItems).values({
+        mealRecordId: Number(result[0].insertId),
+        dishName: data.dishName,
+        category: data.category,
+        sortOrder: 0,
+      });
+    }
+  });
+  return records.length;
+}
+
+export async function getMealItems(mealRecordIds: number[]): Promise<MealItem[]> {
+  const db = await getDb();
+  if (!db || mealRecordIds.length === 0) return [];
 
   return db
+    .select()
+    .from(mealItems)
+    .where(inArray(mealItems.mealRecordId, mealRecordIds))
+    .orderBy(mealItems.mealRecordId, mealItems.sortOrder);
+}
+
+async function withMealItems<T extends MealRecord>(meals: T[]): Promise<(T & { items: MealItem[] })[]> {
+  const items = await getMealItems(meals.map(m => m.id));
+  return meals.map(meal => ({
+    ...meal,
+    items: items.filter(item => item.mealRecordId === meal.id),
+  }));
+}
+
+/**
+ * Replace every dish of a meal record (used when the user edits the item list)
+ */
+export async function replaceMealItems(mealRecordId: number, items: MealItemInput[]): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(tx => writeMealItems(tx, mealRecordId, items));
+}
+
+async function writeMealItems(tx: DbTransaction, mealRecordId: number, items: MealItemInput[]): Promise<void> {
+  await tx.delete(mealItems).where(eq(mealItems.mealRecordId, mealRecordId));
+  if (items.length === 0) return;
+
+  await tx.insert(mealItems).values(
+    items.map((item, index) => ({
+      mealRecordId,
+      dishName: item.dishName,
+      category: item.category,
+      portion: item.portion ?? null,
+      confidence: item.confidence ?? null,
+      boundingBox: item.boundingBox ?? null,
+      sortOrder: index,
+    }))
+  );
+}
+
+export async function getMealsByDate(userId: number, date: string): Promise<MealRecordWithItems[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const meals = await db
     .select()
     .from(mealRecords)
-    .where(and(eq(mealRecords.userId, userId), eq(mealRecords.date, date)));
+    .where(and(eq(mealRecords.userId, userId), eq(mealRecords.date, date), isNull(mealRecords.deletedAt)));
+  return withMealItems(meals);
 }
 
 export async function getMealsByDateRange(
   userId: number,
   startDate: string,
   endDate: string
-): Promise<MealRecord[]> {
+): Promise<MealRecordWithItems[]> {
   const db = await getDb();
   if (!db) return [];
 
   const { gte, lte } = await import("drizzle-orm");
-  return db
+  const meals = await db
     .select()
     .from(mealRecords)
     .where(
       and(
         eq(mealRecords.userId, userId),
         gte(mealRecords.date, startDate),
-        lte(mealRecords.date, endDate)
+        lte(mealRecords.date, endDate),
+        isNull(mealRecords.deletedAt)
       )
     )
     .orderBy(desc(mealRecords.date));
+  return withMealItems(meals);
 }
 
 export async function getRecentMeals(userId: number, limit: number = 10): Promise<MealRecord[]> {
@@ -156,11 +287,192 @@ export async function getRecentMeals(userId: number, limit: number = 10): Promis
   return db
     .select()
     .from(mealRecords)
-    .where(eq(mealRecords.userId, userId))
+    .where(and(eq(mealRecords.userId, userId), isNull(mealRecords.deletedAt)))
     .orderBy(desc(mealRecords.date), desc(mealRecords.createdAt))
     .limit(limit);
 }
 
+export type MealPageCursor = { date: string; id: number };
+
+/**
+ * Cursor-paginated meal history, newest first (ordered by date, then id)
+ */
+export async function getMealsPage(
+  userId: number,
+  options: {
+    cursor?: MealPageCursor | null;
+    limit: number;
+    mealType?: MealType;
+    category?: MealRecord["category"];
+  }
+): Promise<{ items: MealRecordWithItems[]; nextCursor: MealPageCursor | null }> {
+  const db = await getDb();
+  if (!db) return { items: [], nextCursor: null };
+
+  const { lt, or } = await import("drizzle-orm");
+  const conditions = [eq(mealRecords.userId, userId), isNull(mealRecords.deletedAt)];
+  if (options.mealType) conditions.push(eq(mealRecords.mealType, options.mealType));
+  if (options.category) conditions.push(eq(mealRecords.category, options.category));
+  if (options.cursor) {
+    const { date, id } = options.cursor;
+    conditions.push(
+      or(lt(mealRecords.date, date), and(eq(mealRecords.date, date), lt(mealRecords.id, id)))!
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select()
+    .from(mealRecords)
+    .where(and(...conditions))
+    .orderBy(desc(mealRecords.date), desc(mealRecords.id))
+    .limit(options.limit + 1);
+
+  const hasMore = rows.length > options.limit;
+  const page = hasMore ? rows.slice(0, options.limit) : rows;
+  const last = page[page.length - 1];
+
+  return {
+    items: await withMealItems(page),
+    nextCursor: hasMore && last ? { date: last.date, id: last.id } : null,
+  };
+}
+
+/**
+ * Every meal of a user (newest first) for in-memory search; see shared/search.ts
+ */
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, ch => `\\${ch}`);
+
+/**
+ * Search a user's meals (newest first) in SQL; guest mode uses searchMeals from
+ * shared/search on its local records. Every whitespace-separated term must match
+ * dishName, note or an item name in one of its spellings. Case and full/half-width
+ * folding is left to the column collation. Facets count every match so that
+ * narrowing by category or month doesn't hide the other choices.
+ */
+export async function searchMealRecords(
+  userId: number,
+  query: string,
+  options: { category?: MealRecord["category"]; month?: string; limit: number }
+): Promise<{ results: MealRecordWithItems[]; total: number; facets: MealSearchFacets }> {
+  const db = await getDb();
+  const terms = query.split(/\s+/).filter(Boolean);
+  if (!db || terms.length === 0) return { results: [], total: 0, facets: { categories: {}, months: [] } };
+
+  const termConditions = terms.map(term =>
+    or(
+      ...expandSearchTermForStoredText(term).flatMap(spelling => {
+        const pattern = `%${escapeLike(spelling)}%`;
+        return [
+          like(mealRecords.dishName, pattern),
+          like(mealRecords.note, pattern),
+          sql`exists (select 1 from ${mealItems} where ${mealItems.mealRecordId} = ${mealRecords.id} and ${mealItems.dishName} like ${pattern})`,
+        ];
+      })
+    )
+  );
+  const matched = and(eq(mealRecords.userId, userId), isNull(mealRecords.deletedAt), ...termConditions);
+  const filtered = and(
+    matched,
+    options.category ? eq(mealRecords.category, options.category) : undefined,
+    options.month ? like(mealRecords.date, `${options.month}-%`) : undefined
+  );
+  const month = sql<string>`substring(${mealRecords.date}, 1, 7)`;
+
+  const [categoryRows, monthRows, [totalRow], meals] = await Promise.all([
+    db.select({ category: mealRecords.category, count: count() }).from(mealRecords).where(matched).groupBy(mealRecords.category),
+    db.select({ month, count: count() }).from(mealRecords).where(matched).groupBy(month).orderBy(desc(month)),
+    db.select({ total: count() }).from(mealRecords).where(filtered),
+    db
+      .select()
+      .from(mealRecords)
+      .where(filtered)
+      .orderBy(desc(mealRecords.date), desc(mealRecords.id))
+      .limit(options.limit),
+  ]);
+
+  return {
+    results: await withMealItems(meals),
+    total: totalRow?.total ?? 0,
+    facets: {
+      categories: Object.fromEntries(categoryRows.map(row => [row.category, row.count])),
+      months: monthRows.map(row => ({ month: row.month, count: row.count })),
+    },
+  };
+}
+
+/**
+ * Tags a user has used, most frequent first (for input suggestions)
+ */
+export async function getUserTags(userId: number): Promise<string[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ tags: mealRecords.tags })
+    .from(mealRecords)
+    .where(and(eq(mealRecords.userId, userId), isNull(mealRecords.deletedAt)));
+
+  const counts: Record<string, number> = {};
+  rows.forEach(row => (row.tags ?? []).forEach(tag => {
+    counts[tag] = (counts[tag] ?? 0) + 1;
+  }));
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+}
+
+/**
+ * Rated meals of the given users (newest first), for taste-aware recommendations
+ */
+export async function getRatedMeals(
+  userIds: number[],
+  limit: number = 300
+): Promise<Pick<MealRecord, "dishName" | "rating" | "wouldEatAgain">[]> {
+  const db = await getDb();
+  if (!db || userIds.length === 0) return [];
+
+  const { isNotNull, or } = await import("drizzle-orm");
+  return db
+    .select({
+      dishName: mealRecords.dishName,
+      rating: mealRecords.rating,
+      wouldEatAgain: mealRecords.wouldEatAgain,
+    })
+    .from(mealRecords)
+    .where(
+      and(
+        inArray(mealRecords.userId, userIds),
+        isNull(mealRecords.deletedAt),
+        or(isNotNull(mealRecords.rating), isNotNull(mealRecords.wouldEatAgain))
+      )
+    )
+    .orderBy(desc(mealRecords.date), desc(mealRecords.id))
+    .limit(limit);
+}
+
+/**
+ * Latest meals with a venue (newest first); see collectRecentVenues
+ */
+export async function getVenueMeals(
+  userId: number,
+  limit: number = 100
+): Promise<Pick<MealRecord, "source" | "venueName" | "latitude" | "longitude">[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const { isNotNull } = await import("drizzle-orm");
+  return db
+    .select({
+      source: mealRecords.source,
+      venueName: mealRecords.venueName,
+      latitude: mealRecords.latitude,
+      longitude: mealRecords.longitude,
+    })
+    .from(mealRecords)
+    .where(and(eq(mealRecords.userId, userId), isNull(mealRecords.deletedAt), isNotNull(mealRecords.venueName)))
+    .orderBy(desc(mealRecords.date), desc(mealRecords.id))
+    .limit(limit);
+}
+
 export async function getTodayLunch(userId: number, date: string): Promise<MealRecord | null> {
   const db = await getDb();
   if (!db) return null;
@@ -172,7 +484,8 @@ export async function getTodayLunch(userId: number, date: string): Promise<MealR
       and(
         eq(mealRecords.userId, userId),
         eq(mealRecords.date, date),
-        eq(mealRecords.mealType, "lunch")
+        eq(mealRecords.mealType, "lunch"),
+        isNull(mealRecords.deletedAt)
       )
     )
     .limit(1);
@@ -180,11 +493,74 @@ export async function getTodayLunch(userId: number, date: string): Promise<MealR
   return result.length > 0 ? result[0] : null;
 }
 
+export async function getMealRecordById(id: number, userId: number): Promise<MealRecordWithItems | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(mealRecords)
+    .where(and(eq(mealRecords.id, id), eq(mealRecords.userId, userId), isNull(mealRecords.deletedAt)))
+    .limit(1);
+
+  if (result.length === 0) return null;
+  const [meal] = await withMealItems(result);
+  return meal;
+}
+
+export async function updateMealRecord(
+  id: number,
+  userId: number,
+  data: Partial<Pick<InsertMealRecord, "date" | "mealType" | "dishName" | "category" | "note" | "imageUrl" | "imageKey" | "thumbnailUrl" | "thumbnailKey" | "customCategoryId" | "tags" | "rating" | "wouldEatAgain" | "price" | "costType" | "source" | "venueName" | "latitude" | "longitude" | "leftoverPortions" | NutritionKey>>,
+  items?: MealItemInput[]
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Verify ownership
+  const existing = await getMealRecordById(id, userId);
+  if (!existing) {
+    throw new Error("Meal record not found");
+  }
+
+  // Without a new list, the record's own dish item is renamed along with it
+  const renamed = data.dishName !== undefined || data.category !== undefined;
+  const newItems = items ?? (renamed && hasOnlyOwnDishItem(existing)
+    ? [{ dishName: data.dishName ?? existing.dishName, category: data.category ?? existing.category }]
+    : undefined);
+
+  // Drop undefined keys so omitted fields keep their current value
+  const updateSet = Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  );
+
+  await db.transaction(async (tx) => {
+    if (newItems) {
+      await writeMealItems(tx, id, newItems);
+    }
+    if (Object.keys(updateSet).length === 0) return;
+
+    await tx
+      .update(mealRecords)
+      .set(updateSet)
+      .where(and(eq(mealRecords.id, id), eq(mealRecords.userId, userId)));
+  });
+}
+
+/**
+ * Moves a meal record to the trash; its items are kept until it is restored or purged
+ */
 export async function deleteMealRecord(id: number, userId: number): Promise<void> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  await db.delete(mealRecords).where(and(eq(mealRecords.id, id), eq(mealRecords.userId, userId)));
+  const existing = await getMealRecordById(id, userId);
+  if (!existing) return;
+
+  await db
+    .update(mealRecords)
+    .set({ deletedAt: new Date() })
+    .where(and(eq(mealRecords.id, id), eq(mealRecords.userId, userId)));
 }
 
 // Group queries
@@ -326,6 +702,10 @@ export async function deleteGroup(groupId: number, ownerId: number): Promise<voi
     throw new Error("Not authorized to delete this group");
   }
 
+  // Plans for the group stay with whoever made them
+  const { mealPlans } = await import("../drizzle/schema");
+  await db.update(mealPlans).set({ groupId: null }).where(eq(mealPlans.groupId, groupId));
+
   // Delete all members first
   await db.delete(groupMembers).where(eq(groupMembers.groupId, groupId));
   
@@ -333,7 +713,49 @@ export async function deleteGroup(groupId: number, ownerId: number): Promise<voi
   await db.delete(groups).where(eq(groups.id, groupId));
 }
 
-export async function getGroupMealsForDate(groupId: number, date: string): Promise<(MealRecord & { userName: string | null })[]> {
+export async function updateGroupMonthlyBudget(groupId: number, ownerId: number, monthlyFoodBudget: number | null): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Only the owner manages the shared budget
+  const group = await getGroupById(groupId);
+  if (!group || group.ownerId !== ownerId) {
+    throw new Error("Not authorized to update this group");
+  }
+
+  await db.update(groups).set({ monthlyFoodBudget }).where(eq(groups.id, groupId));
+}
+
+/**
+ * Every member's meals in a date range (for the shared food budget)
+ */
+export async function getGroupMealsByDateRange(groupId: number, startDate: string, endDate: string): Promise<MealRecord[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const members = await db
+    .select()
+    .from(groupMembers)
+    .where(eq(groupMembers.groupId, groupId));
+  const userIds = members.map(m => m.userId);
+  if (userIds.length === 0) return [];
+
+  const { gte, lte } = await import("drizzle-orm");
+  return db
+    .select()
+    .from(mealRecords)
+    .where(
+      and(
+        inArray(mealRecords.userId, userIds),
+        gte(mealRecords.date, startDate),
+        lte(mealRecords.date, endDate),
+        isNull(mealRecords.deletedAt)
+      )
+    )
+    .orderBy(desc(mealRecords.date));
+}
+
+export async function getGroupMealsForDate(groupId: number, date: string): Promise<(MealRecordWithItems & { userName: string | null })[]> {
   const db = await getDb();
   if (!db) return [];
 
@@ -350,7 +772,7 @@ export async function getGroupMealsForDate(groupId: number, date: string): Promi
   const meals = await db
     .select()
     .from(mealRecords)
-    .where(and(inArray(mealRecords.userId, userIds), eq(mealRecords.date, date)));
+    .where(and(inArray(mealRecords.userId, userIds), eq(mealRecords.date, date), isNull(mealRecords.deletedAt)));
 
   // Get user names
   const usersResult = await db
@@ -358,7 +780,8 @@ export async function getGroupMealsForDate(groupId: number, date: string): Promi
     .from(users)
     .where(inArray(users.id, userIds));
 
-  return meals.map(meal => ({
+  const mealsWithItems = await withMealItems(meals);
+  return mealsWithItems.map(meal => ({
     ...meal,
     userName: usersResult.find(u => u.id === meal.userId)?.name || null,
   }));
@@ -374,7 +797,7 @@ export async function getFavoriteMeals(userId: number) {
   return await db
     .select()
     .from(favoriteMeals)
-    .where(eq(favoriteMeals.userId, userId))
+    .where(and(eq(favoriteMeals.userId, userId), isNull(favoriteMeals.deletedAt)))
     .orderBy(desc(favoriteMeals.lastUsedAt));
 }
 
@@ -384,6 +807,9 @@ export async function createFavoriteMeal(data: {
   category: string;
   note: string | null;
   imageUrl: string | null;
+  imageKey?: string | null;
+  thumbnailUrl?: string | null;
+  thumbnailKey?: string | null;
 }): Promise<number> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -399,8 +825,9 @@ export async function deleteFavoriteMeal(id: number, userId: number) {
 
   const { favoriteMeals } = await import("../drizzle/schema");
   await db
-    .delete(favoriteMeals)
-    .where(and(eq(favoriteMeals.id, id), eq(favoriteMeals.userId, userId)));
+    .update(favoriteMeals)
+    .set({ deletedAt: new Date() })
+    .where(and(eq(favoriteMeals.id, id), eq(favoriteMeals.userId, userId), isNull(favoriteMeals.deletedAt)));
 }
 
 export async function incrementFavoriteUsage(id: number, userId: number) {
@@ -411,7 +838,7 @@ export async function incrementFavoriteUsage(id: number, userId: number) {
   const favorite = await db
     .select()
     .from(favoriteMeals)
-    .where(and(eq(favoriteMeals.id, id), eq(favoriteMeals.userId, userId)))
+    .where(and(eq(favoriteMeals.id, id), eq(favoriteMeals.userId, userId), isNull(favoriteMeals.deletedAt)))
     .limit(1);
 
   if (favorite.length > 0) {
@@ -432,7 +859,7 @@ export async function getPantryInventory(userId: number, groupId?: number) {
   if (!db) return [];
 
   const { pantryInventory } = await import("../drizzle/schema");
-  const conditions = [eq(pantryInventory.userId, userId)];
+  const conditions = [eq(pantryInventory.userId, userId), isNull(pantryInventory.deletedAt)];
   if (groupId) {
     conditions.push(eq(pantryInventory.groupId, groupId));
   }
@@ -478,7 +905,7 @@ export async function updatePantryItem(
   await db
     .update(pantryInventory)
     .set(data as any)
-    .where(and(eq(pantryInventory.id, id), eq(pantryInventory.userId, userId)));
+    .where(and(eq(pantryInventory.id, id), eq(pantryInventory.userId, userId), isNull(pantryInventory.deletedAt)));
 }
 
 export async function deletePantryItem(id: number, userId: number) {
@@ -487,8 +914,9 @@ export async function deletePantryItem(id: number, userId: number) {
 
   const { pantryInventory } = await import("../drizzle/schema");
   await db
-    .delete(pantryInventory)
-    .where(and(eq(pantryInventory.id, id), eq(pantryInventory.userId, userId)));
+    .update(pantryInventory)
+    .set({ deletedAt: new Date() })
+    .where(and(eq(pantryInventory.id, id), eq(pantryInventory.userId, userId), isNull(pantryInventory.deletedAt)));
 }
 
 // ==================== v0.6: Guest Data Migration ====================
@@ -496,7 +924,7 @@ export async function deletePantryItem(id: number, userId: number) {
 export async function getMealRecordByDateAndType(
   userId: number,
   date: string,
-  mealType: "lunch" | "dinner"
+  mealType: MealType
 ) {
   const db = await getDb();
   if (!db) return null;
@@ -508,10 +936,839 @@ export async function getMealRecordByDateAndType(
       and(
         eq(mealRecords.userId, userId),
         eq(mealRecords.date, date),
-        eq(mealRecords.mealType, mealType)
+        eq(mealRecords.mealType, mealType),
+        isNull(mealRecords.deletedAt)
       )
     )
     .limit(1);
 
   return result.length > 0 ? result[0] : null;
 }
+
+// ==================== v0.7: Custom Categories ====================
+
+export async function getCustomCategories(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const { customCategories } = await import("../drizzle/schema");
+  return await db
+    .select()
+    .from(customCategories)
+    .where(eq(customCategories.userId, userId))
+    .orderBy(customCategories.createdAt);
+}
+
+export async function getCustomCategoryById(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const { customCategories } = await import("../drizzle/schema");
+  const result = await db
+    .select()
+    .from(customCategories)
+    .where(and(eq(customCategories.id, id), eq(customCategories.userId, userId)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createCustomCategory(data: {
+  userId: number;
+  name: string;
+  color: string;
+  icon: string;
+}): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { customCategories } = await import("../drizzle/schema");
+  const result = await db.insert(customCategories).values(data);
+  return Number(result[0].insertId);
+}
+
+export async function updateCustomCategory(
+  id: number,
+  userId: number,
+  data: { name?: string; color?: string; icon?: string }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { customCategories } = await import("../drizzle/schema");
+  await db
+    .update(customCategories)
+    .set(data)
+    .where(and(eq(customCategories.id, id), eq(customCategories.userId, userId)));
+}
+
+export async function deleteCustomCategory(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getCustomCategoryById(id, userId);
+  if (!existing) {
+    throw new Error("Category not found");
+  }
+
+  // Meals in the deleted category fall back to their built-in category
+  const { customCategories } = await import("../drizzle/schema");
+  await db
+    .update(mealRecords)
+    .set({ customCategoryId: null })
+    .where(and(eq(mealRecords.userId, userId), eq(mealRecords.customCategoryId, id)));
+  await db.delete(customCategories).where(eq(customCategories.id, id));
+}
+
+// ==================== v0.7: Trash ====================
+
+export async function getTrash(userId: number) {
+  const db = await getDb();
+  if (!db) return { meals: [], favorites: [], pantryItems: [] };
+
+  const { isNotNull } = await import("drizzle-orm");
+  const { favoriteMeals, pantryInventory } = await import("../drizzle/schema");
+  const meals = await db
+    .select()
+    .from(mealRecords)
+    .where(and(eq(mealRecords.userId, userId), isNotNull(mealRecords.deletedAt)))
+    .orderBy(desc(mealRecords.deletedAt));
+  const favorites = await db
+    .select()
+    .from(favoriteMeals)
+    .where(and(eq(favoriteMeals.userId, userId), isNotNull(favoriteMeals.deletedAt)))
+    .orderBy(desc(favoriteMeals.deletedAt));
+  const pantryItems = await db
+    .select()
+    .from(pantryInventory)
+    .where(and(eq(pantryInventory.userId, userId), isNotNull(pantryInventory.deletedAt)))
+    .orderBy(desc(pantryInventory.deletedAt));
+
+  return { meals: await withMealItems(meals), favorites, pantryItems };
+}
+
+export async function restoreMealRecord(id: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { isNotNull } = await import("drizzle-orm");
+  const result = await db
+    .update(mealRecords)
+    .set({ deletedAt: null })
+    .where(and(eq(mealRecords.id, id), eq(mealRecords.userId, userId), isNotNull(mealRecords.deletedAt)));
+  if (result[0].affectedRows === 0) {
+    throw new Error("Meal record not found in trash");
+  }
+}
+
+export async function restoreFavoriteMeal(id: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { isNotNull } = await import("drizzle-orm");
+  const { favoriteMeals } = await import("../drizzle/schema");
+  const result = await db
+    .update(favoriteMeals)
+    .set({ deletedAt: null })
+    .where(and(eq(favoriteMeals.id, id), eq(favoriteMeals.userId, userId), isNotNull(favoriteMeals.deletedAt)));
+  if (result[0].affectedRows === 0) {
+    throw new Error("Favorite meal not found in trash");
+  }
+}
+
+export async function restorePantryItem(id: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { isNotNull } = await import("drizzle-orm");
+  const { pantryInventory } = await import("../drizzle/schema");
+  const result = await db
+    .update(pantryInventory)
+    .set({ deletedAt: null })
+    .where(and(eq(pantryInventory.id, id), eq(pantryInventory.userId, userId), isNotNull(pantryInventory.deletedAt)));
+  if (result[0].affectedRows === 0) {
+    throw new Error("Pantry item not found in trash");
+  }
+}
+
+export type TrashPurgeResult = { meals: number; favorites: number; pantryItems: number };
+
+// Photo URLs of purged rows that no remaining meal or favorite uses, for the caller to remove from storage
+export type TrashPurge = TrashPurgeResult & { imageUrls: string[] };
+
+/**
+ * Permanently deletes trashed rows, optionally limited to one user and/or to
+ * rows trashed before a cutoff
+ */
+async function purgeTrash(options: { userId?: number; deletedBefore?: Date }): Promise<TrashPurge> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { isNotNull, lt } = await import("drizzle-orm");
+  const { favoriteMeals, imageAnalyses, mealPlans, pantryInventory } = await import("../drizzle/schema");
+  const { userId, deletedBefore } = options;
+
+  const mealConditions = [isNotNull(mealRecords.deletedAt)];
+  if (userId !== undefined) mealConditions.push(eq(mealRecords.userId, userId));
+  if (deletedBefore) mealConditions.push(lt(mealRecords.deletedAt, deletedBefore));
+
+  const favoriteConditions = [isNotNull(favoriteMeals.deletedAt)];
+  if (userId !== undefined) favoriteConditions.push(eq(favoriteMeals.userId, userId));
+  if (deletedBefore) favoriteConditions.push(lt(favoriteMeals.deletedAt, deletedBefore));
+
+  const pantryConditions = [isNotNull(pantryInventory.deletedAt)];
+  if (userId !== undefined) pantryConditions.push(eq(pantryInventory.userId, userId));
+  if (deletedBefore) pantryConditions.push(lt(pantryInventory.deletedAt, deletedBefore));
+
+  return db.transaction(async (tx) => {
+    const purgedMeals = await tx
+      .select({ id: mealRecords.id, imageUrl: mealRecords.imageUrl, thumbnailUrl: mealRecords.thumbnailUrl })
+      .from(mealRecords)
+      .where(and(...mealConditions));
+    const mealIds = purgedMeals.map(meal => meal.id);
+    if (mealIds.length > 0) {
+      // Plans, leftovers and meals made from leftovers keep their rows but lose the link
+      await tx.update(mealPlans).set({ mealRecordId: null }).where(inArray(mealPlans.mealRecordId, mealIds));
+      await tx
+        .update(pantryInventory)
+        .set({ mealRecordId: null })
+        .where(inArray(pantryInventory.mealRecordId, mealIds));
+      await tx.update(mealRecords).set({ leftoverFromId: null }).where(inArray(mealRecords.leftoverFromId, mealIds));
+      await tx.delete(mealItems).where(inArray(mealItems.mealRecordId, mealIds));
+      await tx.delete(mealRecords).where(inArray(mealRecords.id, mealIds));
+    }
+
+    const purgedFavorites = await tx
+      .select({ id: favoriteMeals.id, imageUrl: favoriteMeals.imageUrl, thumbnailUrl: favoriteMeals.thumbnailUrl })
+      .from(favoriteMeals)
+      .where(and(...favoriteConditions));
+    if (purgedFavorites.length > 0) {
+      await tx.delete(favoriteMeals).where(inArray(favoriteMeals.id, purgedFavorites.map(favorite => favorite.id)));
+    }
+
+    const pantryResult = await tx.delete(pantryInventory).where(and(...pantryConditions));
+
+    // A photo can be shared (lunch copied from leftovers, a favorite, a reused analysis),
+    // so only photos no remaining record points at are removed
+    const purgedUrls = Array.from(
+      new Set(
+        [...purgedMeals, ...purgedFavorites]
+          .flatMap(row => [row.imageUrl, row.thumbnailUrl])
+          .filter((url): url is string => url !== null)
+      )
+    );
+    let imageUrls: string[] = [];
+    if (purgedUrls.length > 0) {
+      const [mealsInUse, favoritesInUse] = await Promise.all([
+        tx
+          .select({ imageUrl: mealRecords.imageUrl, thumbnailUrl: mealRecords.thumbnailUrl })
+          .from(mealRecords)
+          .where(or(inArray(mealRecords.imageUrl, purgedUrls), inArray(mealRecords.thumbnailUrl, purgedUrls))),
+        tx
+          .select({ imageUrl: favoriteMeals.imageUrl, thumbnailUrl: favoriteMeals.thumbnailUrl })
+          .from(favoriteMeals)
+          .where(or(inArray(favoriteMeals.imageUrl, purgedUrls), inArray(favoriteMeals.thumbnailUrl, purgedUrls))),
+      ]);
+      const inUse = new Set([...mealsInUse, ...favoritesInUse].flatMap(row => [row.imageUrl, row.thumbnailUrl]));
+      imageUrls = purgedUrls.filter(url => !inUse.has(url));
+      // Analysis cache entries would otherwise hand the removed photo out again
+      if (imageUrls.length > 0) {
+        await tx.delete(imageAnalyses).where(inArray(imageAnalyses.imageUrl, imageUrls));
+      }
+    }
+
+    return {
+      meals: mealIds.length,
+      favorites: purgedFavorites.length,
+      pantryItems: pantryResult[0].affectedRows,
+      imageUrls,
+    };
+  });
+}
+
+/**
+ * Empties one user's trash right away
+ */
+export async function emptyTrash(userId: number): Promise<TrashPurge> {
+  return purgeTrash({ userId });
+}
+
+/**
+ * Purges everything that has been in the trash longer than the retention period
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<TrashPurge> {
+  const deletedBefore = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  return purgeTrash({ deletedBefore });
+}
+
+// ==================== v0.7: Account ====================
+
+/**
+ * Every row stored for a user, including trashed ones, for the account archive
+ */
+export async function getAccountData(userId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const { customCategories, favoriteMeals, imageAnalyses, mealPlans, pantryInventory } = await import("../drizzle/schema");
+  const user = await getUserById(userId);
+  if (!user) return null;
+
+  const meals = await db
+    .select()
+    .from(mealRecords)
+    .where(eq(mealRecords.userId, userId))
+    .orderBy(mealRecords.date);
+
+  return {
+    user,
+    meals: await withMealItems(meals),
+    customCategories: await db.select().from(customCategories).where(eq(customCategories.userId, userId)),
+    groups: await getUserGroups(userId),
+    favorites: await db.select().from(favoriteMeals).where(eq(favoriteMeals.userId, userId)),
+    pantry: await db.select().from(pantryInventory).where(eq(pantryInventory.userId, userId)),
+    mealTemplates: await getMealTemplates(userId),
+    mealPlans: await db.select().from(mealPlans).where(eq(mealPlans.userId, userId)).orderBy(mealPlans.date),
+    // Analysis cache: only needed for the stored photos it points at
+    imageAnalyses: await db
+      .select({ imageUrl: imageAnalyses.imageUrl, thumbnailUrl: imageAnalyses.thumbnailUrl })
+      .from(imageAnalyses)
+      .where(eq(imageAnalyses.userId, userId)),
+  };
+}
+
+/**
+ * Groups owned by the user together with their members
+ */
+export async function getOwnedGroupsWithMembers(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const owned = await db.select().from(groups).where(eq(groups.ownerId, userId));
+  return Promise.all(
+    owned.map(async group => ({
+      group,
+      members: await getGroupMembers(group.id),
+    }))
+  );
+}
+
+export type AccountDeletionResult = {
+  meals: number;
+  favorites: number;
+  pantryItems: number;
+  groupsDeleted: number;
+  groupsTransferred: number;
+};
+
+/**
+ * Permanently deletes the user and everything they own in one transaction.
+ * Owned groups are handed over or deleted according to groupActions
+ */
+export async function deleteUserAccount(
+  userId: number,
+  groupActions: ({ groupId: number; action: "transfer"; newOwnerId: number } | { groupId: number; action: "delete" })[]
+): Promise<AccountDeletionResult> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const {
+    customCategories,
+    favoriteMeals,
+    imageAnalyses,
+    mealPlans,
+    mealTemplateExceptions,
+    mealTemplates,
+    pantryInventory,
+    products,
+  } = await import("../drizzle/schema");
+  const templateIds = (await getMealTemplates(userId)).map(template => template.id);
+
+  return db.transaction(async (tx) => {
+    let groupsDeleted = 0;
+    let groupsTransferred = 0;
+    for (const groupAction of groupActions) {
+      if (groupAction.action === "transfer") {
+        await tx.update(groups).set({ ownerId: groupAction.newOwnerId }).where(eq(groups.id, groupAction.groupId));
+        await tx
+          .update(groupMembers)
+          .set({ role: "owner" })
+          .where(and(eq(groupMembers.groupId, groupAction.groupId), eq(groupMembers.userId, groupAction.newOwnerId)));
+        groupsTransferred++;
+      } else {
+        await tx.update(mealPlans).set({ groupId: null }).where(eq(mealPlans.groupId, groupAction.groupId));
+        await tx.delete(groupMembers).where(eq(groupMembers.groupId, groupAction.groupId));
+        await tx.delete(groups).where(eq(groups.id, groupAction.groupId));
+        groupsDeleted++;
+      }
+    }
+    await tx.delete(groupMembers).where(eq(groupMembers.userId, userId));
+
+    const meals = await tx.select({ id: mealRecords.id }).from(mealRecords).where(eq(mealRecords.userId, userId));
+    const mealIds = meals.map(meal => meal.id);
+    if (mealIds.length > 0) {
+      await tx.delete(mealItems).where(inArray(mealItems.mealRecordId, mealIds));
+      await tx.delete(mealRecords).where(inArray(mealRecords.id, mealIds));
+    }
+
+    const favoriteResult = await tx.delete(favoriteMeals).where(eq(favoriteMeals.userId, userId));
+    const pantryResult = await tx.delete(pantryInventory).where(eq(pantryInventory.userId, userId));
+    await tx.delete(customCategories).where(eq(customCategories.userId, userId));
+    if (templateIds.length > 0) {
+      await tx.delete(mealTemplateExceptions).where(inArray(mealTemplateExceptions.templateId, templateIds));
+    }
+    await tx.delete(mealTemplates).where(eq(mealTemplates.userId, userId));
+    await tx.delete(mealPlans).where(eq(mealPlans.userId, userId));
+    await tx.delete(imageAnalyses).where(eq(imageAnalyses.userId, userId));
+    // Catalog products stay for everyone else; only the link to the user goes
+    await tx.update(products).set({ addedBy: null }).where(eq(products.addedBy, userId));
+    await tx.delete(users).where(eq(users.id, userId));
+
+    return {
+      meals: mealIds.length,
+      favorites: favoriteResult[0].affectedRows,
+      pantryItems: pantryResult[0].affectedRows,
+      groupsDeleted,
+      groupsTransferred,
+    };
+  });
+}
+
+// ==================== v0.7: Meal Templates ====================
+
+export async function getMealTemplates(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const { mealTemplates } = await import("../drizzle/schema");
+  return db
+    .select()
+    .from(mealTemplates)
+    .where(eq(mealTemplates.userId, userId))
+    .orderBy(mealTemplates.mealType, mealTemplates.id);
+}
+
+export async function getMealTemplateById(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const { mealTemplates } = await import("../drizzle/schema");
+  const result = await db
+    .select()
+    .from(mealTemplates)
+    .where(and(eq(mealTemplates.id, id), eq(mealTemplates.userId, userId)))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+export async function createMealTemplate(data: {
+  userId: number;
+  favoriteMealId: number | null;
+  dishName: string;
+  category: "japanese" | "western" | "chinese" | "other";
+  note: string | null;
+  mealType: MealType;
+  weekdays: number[];
+  mode: "suggest" | "auto";
+  time: string;
+}): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { mealTemplates } = await import("../drizzle/schema");
+  const result = await db.insert(mealTemplates).values(data);
+  return Number(result[0].insertId);
+}
+
+export async function updateMealTemplate(
+  id: number,
+  userId: number,
+  data: Partial<{
+    dishName: string;
+    category: "japanese" | "western" | "chinese" | "other";
+    note: string | null;
+    mealType: MealType;
+    weekdays: number[];
+    mode: "suggest" | "auto";
+    time: string;
+    isActive: boolean;
+  }>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { mealTemplates } = await import("../drizzle/schema");
+  const result = await db
+    .update(mealTemplates)
+    .set(data)
+    .where(and(eq(mealTemplates.id, id), eq(mealTemplates.userId, userId)));
+  if (result[0].affectedRows === 0) {
+    throw new Error("Meal template not found");
+  }
+}
+
+export async function deleteMealTemplate(id: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { mealTemplates, mealTemplateExceptions } = await import("../drizzle/schema");
+  const template = await getMealTemplateById(id, userId);
+  if (!template) {
+    throw new Error("Meal template not found");
+  }
+  await db.delete(mealTemplateExceptions).where(eq(mealTemplateExceptions.templateId, id));
+  await db.delete(mealTemplates).where(eq(mealTemplates.id, id));
+}
+
+/**
+ * Single-day exceptions of the given templates, optionally for one date only
+ */
+export async function getMealTemplateExceptions(templateIds: number[], date?: string) {
+  const db = await getDb();
+  if (!db || templateIds.length === 0) return [];
+
+  const { mealTemplateExceptions } = await import("../drizzle/schema");
+  const conditions = [inArray(mealTemplateExceptions.templateId, templateIds)];
+  if (date) conditions.push(eq(mealTemplateExceptions.date, date));
+  return db.select().from(mealTemplateExceptions).where(and(...conditions));
+}
+
+/**
+ * Skip or override a template on one day, replacing any earlier exception for that day
+ */
+export async function setMealTemplateException(data: {
+  templateId: number;
+  date: string;
+  action: "skip" | "override";
+  dishName: string | null;
+  category: "japanese" | "western" | "chinese" | "other" | null;
+  note: string | null;
+}): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { mealTemplateExceptions } = await import("../drizzle/schema");
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(mealTemplateExceptions)
+      .where(and(eq(mealTemplateExceptions.templateId, data.templateId), eq(mealTemplateExceptions.date, data.date)));
+    await tx.insert(mealTemplateExceptions).values(data);
+  });
+}
+
+export async function clearMealTemplateException(templateId: number, date: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { mealTemplateExceptions } = await import("../drizzle/schema");
+  await db
+    .delete(mealTemplateExceptions)
+    .where(and(eq(mealTemplateExceptions.templateId, templateId), eq(mealTemplateExceptions.date, date)));
+}
+
+/**
+ * Records already created from templates on a date. Trashed records count too,
+ * so deleting an automatic record does not bring it back
+ */
+export async function getTemplateMealRecords(templateIds: number[], date: string): Promise<MealRecord[]> {
+  const db = await getDb();
+  if (!db || templateIds.length === 0) return [];
+
+  return db
+    .select()
+    .from(mealRecords)
+    .where(and(inArray(mealRecords.templateId, templateIds), eq(mealRecords.date, date)));
+}
+
+/**
+ * Active automatic templates of every user, with the owner's timezone
+ */
+export async function getActiveAutoTemplates() {
+  const db = await getDb();
+  if (!db) return [];
+
+  const { mealTemplates } = await import("../drizzle/schema");
+  return db
+    .select({ template: mealTemplates, timezone: users.timezone })
+    .from(mealTemplates)
+    .innerJoin(users, eq(users.id, mealTemplates.userId))
+    .where(and(eq(mealTemplates.mode, "auto"), eq(mealTemplates.isActive, true)));
+}
+
+// ==================== v0.7: Meal Plans ====================
+
+/**
+ * The user's own plans plus plans assigned to any group they belong to
+ */
+export async function getMealPlansByDateRange(userId: number, startDate: string, endDate: string) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const { mealPlans } = await import("../drizzle/schema");
+  const { gte, lte, or } = await import("drizzle-orm");
+  const groupIds = (await getUserGroups(userId)).map(group => group.id);
+  const visible = groupIds.length > 0
+    ? or(eq(mealPlans.userId, userId), inArray(mealPlans.groupId, groupIds))
+    : eq(mealPlans.userId, userId);
+
+  return db
+    .select()
+    .from(mealPlans)
+    .where(and(visible, gte(mealPlans.date, startDate), lte(mealPlans.date, endDate)))
+    .orderBy(mealPlans.date, mealPlans.mealType, mealPlans.id);
+}
+
+/**
+ * A plan the user may see and change: their own or one for a group they are in
+ */
+export async function getMealPlanById(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const { mealPlans } = await import("../drizzle/schema");
+  const result = await db.select().from(mealPlans).where(eq(mealPlans.id, id)).limit(1);
+  const plan = result[0];
+  if (!plan) return null;
+  if (plan.userId === userId) return plan;
+
+  if (plan.groupId !== null) {
+    const membership = await db
+      .select()
+      .from(groupMembers)
+      .where(and(eq(groupMembers.groupId, plan.groupId), eq(groupMembers.userId, userId)))
+      .limit(1);
+    if (membership.length > 0) return plan;
+  }
+  return null;
+}
+
+export async function createMealPlan(data: {
+  userId: number;
+  groupId: number | null;
+  date: string;
+  mealType: MealType;
+  dishName: string;
+  category: "japanese" | "western" | "chinese" | "other";
+  note: string | null;
+}): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { mealPlans } = await import("../drizzle/schema");
+  const result = await db.insert(mealPlans).values(data);
+  return Number(result[0].insertId);
+}
+
+export async function updateMealPlan(
+  id: number,
+  data: Partial<{
+    groupId: number | null;
+    date: string;
+    mealType: MealType;
+    dishName: string;
+    category: "japanese" | "western" | "chinese" | "other";
+    note: string | null;
+    mealRecordId: number | null;
+  }>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { mealPlans } = await import("../drizzle/schema");
+  await db.update(mealPlans).set(data).where(eq(mealPlans.id, id));
+}
+
+export async function deleteMealPlan(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { mealPlans } = await import("../drizzle/schema");
+  await db.delete(mealPlans).where(eq(mealPlans.id, id));
+}
+
+// ==================== v0.7: Leftovers ====================
+
+/**
+ * The user's dinners in a date range that were cooked with leftover portions
+ */
+export async function getLeftoverDinners(userIds: number[], startDate: string, endDate: string): Promise<MealRecord[]> {
+  const db = await getDb();
+  if (!db || userIds.length === 0) return [];
+
+  const { gte, isNotNull, lte } = await import("drizzle-orm");
+  return db
+    .select()
+    .from(mealRecords)
+    .where(
+      and(
+        inArray(mealRecords.userId, userIds),
+        eq(mealRecords.mealType, "dinner"),
+        isNotNull(mealRecords.leftoverPortions),
+        gte(mealRecords.date, startDate),
+        lte(mealRecords.date, endDate),
+        isNull(mealRecords.deletedAt)
+      )
+    )
+    .orderBy(desc(mealRecords.date));
+}
+
+/**
+ * Meals made from the leftovers of the given dinners (trashed ones excluded)
+ */
+export async function getMealsFromLeftovers(dinnerIds: number[]): Promise<MealRecord[]> {
+  const db = await getDb();
+  if (!db || dinnerIds.length === 0) return [];
+
+  return db
+    .select()
+    .from(mealRecords)
+    .where(and(inArray(mealRecords.leftoverFromId, dinnerIds), isNull(mealRecords.deletedAt)));
+}
+
+/**
+ * Pantry rows standing for the leftovers of the given dinners, including trashed ones
+ */
+export async function getLeftoverPantryItems(dinnerIds: number[]) {
+  const db = await getDb();
+  if (!db || dinnerIds.length === 0) return [];
+
+  const { pantryInventory } = await import("../drizzle/schema");
+  return db.select().from(pantryInventory).where(inArray(pantryInventory.mealRecordId, dinnerIds));
+}
+
+export async function saveLeftoverPantryItem(data: {
+  userId: number;
+  groupId: number | null;
+  mealRecordId: number;
+  ingredientName: string;
+  quantity: string;
+  expiryDate: string;
+}): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { pantryInventory } = await import("../drizzle/schema");
+  const existing = await db
+    .select({ id: pantryInventory.id })
+    .from(pantryInventory)
+    .where(eq(pantryInventory.mealRecordId, data.mealRecordId))
+    .limit(1);
+  if (existing.length > 0) {
+    await db
+      .update(pantryInventory)
+      .set({ groupId: data.groupId, ingredientName: data.ingredientName, quantity: data.quantity, expiryDate: data.expiryDate })
+      .where(eq(pantryInventory.id, existing[0].id));
+    return;
+  }
+  await db.insert(pantryInventory).values({ ...data, unit: null, category: "other", lowStockAlert: false });
+}
+
+/**
+ * Removes the leftovers row outright once nothing is left (it does not go to the trash)
+ */
+export async function removeLeftoverPantryItem(mealRecordId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { pantryInventory } = await import("../drizzle/schema");
+  await db
+    .delete(pantryInventory)
+    .where(and(eq(pantryInventory.mealRecordId, mealRecordId), isNull(pantryInventory.deletedAt)));
+}
+
+// ==================== v0.7: Image Analysis Cache ====================
+
+export async function getImageAnalysisByHash(userId: number, contentHash: string) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const { imageAnalyses } = await import("../drizzle/schema");
+  const result = await db
+    .select()
+    .from(imageAnalyses)
+    .where(and(eq(imageAnalyses.userId, userId), eq(imageAnalyses.contentHash, contentHash)))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+export async function createImageAnalysis(data: {
+  userId: number;
+  contentHash: string;
+  imageUrl: string;
+  imageKey: string;
+  thumbnailUrl: string;
+  thumbnailKey: string;
+  result: FoodAnalysis | null;
+}): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { imageAnalyses } = await import("../drizzle/schema");
+  const result = await db.insert(imageAnalyses).values(data);
+  return Number(result[0].insertId);
+}
+
+export async function updateImageAnalysisResult(id: number, result: FoodAnalysis) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { imageAnalyses } = await import("../drizzle/schema");
+  await db.update(imageAnalyses).set({ result }).where(eq(imageAnalyses.id, id));
+}
+
+export async function recordImageAnalysisHit(id: number) {
+  const db = await getDb();
+  if (!db) return;
+
+  const { imageAnalyses } = await import("../drizzle/schema");
+  const { sql } = await import("drizzle-orm");
+  await db
+    .update(imageAnalyses)
+    .set({ hitCount: sql`${imageAnalyses.hitCount} + 1`, lastHitAt: new Date() })
+    .where(eq(imageAnalyses.id, id));
+}
+
+/**
+ * Photos analyzed for the user and how many analyses the cache saved
+ */
+export async function getImageAnalysisStats(userId: number): Promise<{ analyzedImages: number; cacheHits: number }> {
+  const db = await getDb();
+  if (!db) return { analyzedImages: 0, cacheHits: 0 };
+
+  const { imageAnalyses } = await import("../drizzle/schema");
+  const { count, sum } = await import("drizzle-orm");
+  const [row] = await db
+    .select({ analyzedImages: count(), cacheHits: sum(imageAnalyses.hitCount) })
+    .from(imageAnalyses)
+    .where(eq(imageAnalyses.userId, userId));
+  return { analyzedImages: row?.analyzedImages ?? 0, cacheHits: Number(row?.cacheHits ?? 0) };
+}
+
+// ==================== v0.7: Product Catalog ====================
+
+export async function getProductByBarcode(barcode: string) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const { products } = await import("../drizzle/schema");
+  const result = await db.select().from(products).where(eq(products.barcode, barcode)).limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Adds a product unless its barcode is already in the catalog (for instance added
+ * by a concurrent request); returns whether a row was inserted
+ */
+export async function createProduct(data: {
+  barcode: string;
+  name: string;
+  category: "japanese" | "western" | "chinese" | "other";
+  addedBy: number;
+} & Record<NutritionKey, number | null>): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { products } = await import("../drizzle/schema");
+  const result = await db.insert(products).ignore().values(data);
+  return result[0].affectedRows > 0;
+}
@@ -0,0 +1,84 @@
+// Dishes detected in a meal photo: validation of the LLM output and mapping to meal items
+
+import { z } from "zod";
+import { clampBoundingBox } from "../shared/bounding-box.js";
+import { MAX_DISH_CANDIDATES } from "../shared/const.js";
+import type { DetectedDish, DishCandidate } from "../shared/food-analysis.js";
+
+export const boundingBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().gt(0).max(1),
+  height: z.number().gt(0).max(1),
+});
+
+export const confidenceSchema = z.number().min(0).max(1);
+
+// Looser than boundingBoxSchema: the model sometimes overshoots the edges slightly
+const rawBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+});
+
+const rawDishSchema = z.object({
+  dishName: z.string().trim().min(1).max(255),
+  category: z.enum(["japanese", "western", "chinese", "other"]),
+  portion: z.string().max(50).optional(),
+  confidence: z.number().optional(),
+  boundingBox: rawBoxSchema.nullable().optional(),
+});
+
+/**
+ * Dishes from the model's "dishes" array, most confident first. Invalid entries are
+ * dropped, boxes are clamped into the photo and a missing confidence counts as 0.5
+ */
+export function parseDetectedDishes(raw: unknown): DetectedDish[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .flatMap((entry: unknown) => {
+      const result = rawDishSchema.safeParse(entry);
+      if (!result.success) return [];
+      const dish = result.data;
+      return [
+        {
+          dishName: dish.dishName,
+          category: dish.category,
+          ...(dish.portion ? { portion: dish.portion } : {}),
+          confidence: Math.min(1, Math.max(0, dish.confidence ?? 0.5)),
+          boundingBox: dish.boundingBox ? clampBoundingBox(dish.boundingBox) : null,
+        },
+      ];
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+const rawCandidateSchema = rawDishSchema.pick({ dishName: true, category: true, confidence: true });
+
+/**
+ * Up to MAX_DISH_CANDIDATES names for the whole meal from the model's "candidates"
+ * array, most confident first and without repeated names
+ */
+export function parseDishCandidates(raw: unknown): DishCandidate[] {
+  if (!Array.isArray(raw)) return [];
+
+  const candidates = raw
+    .flatMap((entry: unknown) => {
+      const result = rawCandidateSchema.safeParse(entry);
+      if (!result.success) return [];
+      return [
+        {
+          dishName: result.data.dishName,
+          category: result.data.category,
+          confidence: Math.min(1, Math.max(0, result.data.confidence ?? 0.5)),
+        },
+      ];
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return candidates
+    .filter((candidate, index) => candidates.findIndex(c => c.dishName === candidate.dishName) === index)
+    .slice(0, MAX_DISH_CANDIDATES);
+}
@@ -0,0 +1,97 @@
+// Where meals were eaten: recently used venues and the eating-out breakdown
+
+import { EATING_OUT_SOURCES, MEAL_SOURCES, MEAL_TYPES, type MealSource, type MealType } from "../shared/const.js";
+import type { MealRecord } from "../drizzle/schema";
+
+export const MEAL_SOURCE_NAMES: Record<MealSource, string> = {
+  home_cooked: "自炊",
+  bento: "お弁当",
+  restaurant: "レストラン・飲食店",
+  convenience_store: "コンビニ",
+  delivery: "デリバリー",
+  cafeteria: "社食・学食",
+};
+
+export function isEatingOut(source: MealSource | null | undefined): boolean {
+  return source != null && EATING_OUT_SOURCES.includes(source);
+}
+
+export type VenueMeal = Pick<MealRecord, "source" | "venueName" | "latitude" | "longitude">;
+
+export type RecentVenue = {
+  venueName: string;
+  source: MealSource | null;
+  latitude: number | null;
+  longitude: number | null;
+  count: number;
+};
+
+/**
+ * Distinct venues from meals ordered newest first; the latest visit decides
+ * the source and coordinates offered when the venue is picked again
+ */
+export function collectRecentVenues(meals: VenueMeal[], limit: number = 10): RecentVenue[] {
+  const venues = new Map<string, RecentVenue>();
+  meals.forEach(meal => {
+    const venueName = meal.venueName?.trim();
+    if (!venueName) return;
+    const existing = venues.get(venueName);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    venues.set(venueName, {
+      venueName,
+      source: meal.source,
+      latitude: meal.latitude,
+      longitude: meal.longitude,
+      count: 1,
+    });
+  });
+  return Array.from(venues.values()).slice(0, limit);
+}
+
+/**
+ * Eating-out frequency for a set of meals. Rates are relative to the meals
+ * whose source was recorded
+ */
+export function summarizeEatingOut(meals: Pick<MealRecord, "mealType" | "source" | "venueName">[]) {
+  const bySource = Object.fromEntries(MEAL_SOURCES.map(s => [s, 0])) as Record<MealSource, number>;
+  const eatingOutByMealType = Object.fromEntries(MEAL_TYPES.map(t => [t, 0])) as Record<MealType, number>;
+  const venueCounts: Record<string, number> = {};
+
+  let recordedMeals = 0;
+  let eatingOutCount = 0;
+  meals.forEach(meal => {
+    if (!meal.source) return;
+    recordedMeals++;
+    bySource[meal.source]++;
+    if (!isEatingOut(meal.source)) return;
+    eatingOutCount++;
+    eatingOutByMealType[meal.mealType]++;
+    const venueName = meal.venueName?.trim();
+    if (venueName) venueCounts[venueName] = (venueCounts[venueName] ?? 0) + 1;
+  });
+
+  return {
+    recordedMeals,
+    eatingOutCount,
+    eatingOutRate: recordedMeals > 0 ? Math.round((eatingOutCount / recordedMeals) * 100) : null,
+    bySource,
+    eatingOutByMealType,
+    topVenues: Object.entries(venueCounts)
+      .map(([venueName, count]) => ({ venueName, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5),
+  };
+}
+
+/**
+ * Short description for LLM prompts, e.g. "外食（レストラン・飲食店「大戸屋」）"
+ */
+export function describeMealSource(source: MealSource | null | undefined, venueName?: string | null): string {
+  if (!source) return "不明";
+  const venue = venueName?.trim() ? `「${venueName.trim()}」` : "";
+  const name = `${MEAL_SOURCE_NAMES[source]}${venue}`;
+  return isEatingOut(source) ? `外食（${name}）` : name;
+}
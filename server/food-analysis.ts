@@ -0,0 +1,149 @@
+// Meal photo analysis: the LLM call and the per-user cache keyed by image content
+
+import { createHash } from "crypto";
+import { z } from "zod";
+import type { FoodAnalysis } from "../shared/food-analysis.js";
+import { invokeLLM } from "./_core/llm";
+import { parseDetectedDishes, parseDishCandidates } from "./dish-detection";
+import { EMPTY_NUTRITION, parseNutrition } from "./nutrition";
+
+const MEAL_CATEGORIES = ["japanese", "western", "chinese", "other"] as const;
+
+// Each field falls back on its own, so one bad value does not discard the whole answer.
+// Candidates, dishes and nutrition are validated entry by entry by their own parsers
+const rawFoodAnalysisSchema = z.object({
+  candidates: z.unknown(),
+  dishes: z.unknown(),
+  items: z.unknown(),
+  dishName: z.string().trim().catch(""),
+  category: z.enum(MEAL_CATEGORIES).optional().catch(undefined),
+  description: z.string().catch(""),
+  nutrition: z.unknown(),
+});
+
+// Returned when the photo could not be analyzed (no candidates); never cached
+export const FAILED_FOOD_ANALYSIS: FoodAnalysis = {
+  dishName: "",
+  category: "other",
+  confidence: 0,
+  candidates: [],
+  description: "",
+  dishes: [],
+  nutrition: { ...EMPTY_NUTRITION },
+};
+
+/**
+ * SHA-256 of the uploaded bytes, used to recognize the same photo sent again
+ */
+export function hashImageContent(data: Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Dishes, nutrition and a name for the meal in the photo. Throws when the
+ * model gives no usable answer
+ */
+export async function analyzeFoodPhoto(imageUrl: string): Promise<FoodAnalysis> {
+  const prompt = `この食事の写真を分析して、以下の情報をJSON形式で返してください:
+1. 食事全体の名前の候補を確からしい順に最大3つ（日本語で。定食やセットならその名前）。それぞれカテゴリ（japanese/western/chinese/otherのいずれか）と確信度（0〜1）
+2. 簡単な説明（30文字以内）
+3. 写っている料理すべて（主菜・副菜・汁物・ご飯・小鉢など）を1品ずつ。それぞれ料理名、カテゴリ、量の目安、確信度（0〜1）、写真内の位置
+   位置は写真の左上を(0,0)、右下を(1,1)とした矩形（x, y は左上の角、width, height は幅と高さ）
+4. 写っている量から推定した食事全体の栄養素
+
+必ず以下のJSON形式で回答してください:
+{
+  "candidates": [
+    { "dishName": "料理名", "category": "japanese/western/chinese/other", "confidence": 0.8 }
+  ],
+  "description": "簡単な説明",
+  "dishes": [
+    {
+      "dishName": "料理名",
+      "category": "japanese/western/chinese/other",
+      "portion": "1人前",
+      "confidence": 0.9,
+      "boundingBox": { "x": 0.1, "y": 0.2, "width": 0.4, "height": 0.5 }
+    }
+  ],
+  "nutrition": {
+    "calories": エネルギー(kcal),
+    "protein": たんぱく質(g),
+    "fat": 脂質(g),
+    "carbohydrate": 炭水化物(g),
+    "salt": 食塩相当量(g),
+    "vegetableGrams": 野菜の量(g)
+  }
+}`;
+
+  const response = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: "あなたは食事の写真を分析する専門家です。写真から料理を特定し、JSON形式で情報を返してください。",
+      },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: prompt },
+          {
+            type: "image_url",
+            image_url: {
+              url: imageUrl,
+              detail: "high",
+            },
+          },
+        ],
+      },
+    ],
+    response_format: { type: "json_object" },
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content || typeof content !== "string") {
+    throw new Error("No response from LLM");
+  }
+
+  let parsed;
+  try {
+    parsed = JSON.parse(content);
+  } catch (parseError) {
+    console.error("Failed to parse LLM response:", parseError);
+    throw new Error("Invalid JSON response from LLM");
+  }
+
+  return parseFoodAnalysis(parsed);
+}
+
+/**
+ * Analysis from the model's JSON answer. Falls back to a single candidate from
+ * an older "dishName" answer or the most confident dish; empty when nothing fits
+ */
+export function parseFoodAnalysis(parsed: unknown): FoodAnalysis {
+  const result = rawFoodAnalysisSchema.safeParse(parsed);
+  if (!result.success) return { ...FAILED_FOOD_ANALYSIS };
+  const raw = result.data;
+
+  // Older prompts answered with "items" (no confidence or position)
+  const dishes = parseDetectedDishes(raw.dishes ?? raw.items);
+  const candidates = parseDishCandidates(raw.candidates);
+  // Without candidates, fall back to a single name (or the most confident dish)
+  if (candidates.length === 0) {
+    const category = raw.category ?? dishes[0]?.category;
+    const dishName = raw.dishName || dishes[0]?.dishName;
+    if (dishName) {
+      candidates.push({ dishName, category: category ?? "other", confidence: dishes[0]?.confidence ?? 0.5 });
+    }
+  }
+  const [best] = candidates;
+
+  return {
+    dishName: best?.dishName ?? "",
+    category: best?.category ?? "other",
+    confidence: best?.confidence ?? 0,
+    candidates,
+    description: raw.description,
+    dishes,
+    nutrition: parseNutrition(raw.nutrition),
+  };
+}
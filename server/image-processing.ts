@@ -0,0 +1,84 @@
+// Meal photo processing before storage: orientation, metadata stripping, display size and thumbnail
+
+import sharp from "sharp";
+import { storagePut } from "./storage";
+
+// Longest side of the photo shown on the record and edit screens
+export const DISPLAY_MAX_SIZE = 1280;
+// Square thumbnail for the history and favorites lists
+export const THUMBNAIL_SIZE = 320;
+
+export const PROCESSED_IMAGE_MIME_TYPE = "image/webp";
+const DISPLAY_QUALITY = 80;
+const THUMBNAIL_QUALITY = 70;
+
+export type ProcessedImage = { data: Buffer; width: number; height: number };
+
+export type StoredMealImage = {
+  imageKey: string;
+  imageUrl: string;
+  thumbnailKey: string;
+  thumbnailUrl: string;
+};
+
+/**
+ * Display-size image and square thumbnail of an uploaded photo, both WebP.
+ *
+ * The photo is rotated upright from its EXIF orientation first; sharp drops all
+ * other metadata (including GPS) from the output because `withMetadata` is not used.
+ * Throws when the data is not a decodable image.
+ */
+export async function processMealImage(input: Buffer): Promise<{ display: ProcessedImage; thumbnail: ProcessedImage }> {
+  const upright = sharp(input, { failOn: "error" }).rotate();
+
+  const [display, thumbnail] = await Promise.all([
+    upright
+      .clone()
+      .resize({ width: DISPLAY_MAX_SIZE, height: DISPLAY_MAX_SIZE, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: DISPLAY_QUALITY })
+      .toBuffer({ resolveWithObject: true }),
+    upright
+      .clone()
+      .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: "cover", position: "attention" })
+      .webp({ quality: THUMBNAIL_QUALITY })
+      .toBuffer({ resolveWithObject: true }),
+  ]);
+
+  return {
+    display: { data: display.data, width: display.info.width, height: display.info.height },
+    thumbnail: { data: thumbnail.data, width: thumbnail.info.width, height: thumbnail.info.height },
+  };
+}
+
+/**
+ * Storage keys for a new photo; the thumbnail sits next to the display image
+ */
+export function buildMealImageKeys(userId: number, now = Date.now()): { imageKey: string; thumbnailKey: string } {
+  const baseName = `${now}-${Math.random().toString(36).substring(2, 8)}`;
+  return {
+    imageKey: `meals/${userId}/${baseName}.webp`,
+    thumbnailKey: `meals/${userId}/${baseName}.thumb.webp`,
+  };
+}
+
+/**
+ * Whether a storage key points at one of the user's own meal photos
+ */
+export function isOwnImageKey(userId: number, key: string): boolean {
+  return key.startsWith(`meals/${userId}/`) && !key.includes("..");
+}
+
+/**
+ * Process an uploaded photo and store its display image and thumbnail
+ */
+export async function storeMealImage(userId: number, input: Buffer): Promise<StoredMealImage> {
+  const { display, thumbnail } = await processMealImage(input);
+  const { imageKey, thumbnailKey } = buildMealImageKeys(userId);
+
+  const [image, thumb] = await Promise.all([
+    storagePut(imageKey, display.data, PROCESSED_IMAGE_MIME_TYPE),
+    storagePut(thumbnailKey, thumbnail.data, PROCESSED_IMAGE_MIME_TYPE),
+  ]);
+
+  return { imageKey, imageUrl: image.url, thumbnailKey, thumbnailUrl: thumb.url };
+}
@@ -0,0 +1,117 @@
+// Leftovers: extra dinner portions that become the next days' lunches
+
+import { addDays } from "../shared/dates.js";
+import type { MealRecord } from "../drizzle/schema";
+import * as db from "./db";
+
+// Days after the dinner the leftovers are still offered (also the pantry expiry date)
+export const LEFTOVER_KEEP_DAYS = 2;
+
+export type LeftoverSuggestion = {
+  mealId: number;
+  date: string;
+  dishName: string;
+  category: MealRecord["category"];
+  remainingPortions: number;
+};
+
+type LeftoverDinner = Pick<MealRecord, "id" | "leftoverPortions">;
+
+export function countRemainingPortions(dinner: LeftoverDinner, uses: Pick<MealRecord, "leftoverFromId">[]): number {
+  const used = uses.filter(meal => meal.leftoverFromId === dinner.id).length;
+  return Math.max(0, (dinner.leftoverPortions ?? 0) - used);
+}
+
+export function formatLeftoverPortions(portions: number): string {
+  return `${portions}食分`;
+}
+
+/**
+ * Keeps the pantry row of a dinner's leftovers in line with the portions left.
+ * A row the user threw away (moved to the trash) is not brought back
+ */
+export async function syncLeftoverPantryItem(dinner: MealRecord): Promise<void> {
+  const [uses, pantryItems] = await Promise.all([
+    db.getMealsFromLeftovers([dinner.id]),
+    db.getLeftoverPantryItems([dinner.id]),
+  ]);
+  const remaining = dinner.deletedAt === null ? countRemainingPortions(dinner, uses) : 0;
+
+  if (remaining === 0) {
+    await db.removeLeftoverPantryItem(dinner.id);
+    return;
+  }
+  if (pantryItems.some(item => item.deletedAt !== null)) return;
+
+  await db.saveLeftoverPantryItem({
+    userId: dinner.userId,
+    groupId: dinner.groupId,
+    mealRecordId: dinner.id,
+    ingredientName: `${dinner.dishName}（残り物）`,
+    quantity: formatLeftoverPortions(remaining),
+    expiryDate: addDays(dinner.date, LEFTOVER_KEEP_DAYS),
+  });
+}
+
+/**
+ * Updates the leftovers a meal touches: the dinner it was made from, or its own
+ */
+export async function refreshLeftoversFor(meal: MealRecord, userId: number): Promise<void> {
+  if (meal.leftoverFromId === null) {
+    await syncLeftoverPantryItem(meal);
+    return;
+  }
+  const dinner = await db.getMealRecordById(meal.leftoverFromId, userId);
+  if (dinner) await syncLeftoverPantryItem(dinner);
+}
+
+/**
+ * Dinners of the last few days that still have portions left, newest first.
+ * Leftovers thrown away from the pantry are not suggested
+ */
+export async function getLeftoverSuggestions(userId: number, today: string): Promise<LeftoverSuggestion[]> {
+  const dinners = await db.getLeftoverDinners([userId], addDays(today, -LEFTOVER_KEEP_DAYS), addDays(today, -1));
+  const dinnerIds = dinners.map(dinner => dinner.id);
+  const [uses, pantryItems] = await Promise.all([
+    db.getMealsFromLeftovers(dinnerIds),
+    db.getLeftoverPantryItems(dinnerIds),
+  ]);
+
+  return dinners
+    .filter(dinner => !pantryItems.some(item => item.mealRecordId === dinner.id && item.deletedAt !== null))
+    .map(dinner => ({
+      mealId: dinner.id,
+      date: dinner.date,
+      dishName: dinner.dishName,
+      category: dinner.category,
+      remainingPortions: countRemainingPortions(dinner, uses),
+    }))
+    .filter(suggestion => suggestion.remainingPortions > 0);
+}
+
+/**
+ * Dishes cooked with leftovers last night; tonight's dinner should be something else
+ */
+export async function getLastNightLeftoverDishes(userIds: number[], today: string): Promise<string[]> {
+  const yesterday = addDays(today, -1);
+  const dinners = await db.getLeftoverDinners(userIds, yesterday, yesterday);
+  return Array.from(new Set(dinners.map(dinner => dinner.dishName)));
+}
+
+export function formatLeftoversForPrompt(dishNames: string[]): string {
+  if (dishNames.length === 0) return "";
+  return `昨夜作って残り物がある料理（今夜は同じ料理・似た料理を避ける）: ${dishNames.join("、")}`;
+}
+
+const normalizeDishName = (name: string) => name.replace(/\s+/g, "");
+
+/**
+ * Drops recommendations that repeat one of the given dishes
+ */
+export function excludeLeftoverDishes<T extends { name: string }>(recommendations: T[], dishNames: string[]): T[] {
+  const leftovers = dishNames.map(normalizeDishName).filter(name => name.length > 0);
+  return recommendations.filter(recommendation => {
+    const name = normalizeDishName(recommendation.name);
+    return !leftovers.some(leftover => name.includes(leftover) || leftover.includes(name));
+  });
+}
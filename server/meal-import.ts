@@ -0,0 +1,182 @@
+// Bulk import of historical meals from CSV or JSON (e.g. spreadsheet exports)
+
+import { MEAL_TYPES, type MealType } from "../shared/const.js";
+
+export const IMPORT_FORMATS = ["csv", "json"] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const IMPORT_FIELDS = ["date", "mealType", "dishName", "category", "note"] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Source column name for each field (category and note are optional)
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type ImportTable = {
+  columns: string[];
+  records: Record<string, unknown>[];
+};
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and CRLF
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+}
+
+/**
+ * Read CSV (first row is the header) or JSON (an array of objects) into named records
+ */
+export function readImportTable(format: ImportFormat, content: string): ImportTable {
+  if (format === "csv") {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) return { columns: [], records: [] };
+    const columns = header.map(name => name.trim());
+    return {
+      columns,
+      records: rows.map(values => Object.fromEntries(columns.map((name, i) => [name, values[i] ?? ""]))),
+    };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("Invalid JSON");
+  }
+  // Accept a bare array or { meals: [...] }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && Array.isArray((parsed as { meals?: unknown }).meals)
+      ? (parsed as { meals: unknown[] }).meals
+      : null;
+  if (!list) {
+    throw new Error("JSON must be an array of meal objects");
+  }
+
+  const records = list.map(item => (item && typeof item === "object" && !Array.isArray(item) ? item : {}) as Record<string, unknown>);
+  const columns = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+  return { columns, records };
+}
+
+// Header names recognized when guessing the mapping (compared case-insensitively)
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "日付", "日にち", "年月日"],
+  mealType: ["mealtype", "meal_type", "meal", "type", "食事", "食事タイプ", "区分", "時間帯"],
+  dishName: ["dishname", "dish_name", "dish", "name", "menu", "料理名", "料理", "メニュー", "品名"],
+  category: ["category", "カテゴリ", "カテゴリー", "ジャンル", "種類"],
+  note: ["note", "notes", "memo", "comment", "メモ", "備考", "コメント"],
+};
+
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const match = columns.find(column => COLUMN_ALIASES[field].includes(column.trim().toLowerCase()));
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+}
+
+const MEAL_TYPE_ALIASES: Record<string, MealType> = {
+  朝: "breakfast",
+  朝食: "breakfast",
+  朝ごはん: "breakfast",
+  昼: "lunch",
+  昼食: "lunch",
+  ランチ: "lunch",
+  昼ごはん: "lunch",
+  夜: "dinner",
+  夕食: "dinner",
+  夕飯: "dinner",
+  晩ごはん: "dinner",
+  夜ごはん: "dinner",
+  ディナー: "dinner",
+  間食: "snack",
+  おやつ: "snack",
+};
+
+const CATEGORY_ALIASES: Record<string, string> = {
+  和食: "japanese",
+  洋食: "western",
+  中華: "chinese",
+  その他: "other",
+};
+
+function normalizeDate(value: string): string {
+  // 2024/1/5, 2024.1.5, 2024年1月5日 → 2024-01-05
+  const match = value.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?$/);
+  if (!match) return value;
+  const [, year, month, day] = match;
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+function normalizeMealType(value: string): string {
+  const lower = value.toLowerCase();
+  if ((MEAL_TYPES as readonly string[]).includes(lower)) return lower;
+  return MEAL_TYPE_ALIASES[value] ?? value;
+}
+
+function normalizeCategory(value: string): string {
+  return CATEGORY_ALIASES[value] ?? value.toLowerCase();
+}
+
+/**
+ * Pick the mapped columns of one record and normalize common spellings
+ * (Japanese meal type / category names, slashed dates). The result still has
+ * to pass the meal zod schema
+ */
+export function applyColumnMapping(record: Record<string, unknown>, mapping: ColumnMapping) {
+  const read = (field: ImportField) => {
+    const column = mapping[field];
+    const value = column ? record[column] : undefined;
+    return value == null ? "" : String(value).trim();
+  };
+
+  const category = read("category");
+  const note = read("note");
+  return {
+    date: normalizeDate(read("date")),
+    mealType: normalizeMealType(read("mealType")),
+    dishName: read("dishName"),
+    // A missing category is imported as "other"
+    category: category ? normalizeCategory(category) : "other",
+    note: note || undefined,
+  };
+}
@@ -0,0 +1,108 @@
+// Recurring meal templates: which templates apply on a day, and automatic recording
+
+import { DEFAULT_TIME_ZONE, getDateInTimeZone, getDayOfWeek, getTimeInTimeZone } from "../shared/dates.js";
+import type { MealTemplate, MealTemplateException } from "../drizzle/schema";
+import * as db from "./db";
+
+const AUTO_CREATE_INTERVAL_MS = 10 * 60 * 1000; // every 10 minutes
+
+export type ResolvedTemplate = {
+  dishName: string;
+  category: MealTemplate["category"];
+  note: string | null;
+  overridden: boolean;
+};
+
+export function isScheduledOn(template: Pick<MealTemplate, "weekdays" | "isActive">, date: string): boolean {
+  return template.isActive && template.weekdays.includes(getDayOfWeek(date));
+}
+
+type TemplateMeal = Pick<MealTemplate, "id" | "dishName" | "category" | "note">;
+type TemplateExceptionRow = Pick<MealTemplateException, "templateId" | "date" | "action" | "dishName" | "category" | "note">;
+
+/**
+ * The template's meal after a single-day exception, or null when the day is skipped
+ */
+export function applyTemplateException(
+  template: TemplateMeal,
+  exception: TemplateExceptionRow | undefined
+): ResolvedTemplate | null {
+  if (exception?.action === "skip") return null;
+  if (exception?.action === "override") {
+    return {
+      dishName: exception.dishName ?? template.dishName,
+      category: exception.category ?? template.category,
+      note: exception.note ?? template.note,
+      overridden: true,
+    };
+  }
+  return { dishName: template.dishName, category: template.category, note: template.note, overridden: false };
+}
+
+/**
+ * The meal a template stands for on a date after applying that day's
+ * exception, or null when it is not scheduled or skipped
+ */
+export function resolveTemplateForDate(
+  template: TemplateMeal & Pick<MealTemplate, "weekdays" | "isActive">,
+  exceptions: TemplateExceptionRow[],
+  date: string
+): ResolvedTemplate | null {
+  if (!isScheduledOn(template, date)) return null;
+  return applyTemplateException(
+    template,
+    exceptions.find(e => e.templateId === template.id && e.date === date)
+  );
+}
+
+/**
+ * Records today's meal for every automatic template whose time has passed in
+ * the owner's timezone. A day is left alone when the template already produced
+ * a record (even one since moved to the trash) or the user recorded that meal
+ * themselves
+ */
+export async function runTemplateAutoCreate(now: Date = new Date()) {
+  try {
+    const rows = await db.getActiveAutoTemplates();
+    let created = 0;
+    for (const { template, timezone } of rows) {
+      const timeZone = timezone ?? DEFAULT_TIME_ZONE;
+      const date = getDateInTimeZone(timeZone, now);
+      if (getTimeInTimeZone(timeZone, now) < template.time) continue;
+
+      const exceptions = await db.getMealTemplateExceptions([template.id], date);
+      const meal = resolveTemplateForDate(template, exceptions, date);
+      if (!meal) continue;
+      if ((await db.getTemplateMealRecords([template.id], date)).length > 0) continue;
+      if (await db.getMealRecordByDateAndType(template.userId, date, template.mealType)) continue;
+
+      await db.createMealRecord({
+        userId: template.userId,
+        groupId: null,
+        date,
+        mealType: template.mealType,
+        dishName: meal.dishName,
+        category: meal.category,
+        note: meal.note,
+        imageUrl: null,
+        templateId: template.id,
+      });
+      created++;
+    }
+    if (created > 0) {
+      console.log(`[templates] recorded ${created} meals from templates`);
+    }
+    return created;
+  } catch (error) {
+    console.error("[templates] auto create failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Checks automatic templates at startup and then periodically while the server is up
+ */
+export function scheduleTemplateAutoCreate(): ReturnType<typeof setInterval> {
+  void runTemplateAutoCreate();
+  return setInterval(() => void runTemplateAutoCreate(), AUTO_CREATE_INTERVAL_MS);
+}
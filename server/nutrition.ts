@@ -0,0 +1,154 @@
+// Nutrition estimation and weekly aggregation for meal records
+
+import { z } from "zod";
+import { NUTRITION_KEYS, type Nutrition } from "../shared/const.js";
+import { invokeLLM } from "./_core/llm";
+
+export const nutritionSchema = z.object({
+  calories: z.number().min(0).max(10000).nullable(),
+  protein: z.number().min(0).max(1000).nullable(),
+  fat: z.number().min(0).max(1000).nullable(),
+  carbohydrate: z.number().min(0).max(2000).nullable(),
+  salt: z.number().min(0).max(100).nullable(),
+  vegetableGrams: z.number().min(0).max(5000).nullable(),
+});
+
+export const EMPTY_NUTRITION: Nutrition = {
+  calories: null,
+  protein: null,
+  fat: null,
+  carbohydrate: null,
+  salt: null,
+  vegetableGrams: null,
+};
+
+// Daily reference intake for an adult (日本人の食事摂取基準 / 健康日本21 を目安に丸めた値)
+export const DAILY_NUTRITION_TARGETS: Record<keyof Nutrition, number> = {
+  calories: 2000,
+  protein: 65,
+  fat: 60,
+  carbohydrate: 300,
+  salt: 7.5,
+  vegetableGrams: 350,
+};
+
+/**
+ * Parse a nutrition object returned by the LLM, dropping anything out of range
+ */
+export function parseNutrition(value: unknown): Nutrition {
+  if (!value || typeof value !== "object") return { ...EMPTY_NUTRITION };
+
+  const nutrition = { ...EMPTY_NUTRITION };
+  for (const key of NUTRITION_KEYS) {
+    const result = nutritionSchema.shape[key].safeParse((value as Record<string, unknown>)[key]);
+    if (result.success && result.data !== null) {
+      nutrition[key] = key === "calories" || key === "vegetableGrams"
+        ? Math.round(result.data)
+        : Math.round(result.data * 10) / 10;
+    }
+  }
+  return nutrition;
+}
+
+/**
+ * Estimate nutrition of a meal from its dish names (used for text input)
+ */
+export async function estimateNutrition(
+  dishes: { dishName: string; portion?: string | null }[]
+): Promise<Nutrition> {
+  const dishList = dishes
+    .map(d => `- ${d.dishName}${d.portion ? `（${d.portion}）` : ""}`)
+    .join("\n");
+
+  const prompt = `以下の食事1回分の栄養素を推定してください。量の指定がない料理は一般的な1人前として計算してください。
+
+料理:
+${dishList}
+
+必ず以下のJSON形式で回答してください（数値のみ）:
+{
+  "calories": エネルギー(kcal),
+  "protein": たんぱく質(g),
+  "fat": 脂質(g),
+  "carbohydrate": 炭水化物(g),
+  "salt": 食塩相当量(g),
+  "vegetableGrams": 野菜の量(g)
+}`;
+
+  try {
+    const response = await invokeLLM({
+      messages: [
+        { role: "system", content: "あなたは日本食品標準成分表に詳しい管理栄養士です。必ずJSON形式で回答してください。" },
+        { role: "user", content: prompt },
+      ],
+      response_format: { type: "json_object" },
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content || typeof content !== "string") {
+      throw new Error("No response from LLM");
+    }
+
+    return parseNutrition(JSON.parse(content));
+  } catch (error) {
+    console.error("Failed to estimate nutrition:", error);
+    return { ...EMPTY_NUTRITION };
+  }
+}
+
+/**
+ * Sum nutrition over meals. Averages are per day that has at least one estimated meal,
+ * so days without records don't drag the numbers down.
+ */
+export function summarizeNutrition(meals: (Nutrition & { date: string })[]) {
+  const totals: Record<keyof Nutrition, number> = {
+    calories: 0,
+    protein: 0,
+    fat: 0,
+    carbohydrate: 0,
+    salt: 0,
+    vegetableGrams: 0,
+  };
+  const estimatedMeals = meals.filter(m => NUTRITION_KEYS.some(key => m[key] !== null));
+
+  for (const meal of estimatedMeals) {
+    for (const key of NUTRITION_KEYS) {
+      totals[key] += meal[key] ?? 0;
+    }
+  }
+
+  const days = new Set(estimatedMeals.map(m => m.date)).size;
+  const dailyAverage = { ...totals };
+  for (const key of NUTRITION_KEYS) {
+    totals[key] = Math.round(totals[key] * 10) / 10;
+    dailyAverage[key] = days > 0 ? Math.round((dailyAverage[key] / days) * 10) / 10 : 0;
+  }
+
+  return {
+    totals,
+    dailyAverage,
+    estimatedMeals: estimatedMeals.length,
+    days,
+    score: days > 0 ? calculateNutritionScore(dailyAverage) : null,
+  };
+}
+
+/**
+ * Score (0-100) how close the daily average is to the reference intake.
+ * Salt is only penalised above the target, vegetables only below it.
+ */
+export function calculateNutritionScore(dailyAverage: Record<keyof Nutrition, number>): number {
+  const ratios = NUTRITION_KEYS.map(key => {
+    const target = DAILY_NUTRITION_TARGETS[key];
+    const value = dailyAverage[key];
+    if (key === "salt") {
+      return value <= target ? 1 : Math.max(0, 1 - (value - target) / target);
+    }
+    if (key === "vegetableGrams") {
+      return Math.min(1, value / target);
+    }
+    return Math.max(0, 1 - Math.abs(value - target) / target);
+  });
+
+  return Math.round((ratios.reduce((sum, r) => sum + r, 0) / ratios.length) * 100);
+}
@@ -0,0 +1,146 @@
+// Packaged foods (コンビニ弁当, おにぎり, サンドイッチ...): barcode and nutrition label reading
+// from a photo, and the shape of product catalog entries
+
+import { z } from "zod";
+import { NUTRITION_KEYS, type Nutrition } from "../shared/const.js";
+import { normalizeBarcode } from "../shared/barcode.js";
+import type { Product } from "../drizzle/schema";
+import { invokeLLM } from "./_core/llm";
+import { EMPTY_NUTRITION, parseNutrition } from "./nutrition";
+
+const MEAL_CATEGORIES = ["japanese", "western", "chinese", "other"] as const;
+
+type MealCategory = (typeof MEAL_CATEGORIES)[number];
+
+// Each field falls back on its own, so one bad value does not discard the whole reading
+const rawReadingSchema = z.object({
+  barcode: z
+    .union([z.string(), z.number()])
+    .transform(value => normalizeBarcode(String(value)))
+    .catch(null),
+  productName: z
+    .string()
+    .trim()
+    .transform(name => name.slice(0, 255))
+    .catch(""),
+  category: z.enum(MEAL_CATEGORIES).catch("other"),
+  nutrition: z.unknown(),
+});
+
+export type PackagedFoodReading = {
+  barcode: string | null; // Only when the printed digits pass the check digit
+  productName: string; // Empty when the name could not be read
+  category: MealCategory;
+  // Whole package; null for values not on the label
+  nutrition: Nutrition;
+};
+
+export type CatalogProduct = {
+  id: number;
+  barcode: string;
+  name: string;
+  category: MealCategory;
+  nutrition: Nutrition;
+};
+
+export const EMPTY_PACKAGED_FOOD_READING: PackagedFoodReading = {
+  barcode: null,
+  productName: "",
+  category: "other",
+  nutrition: { ...EMPTY_NUTRITION },
+};
+
+/**
+ * Barcode, product name and label nutrition of a packaged food photo. Throws when
+ * the model gives no usable answer
+ */
+export async function readPackagedFoodPhoto(imageUrl: string): Promise<PackagedFoodReading> {
+  const prompt = `この市販食品（コンビニ弁当・おにぎり・サンドイッチなど）の写真から、以下の情報をJSON形式で返してください:
+1. バーコードの下に印字された数字（JAN/EANコード。読めない場合はnull）
+2. パッケージに書かれた商品名（読めない場合は空文字）
+3. 商品のカテゴリ（japanese/western/chinese/otherのいずれか）
+4. 栄養成分表示の値。1包装（1個・1食）あたりに換算してください
+   100gあたりなどの表示で内容量が分かる場合は内容量から計算し、表示のない項目はnullにしてください
+   「熱量」「エネルギー」はcalories、「食塩相当量」はsaltです。推定値は入れないでください
+
+必ず以下のJSON形式で回答してください:
+{
+  "barcode": "4901234567894",
+  "productName": "商品名",
+  "category": "japanese/western/chinese/other",
+  "nutrition": {
+    "calories": エネルギー(kcal),
+    "protein": たんぱく質(g),
+    "fat": 脂質(g),
+    "carbohydrate": 炭水化物(g),
+    "salt": 食塩相当量(g),
+    "vegetableGrams": null
+  }
+}`;
+
+  const response = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: "あなたは食品パッケージの表示を読み取る専門家です。印字された内容だけをJSON形式で返してください。",
+      },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: prompt },
+          {
+            type: "image_url",
+            image_url: {
+              url: imageUrl,
+              detail: "high",
+            },
+          },
+        ],
+      },
+    ],
+    response_format: { type: "json_object" },
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content || typeof content !== "string") {
+    throw new Error("No response from LLM");
+  }
+
+  let parsed;
+  try {
+    parsed = JSON.parse(content);
+  } catch (parseError) {
+    console.error("Failed to parse LLM response:", parseError);
+    throw new Error("Invalid JSON response from LLM");
+  }
+
+  return parsePackagedFoodReading(parsed);
+}
+
+/**
+ * Reading from the model's JSON answer; a barcode that fails the check digit
+ * (a misread digit) is dropped rather than looked up
+ */
+export function parsePackagedFoodReading(parsed: unknown): PackagedFoodReading {
+  const result = rawReadingSchema.safeParse(parsed);
+  if (!result.success) return { ...EMPTY_PACKAGED_FOOD_READING };
+  const raw = result.data;
+
+  return {
+    barcode: raw.barcode,
+    productName: raw.productName,
+    category: raw.category,
+    nutrition: parseNutrition(raw.nutrition),
+  };
+}
+
+/**
+ * Catalog row in the shape returned to the app
+ */
+export function toCatalogProduct(product: Product): CatalogProduct {
+  const nutrition = { ...EMPTY_NUTRITION };
+  for (const key of NUTRITION_KEYS) {
+    nutrition[key] = product[key];
+  }
+  return { id: product.id, barcode: product.barcode, name: product.name, category: product.category, nutrition };
+}
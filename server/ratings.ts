@@ -0,0 +1,85 @@
+// Meal satisfaction ratings: per-dish aggregation and recommendation prompt hints
+
+import { z } from "zod";
+
+export const ratingSchema = z.number().int().min(1).max(5);
+
+export type RatedMeal = {
+  dishName: string;
+  rating: number | null;
+  wouldEatAgain: boolean | null;
+};
+
+export type DishRatingSummary = {
+  dishName: string;
+  averageRating: number | null;
+  ratingCount: number;
+  // Latest "また食べたい" answer for the dish (null when never answered)
+  wouldEatAgain: boolean | null;
+};
+
+/**
+ * Aggregate ratings per dish name. Meals are expected newest first so that
+ * wouldEatAgain reflects the most recent answer
+ */
+export function summarizeDishRatings(meals: RatedMeal[]): DishRatingSummary[] {
+  const byDish = new Map<string, { total: number; count: number; wouldEatAgain: boolean | null }>();
+
+  meals.forEach(meal => {
+    const dishName = meal.dishName.trim();
+    if (!dishName) return;
+    const entry = byDish.get(dishName) ?? { total: 0, count: 0, wouldEatAgain: null };
+    if (meal.rating !== null) {
+      entry.total += meal.rating;
+      entry.count++;
+    }
+    if (entry.wouldEatAgain === null && meal.wouldEatAgain !== null) {
+      entry.wouldEatAgain = meal.wouldEatAgain;
+    }
+    byDish.set(dishName, entry);
+  });
+
+  return Array.from(byDish.entries()).map(([dishName, entry]) => ({
+    dishName,
+    averageRating: entry.count > 0 ? Math.round((entry.total / entry.count) * 10) / 10 : null,
+    ratingCount: entry.count,
+    wouldEatAgain: entry.wouldEatAgain,
+  }));
+}
+
+/**
+ * Split dishes into well-liked (4+ or "would eat again") and disliked (2 or
+ * below, or "would not eat again"), best and worst first
+ */
+export function splitRatedDishes(
+  summaries: DishRatingSummary[],
+  limit: number = 5
+): { liked: DishRatingSummary[]; disliked: DishRatingSummary[] } {
+  const score = (s: DishRatingSummary) => s.averageRating ?? (s.wouldEatAgain ? 4 : 2);
+
+  const liked = summaries
+    .filter(s => s.wouldEatAgain !== false && ((s.averageRating ?? 0) >= 4 || (s.averageRating === null && s.wouldEatAgain === true)))
+    .sort((a, b) => score(b) - score(a) || b.ratingCount - a.ratingCount)
+    .slice(0, limit);
+  const disliked = summaries
+    .filter(s => s.wouldEatAgain === false || (s.averageRating !== null && s.averageRating <= 2))
+    .sort((a, b) => score(a) - score(b) || b.ratingCount - a.ratingCount)
+    .slice(0, limit);
+
+  return { liked, disliked };
+}
+
+/**
+ * Prompt section describing what the household liked and disliked ("" when nothing is rated)
+ */
+export function formatRatingsForPrompt(meals: RatedMeal[]): string {
+  const { liked, disliked } = splitRatedDishes(summarizeDishRatings(meals));
+  if (liked.length === 0 && disliked.length === 0) return "";
+
+  const describe = (s: DishRatingSummary) =>
+    `${s.dishName}${s.averageRating !== null ? `（★${s.averageRating}）` : ""}`;
+  const lines = ["これまでの食事の評価:"];
+  if (liked.length > 0) lines.push(`- 好評だった料理: ${liked.map(describe).join("、")}`);
+  if (disliked.length > 0) lines.push(`- 不評だった料理: ${disliked.map(describe).join("、")}`);
+  return lines.join("\n");
+}
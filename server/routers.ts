@@ -1,11 +1,184 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { COOKIE_NAME } from "../shared/const.js";
+import { COOKIE_NAME, COST_TYPES, DEFAULT_TRACKED_MEAL_TYPES, MAX_IMPORT_CHARS, MEAL_SOURCES, MEAL_TYPES, TEMPLATE_MODES, type MealType } from "../shared/const.js";
+import { normalizeBarcode } from "../shared/barcode.js";
+import { addDays, DEFAULT_TIME_ZONE, getDateInTimeZone, getWeekDates, isTodayInTimeZone, isValidTimeZone } from "../shared/dates.js";
+import type { FoodAnalysis } from "../shared/food-analysis.js";
 import { getSessionCookieOptions } from "./_core/cookies";
+import { ENV } from "./_core/env";
 import { systemRouter } from "./_core/systemRouter";
 import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
 import * as db from "./db";
 import { invokeLLM } from "./_core/llm";
-import { storagePut } from "./storage";
+import { estimateNutrition, nutritionSchema, summarizeNutrition } from "./nutrition";
+import { buildAccountArchive, collectAccountImageKeys, deleteStoredImages, OWNED_GROUP_ACTIONS, resolveOwnedGroupActions } from "./account";
+import { getMonthRange, summarizeSpending } from "./budget";
+import { buildExportFiles, EXPORT_FORMATS, signImageUrls } from "./data-export";
+import { boundingBoxSchema, confidenceSchema } from "./dish-detection";
+import { collectRecentVenues, describeMealSource, summarizeEatingOut } from "./eating-out";
+import { analyzeFoodPhoto, FAILED_FOOD_ANALYSIS, hashImageContent } from "./food-analysis";
+import { isOwnImageKey, storeMealImage, type StoredMealImage } from "./image-processing";
+import {
+  excludeLeftoverDishes,
+  formatLeftoversForPrompt,
+  getLastNightLeftoverDishes,
+  getLeftoverSuggestions,
+  refreshLeftoversFor,
+  syncLeftoverPantryItem,
+} from "./leftovers";
+import { applyColumnMapping, guessColumnMapping, IMPORT_FORMATS, readImportTable } from "./meal-import";
+import { applyTemplateException, isScheduledOn } from "./meal-templates";
+import {
+  EMPTY_PACKAGED_FOOD_READING,
+  readPackagedFoodPhoto,
+  toCatalogProduct,
+  type PackagedFoodReading,
+} from "./packaged-food";
+import { formatRatingsForPrompt, ratingSchema, summarizeDishRatings } from "./ratings";
+import { storageGet } from "./storage";
+import { emptyTrash } from "./trash";
+import { takeUpload } from "./uploads";
+
+const mealTypeSchema = z.enum(MEAL_TYPES);
+const mealCategorySchema = z.enum(["japanese", "western", "chinese", "other"]);
+const mealSourceSchema = z.enum(MEAL_SOURCES);
+// Blank venue names are stored as null
+const venueNameSchema = z.string().trim().max(255).nullable().optional().transform(v => v === "" ? null : v);
+
+// Basic fields of a meal record shared by sync, guest migration and file import
+const mealRowSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  mealType: mealTypeSchema,
+  dishName: z.string().min(1).max(255),
+  category: mealCategorySchema,
+  note: z.string().max(500).optional(),
+});
+
+const MAX_IMPORT_ROWS = 2000;
+
+// Weekly pattern of a meal template: distinct days, 0 = Sunday ... 6 = Saturday
+const weekdaysSchema = z
+  .array(z.number().int().min(0).max(6))
+  .min(1)
+  .transform(days => Array.from(new Set(days)).sort((a, b) => a - b));
+const templateTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+function getUserTimeZone(user: { timezone: string | null }): string {
+  return user.timezone ?? DEFAULT_TIME_ZONE;
+}
+
+// Requests that mean "today" must agree with the calendar in the user's timezone
+function assertTodayForUser(date: string, user: { timezone: string | null }) {
+  const timeZone = getUserTimeZone(user);
+  if (!isTodayInTimeZone(date, timeZone)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${date} is not today in ${timeZone}` });
+  }
+}
+
+async function assertGroupMember(userId: number, groupId: number | null | undefined) {
+  if (groupId == null) return;
+  const groups = await db.getUserGroups(userId);
+  if (!groups.some(g => g.id === groupId)) {
+    throw new Error("Not a member of this group");
+  }
+}
+
+// One dish within a meal (main, side, soup...), with where it is in the photo when detected
+const mealItemSchema = z.object({
+  dishName: z.string().min(1).max(255),
+  category: mealCategorySchema,
+  portion: z.string().max(50).optional(),
+  confidence: confidenceSchema.nullable().optional(),
+  boundingBox: boundingBoxSchema.nullable().optional(),
+});
+
+// Free-form tags: trimmed, de-duplicated
+const tagsSchema = z
+  .array(z.string().trim().min(1).max(30))
+  .max(10)
+  .transform(tags => Array.from(new Set(tags)));
+
+// Yen amounts for meal prices and monthly food budgets
+const priceSchema = z.number().int().min(0).max(1_000_000);
+const monthlyBudgetSchema = z.number().int().min(0).max(10_000_000);
+
+// Dinner ideas returned by the LLM (or the fallback list)
+type DinnerRecommendation = { name: string; category: z.infer<typeof mealCategorySchema>; reason: string };
+
+// Extra portions cooked at dinner for later meals
+const leftoverPortionsSchema = z.number().int().min(1).max(10);
+
+function assertLeftoversOnDinner(mealType: MealType, leftoverPortions: number | null | undefined) {
+  if (leftoverPortions != null && mealType !== "dinner") {
+    throw new Error("Only dinner can have leftovers");
+  }
+}
+
+// Photo stored by imageAnalysis.analyzeFood: display image and thumbnail
+const imageKeySchema = z.string().min(1).max(255);
+
+function assertOwnImageKeys(userId: number, keys: (string | null | undefined)[]) {
+  if (keys.some(key => key != null && !isOwnImageKey(userId, key))) {
+    throw new Error("Invalid image key");
+  }
+}
+
+// Id returned by POST /api/uploads once the photo bytes have been sent
+const uploadIdSchema = z.string().uuid();
+
+// JAN / EAN / UPC-A digits, stored as EAN-13 or EAN-8
+const barcodeSchema = z
+  .string()
+  .refine(value => normalizeBarcode(value) !== null, "Invalid barcode")
+  .transform(value => normalizeBarcode(value)!);
+
+/**
+ * Stored photo for a finished upload with its analysis cache entry. A photo the
+ * user sent before (same bytes) reuses the stored copy instead of a new one
+ */
+async function storeUploadedPhoto(
+  userId: number,
+  uploadId: string
+): Promise<{ photo: StoredMealImage; cache: { id: number; result: FoodAnalysis | null } }> {
+  const { data } = await takeUpload(userId, uploadId);
+  const contentHash = hashImageContent(data);
+
+  const cached = await db.getImageAnalysisByHash(userId, contentHash);
+  if (cached) {
+    const { imageUrl, imageKey, thumbnailUrl, thumbnailKey } = cached;
+    return { photo: { imageUrl, imageKey, thumbnailUrl, thumbnailKey }, cache: cached };
+  }
+
+  let photo: StoredMealImage;
+  try {
+    photo = await storeMealImage(userId, data);
+  } catch (error) {
+    console.error("Failed to process image:", error);
+    throw new Error("Image could not be processed");
+  }
+  const id = await db.createImageAnalysis({ userId, contentHash, ...photo, result: null });
+  return { photo, cache: { id, result: null } };
+}
+
+const customCategoryInputSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+  icon: z.string().min(1).max(16),
+});
+
+async function assertOwnCustomCategory(userId: number, customCategoryId: number | null | undefined) {
+  if (customCategoryId == null) return;
+  const category = await db.getCustomCategoryById(customCategoryId, userId);
+  if (!category) {
+    throw new Error("Category not found");
+  }
+}
+
+// Dishes of a meal; falls back to the record itself when it has no item rows
+function dishesOf(meal: db.MealRecordWithItems): db.MealItemInput[] {
+  return meal.items.length > 0 ? meal.items : [{ dishName: meal.dishName, category: meal.category }];
+}
 
 export const appRouter = router({
   system: systemRouter,
@@ -21,30 +194,79 @@ export const appRouter = router({
   }),
 
   meals: router({
-    // Record a meal (lunch or dinner)
+    // Record a meal (breakfast, lunch, dinner or snack)
     create: protectedProcedure
       .input(
         z.object({
           date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-          mealType: z.enum(["lunch", "dinner"]),
+          mealType: mealTypeSchema,
           dishName: z.string().min(1).max(255),
           category: z.enum(["japanese", "western", "chinese", "other"]),
           note: z.string().max(500).optional(),
           imageUrl: z.string().url().optional(),
+          imageKey: imageKeySchema.optional(),
+          thumbnailUrl: z.string().url().optional(),
+          thumbnailKey: imageKeySchema.optional(),
+          // Photo sent to /api/uploads without analysis; replaces the image fields above
+          uploadId: uploadIdSchema.optional(),
           groupId: z.number().optional(),
+          items: z.array(mealItemSchema).max(20).optional(),
+          // Omit to have the server estimate it from the dish names
+          nutrition: nutritionSchema.optional(),
+          customCategoryId: z.number().nullable().optional(),
+          tags: tagsSchema.optional(),
+          rating: ratingSchema.nullable().optional(),
+          wouldEatAgain: z.boolean().nullable().optional(),
+          price: priceSchema.nullable().optional(),
+          costType: z.enum(COST_TYPES).nullable().optional(),
+          source: mealSourceSchema.nullable().optional(),
+          venueName: venueNameSchema,
+          latitude: z.number().min(-90).max(90).nullable().optional(),
+          longitude: z.number().min(-180).max(180).nullable().optional(),
+          leftoverPortions: leftoverPortionsSchema.nullable().optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
-        const id = await db.createMealRecord({
-          userId: ctx.user.id,
-          groupId: input.groupId || null,
-          date: input.date,
-          mealType: input.mealType,
-          dishName: input.dishName,
-          category: input.category,
-          note: input.note || null,
-          imageUrl: input.imageUrl || null,
-        });
+        await assertOwnCustomCategory(ctx.user.id, input.customCategoryId);
+        assertLeftoversOnDinner(input.mealType, input.leftoverPortions);
+        assertOwnImageKeys(ctx.user.id, [input.imageKey, input.thumbnailKey]);
+        const photo = input.uploadId ? (await storeUploadedPhoto(ctx.user.id, input.uploadId)).photo : null;
+        const nutrition = input.nutrition
+          ?? await estimateNutrition(input.items?.length ? input.items : [{ dishName: input.dishName }]);
+
+        const id = await db.createMealRecord(
+          {
+            userId: ctx.user.id,
+            groupId: input.groupId || null,
+            date: input.date,
+            mealType: input.mealType,
+            dishName: input.dishName,
+            category: input.category,
+            note: input.note || null,
+            imageUrl: photo?.imageUrl ?? (input.imageUrl || null),
+            imageKey: photo?.imageKey ?? input.imageKey ?? null,
+            thumbnailUrl: photo?.thumbnailUrl ?? input.thumbnailUrl ?? null,
+            thumbnailKey: photo?.thumbnailKey ?? input.thumbnailKey ?? null,
+            customCategoryId: input.customCategoryId ?? null,
+            tags: input.tags ?? [],
+            rating: input.rating ?? null,
+            wouldEatAgain: input.wouldEatAgain ?? null,
+            price: input.price ?? null,
+            // A price without a type counts as home-cooked
+            costType: input.price != null ? input.costType ?? "home_cooked" : null,
+            source: input.source ?? null,
+            venueName: input.venueName ?? null,
+            latitude: input.latitude ?? null,
+            longitude: input.longitude ?? null,
+            leftoverPortions: input.leftoverPortions ?? null,
+            ...nutrition,
+          },
+          input.items
+        );
+        if (input.leftoverPortions != null) {
+          const meal = await db.getMealRecordById(id, ctx.user.id);
+          if (meal) await syncLeftoverPantryItem(meal);
+        }
         return { id };
       }),
 
@@ -59,6 +281,7 @@ export const appRouter = router({
     getTodayLunch: protectedProcedure
       .input(z.object({ date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/) }))
       .query(async ({ ctx, input }) => {
+        assertTodayForUser(input.date, ctx.user);
         return db.getTodayLunch(ctx.user.id, input.date);
       }),
 
@@ -69,6 +292,46 @@ export const appRouter = router({
         return db.getRecentMeals(ctx.user.id, input.limit);
       }),
 
+    // Paginated history (newest first) for the infinite-scroll list
+    list: protectedProcedure
+      .input(
+        z.object({
+          limit: z.number().min(1).max(50).default(20),
+          cursor: z.object({ date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), id: z.number() }).nullish(),
+          mealType: mealTypeSchema.optional(),
+          category: mealCategorySchema.optional(),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        return db.getMealsPage(ctx.user.id, input);
+      }),
+
+    // Search dish names, item names and notes (kana/kanji-insensitive partial match)
+    search: protectedProcedure
+      .input(
+        z.object({
+          query: z.string().trim().min(1).max(100),
+          category: mealCategorySchema.optional(),
+          month: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+          limit: z.number().min(1).max(100).default(50),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        return db.searchMealRecords(ctx.user.id, input.query, input);
+      }),
+
+    // Venues used recently (for the record screen picker)
+    getRecentVenues: protectedProcedure
+      .input(z.object({ limit: z.number().min(1).max(30).default(10) }).optional())
+      .query(async ({ ctx, input }) => {
+        return collectRecentVenues(await db.getVenueMeals(ctx.user.id), input?.limit ?? 10);
+      }),
+
+    // Tags used so far (most frequent first)
+    getTags: protectedProcedure.query(async ({ ctx }) => {
+      return db.getUserTags(ctx.user.id);
+    }),
+
     // Get meals by date range
     getByDateRange: protectedProcedure
       .input(
@@ -81,11 +344,76 @@ export const appRouter = router({
         return db.getMealsByDateRange(ctx.user.id, input.startDate, input.endDate);
       }),
 
+    // Get a single meal record (for editing)
+    getById: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        return db.getMealRecordById(input.id, ctx.user.id);
+      }),
+
+    // Update a meal record (only the provided fields are changed)
+    update: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+          mealType: mealTypeSchema.optional(),
+          dishName: z.string().min(1).max(255).optional(),
+          category: z.enum(["japanese", "western", "chinese", "other"]).optional(),
+          note: z.string().max(500).nullable().optional(),
+          imageUrl: z.string().url().nullable().optional(),
+          imageKey: imageKeySchema.nullable().optional(),
+          thumbnailUrl: z.string().url().nullable().optional(),
+          thumbnailKey: imageKeySchema.nullable().optional(),
+          items: z.array(mealItemSchema).min(1).max(20).optional(),
+          nutrition: nutritionSchema.partial().optional(),
+          customCategoryId: z.number().nullable().optional(),
+          tags: tagsSchema.optional(),
+          rating: ratingSchema.nullable().optional(),
+          wouldEatAgain: z.boolean().nullable().optional(),
+          price: priceSchema.nullable().optional(),
+          costType: z.enum(COST_TYPES).nullable().optional(),
+          source: mealSourceSchema.nullable().optional(),
+          venueName: venueNameSchema,
+          latitude: z.number().min(-90).max(90).nullable().optional(),
+          longitude: z.number().min(-180).max(180).nullable().optional(),
+          leftoverPortions: leftoverPortionsSchema.nullable().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        await assertOwnCustomCategory(ctx.user.id, input.customCategoryId);
+        assertOwnImageKeys(ctx.user.id, [input.imageKey, input.thumbnailKey]);
+        const existing = await db.getMealRecordById(input.id, ctx.user.id);
+        if (!existing) {
+          throw new Error("Meal record not found");
+        }
+        assertLeftoversOnDinner(
+          input.mealType ?? existing.mealType,
+          input.leftoverPortions !== undefined ? input.leftoverPortions : existing.leftoverPortions
+        );
+
+        const { id, items, nutrition, ...data } = input;
+        // Removing the photo also drops its thumbnail
+        const photo = data.imageUrl === null ? { imageKey: null, thumbnailUrl: null, thumbnailKey: null } : {};
+        await db.updateMealRecord(id, ctx.user.id, { ...data, ...photo, ...nutrition }, items);
+
+        if (existing.leftoverPortions !== null || input.leftoverPortions != null) {
+          const meal = await db.getMealRecordById(id, ctx.user.id);
+          if (meal) await syncLeftoverPantryItem(meal);
+        }
+        return { success: true };
+      }),
+
     // Delete a meal record
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
+        const meal = await db.getMealRecordById(input.id, ctx.user.id);
         await db.deleteMealRecord(input.id, ctx.user.id);
+        // Trashing a dinner drops its leftovers; trashing a leftovers meal gives the portion back
+        if (meal && (meal.leftoverPortions !== null || meal.leftoverFromId !== null)) {
+          await refreshLeftoversFor({ ...meal, deletedAt: new Date() }, ctx.user.id);
+        }
         return { success: true };
       }),
 
@@ -93,12 +421,7 @@ export const appRouter = router({
     syncLocalMeals: protectedProcedure
       .input(
         z.array(
-          z.object({
-            date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-            mealType: z.enum(["lunch", "dinner"]),
-            dishName: z.string().min(1).max(255),
-            category: z.enum(["japanese", "western", "chinese", "other"]),
-            note: z.string().max(500).optional(),
+          mealRowSchema.extend({
             createdAt: z.string(),
           })
         )
@@ -133,85 +456,93 @@ export const appRouter = router({
     analyzeFood: protectedProcedure
       .input(
         z.object({
-          imageBase64: z.string(),
-          mimeType: z.enum(["image/jpeg", "image/png", "image/webp"]),
+          uploadId: uploadIdSchema,
+          // Analyze again even when this photo was analyzed before
+          forceReanalysis: z.boolean().optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
-        // Upload image to storage
-        const timestamp = Date.now();
-        const randomSuffix = Math.random().toString(36).substring(2, 8);
-        const extension = input.mimeType === "image/png" ? "png" : input.mimeType === "image/webp" ? "webp" : "jpg";
-        const fileKey = `meals/${ctx.user.id}/${timestamp}-${randomSuffix}.${extension}`;
-        
-        const imageBuffer = Buffer.from(input.imageBase64, "base64");
-        const { url: imageUrl } = await storagePut(fileKey, imageBuffer, input.mimeType);
+        const { photo, cache } = await storeUploadedPhoto(ctx.user.id, input.uploadId);
 
-        // Analyze image with LLM
-        const prompt = `この食事の写真を分析して、以下の情報をJSON形式で返してください:
-1. 料理名（日本語で）
-2. カテゴリ（japanese/western/chinese/otherのいずれか）
-3. 簡単な説明（30文字以内）
-
-必ず以下のJSON形式で回答してください:
-{
-  "dishName": "料理名",
-  "category": "japanese/western/chinese/other",
-  "description": "簡単な説明"
-}`;
+        // The same photo sent again (retry, re-selected) gets the earlier result without an LLM call
+        if (cache.result && !input.forceReanalysis) {
+          await db.recordImageAnalysisHit(cache.id);
+          return { ...photo, ...cache.result, cached: true };
+        }
 
         try {
-          const response = await invokeLLM({
-            messages: [
-              {
-                role: "system",
-                content: "あなたは食事の写真を分析する専門家です。写真から料理を特定し、JSON形式で情報を返してください。",
-              },
-              {
-                role: "user",
-                content: [
-                  { type: "text", text: prompt },
-                  {
-                    type: "image_url",
-                    image_url: {
-                      url: imageUrl,
-                      detail: "high",
-                    },
-                  },
-                ],
-              },
-            ],
-            response_format: { type: "json_object" },
-          });
-
-          const content = response.choices[0]?.message?.content;
-          if (!content || typeof content !== "string") {
-            throw new Error("No response from LLM");
+          const analysis = await analyzeFoodPhoto(photo.imageUrl);
+          // Nothing recognized is worth another LLM call next time, so it is not cached
+          if (analysis.candidates.length > 0) {
+            await db.updateImageAnalysisResult(cache.id, analysis);
           }
+          return { ...photo, ...analysis, cached: false };
+        } catch (error) {
+          console.error("Failed to analyze image:", error);
+          return { ...photo, ...FAILED_FOOD_ANALYSIS, cached: false };
+        }
+      }),
 
-          let parsed;
-          try {
-            parsed = JSON.parse(content);
-          } catch (parseError) {
-            console.error("Failed to parse LLM response:", parseError);
-            throw new Error("Invalid JSON response from LLM");
-          }
+    // Packaged food: reads the barcode and nutrition label, then looks the product up in the catalog.
+    // Without a catalog entry the reading is returned for the user to confirm and add
+    analyzePackagedFood: protectedProcedure
+      .input(z.object({ uploadId: uploadIdSchema }))
+      .mutation(async ({ ctx, input }) => {
+        const { photo } = await storeUploadedPhoto(ctx.user.id, input.uploadId);
 
-          return {
-            imageUrl,
-            dishName: parsed.dishName || "不明な料理",
-            category: parsed.category || "other",
-            description: parsed.description || "",
-          };
+        let reading: PackagedFoodReading;
+        try {
+          reading = await readPackagedFoodPhoto(photo.imageUrl);
         } catch (error) {
-          console.error("Failed to analyze image:", error);
-          return {
-            imageUrl,
-            dishName: "",
-            category: "other" as const,
-            description: "画像の解析に失敗しました。手動で入力してください。",
-          };
+          console.error("Failed to read packaged food:", error);
+          reading = { ...EMPTY_PACKAGED_FOOD_READING };
+        }
+        const product = reading.barcode ? await db.getProductByBarcode(reading.barcode) : null;
+        return { ...photo, reading, product: product ? toCatalogProduct(product) : null };
+      }),
+
+    // How many photos were analyzed and how many repeat analyses the cache saved
+    getCacheStats: protectedProcedure.query(async ({ ctx }) => {
+      return db.getImageAnalysisStats(ctx.user.id);
+    }),
+  }),
+
+  products: router({
+    // Catalog entry for a barcode (null when the product is unknown)
+    getByBarcode: protectedProcedure
+      .input(z.object({ barcode: barcodeSchema }))
+      .query(async ({ input }) => {
+        const product = await db.getProductByBarcode(input.barcode);
+        return product ? toCatalogProduct(product) : null;
+      }),
+
+    // Add a product the user confirmed; a barcode already in the catalog keeps its entry
+    create: protectedProcedure
+      .input(
+        z.object({
+          barcode: barcodeSchema,
+          name: z.string().trim().min(1).max(255),
+          category: mealCategorySchema,
+          nutrition: nutritionSchema,
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const existing = await db.getProductByBarcode(input.barcode);
+        if (existing) {
+          return { product: toCatalogProduct(existing), created: false };
         }
+
+        // Another request may add the same barcode in between; its entry is kept
+        const created = await db.createProduct({
+          barcode: input.barcode,
+          name: input.name,
+          category: input.category,
+          ...input.nutrition,
+          addedBy: ctx.user.id,
+        });
+        const product = await db.getProductByBarcode(input.barcode);
+        if (!product) throw new Error("Failed to add product");
+        return { product: toCatalogProduct(product), created };
       }),
   }),
 
@@ -222,9 +553,12 @@ export const appRouter = router({
         z.object({
           lunchDishName: z.string(),
           lunchCategory: z.enum(["japanese", "western", "chinese", "other"]),
+          lunchItems: z.array(mealItemSchema).max(20).optional(),
+          lunchSource: mealSourceSchema.optional(),
+          lunchVenueName: z.string().max(255).optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const categoryNames: Record<string, string> = {
           japanese: "和食",
           western: "洋食",
@@ -232,18 +566,33 @@ export const appRouter = router({
           other: "その他",
         };
 
+        const ratingLines = formatRatingsForPrompt(await db.getRatedMeals([ctx.user.id]));
+        const leftoverDishes = await getLastNightLeftoverDishes(
+          [ctx.user.id],
+          getDateInTimeZone(getUserTimeZone(ctx.user))
+        );
+        const leftoverLine = formatLeftoversForPrompt(leftoverDishes);
+
+        const lunchItemLines = input.lunchItems && input.lunchItems.length > 0
+          ? `\n- 品目:\n${input.lunchItems
+              .map(item => `  - ${item.dishName}（${categoryNames[item.category]}${item.portion ? `、${item.portion}` : ""}）`)
+              .join("\n")}`
+          : "";
+
         const prompt = `あなたは栄養バランスを考慮した食事アドバイザーです。
 ユーザーの今日のランチ情報に基づいて、夜ご飯のおすすめメニューを3つ提案してください。
 
 今日のランチ:
 - 料理名: ${input.lunchDishName}
-- カテゴリ: ${categoryNames[input.lunchCategory]}
-
+- カテゴリ: ${categoryNames[input.lunchCategory]}${lunchItemLines}${input.lunchSource ? `\n- 食べた場所: ${describeMealSource(input.lunchSource, input.lunchVenueName)}` : ""}
+${ratingLines ? `\n${ratingLines}\n` : ""}${leftoverLine ? `\n${leftoverLine}\n` : ""}
 以下の点を考慮してください:
 1. 栄養バランス（ランチで不足している栄養素を補う）
 2. 味のバリエーション（ランチと異なる味付けや調理法）
 3. カテゴリのバランス（できればランチと異なるカテゴリ）
 4. 日本の家庭で作りやすい料理
+5. 好評だった料理に近い味や食材を優先し、不評だった料理や似た料理は避ける
+6. ランチが外食の場合は、塩分・脂質を控えめにし野菜を多くとれる家庭料理を優先する
 
 必ず以下のJSON形式で回答してください:
 {
@@ -297,11 +646,11 @@ export const appRouter = router({
           }
 
           const parsed = JSON.parse(content);
-          return parsed.recommendations;
+          return excludeLeftoverDishes(parsed.recommendations as DinnerRecommendation[], leftoverDishes);
         } catch (error) {
           console.error("Failed to get recommendations:", error);
           // Fallback recommendations
-          return [
+          return excludeLeftoverDishes<DinnerRecommendation>([
             {
               name: "焼き魚定食",
               category: "japanese",
@@ -317,7 +666,7 @@ export const appRouter = router({
               category: "japanese",
               reason: "タンパク質を補給できます",
             },
-          ];
+          ], leftoverDishes);
         }
       }),
 
@@ -329,7 +678,8 @@ export const appRouter = router({
           date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        assertTodayForUser(input.date, ctx.user);
         const meals = await db.getGroupMealsForDate(input.groupId, input.date);
         const lunches = meals.filter(m => m.mealType === "lunch");
 
@@ -351,19 +701,33 @@ export const appRouter = router({
           other: "その他",
         };
 
-        const lunchSummary = lunches.map(l => `- ${l.userName || "メンバー"}: ${l.dishName}（${categoryNames[l.category]}）`).join("\n");
+        const members = await db.getGroupMembers(input.groupId);
+        const memberIds = members.map(m => m.member.userId);
+        const ratingLines = formatRatingsForPrompt(await db.getRatedMeals(memberIds));
+        const leftoverDishes = await getLastNightLeftoverDishes(memberIds, input.date);
+        const leftoverLine = formatLeftoversForPrompt(leftoverDishes);
+
+        const lunchSummary = lunches.map(l => {
+          const dishes = l.items.length > 0
+            ? l.items.map(item => `${item.dishName}（${categoryNames[item.category]}）`).join("、")
+            : `${l.dishName}（${categoryNames[l.category]}）`;
+          const place = l.source ? `【${describeMealSource(l.source, l.venueName)}】` : "";
+          return `- ${l.userName || "メンバー"}: ${dishes}${place}`;
+        }).join("\n");
 
         const prompt = `あなたは家族の栄養バランスを考慮した食事アドバイザーです。
 家族全員の今日のランチ情報に基づいて、夜ご飯のおすすめメニューを3つ提案してください。
 
 今日のランチ:
 ${lunchSummary}
-
+${ratingLines ? `\n${ratingLines}\n` : ""}${leftoverLine ? `\n${leftoverLine}\n` : ""}
 以下の点を考慮してください:
 1. 家族全員の栄養バランス
 2. 味のバリエーション
 3. 家族で一緒に食べられる料理
 4. 日本の家庭で作りやすい料理
+5. 家族に好評だった料理に近い味や食材を優先し、不評だった料理や似た料理は避ける
+6. ランチが外食だったメンバーがいる場合は、塩分・脂質を控えめにし野菜を多くとれる料理を優先する
 
 必ず以下のJSON形式で回答してください:
 {
@@ -418,17 +782,20 @@ ${lunchSummary}
 
           const parsed = JSON.parse(content);
           return {
-            recommendations: parsed.recommendations,
+            recommendations: excludeLeftoverDishes(
+              parsed.recommendations as DinnerRecommendation[],
+              leftoverDishes
+            ),
             memberLunches: lunches.map(l => ({ name: l.userName, dish: l.dishName, category: l.category })),
           };
         } catch (error) {
           console.error("Failed to get group recommendations:", error);
           return {
-            recommendations: [
+            recommendations: excludeLeftoverDishes<DinnerRecommendation>([
               { name: "焼き魚定食", category: "japanese", reason: "バランスの良い和食でヘルシーです" },
               { name: "野菜たっぷりスープ", category: "western", reason: "野菜をしっかり摂れます" },
               { name: "豆腐ハンバーグ", category: "japanese", reason: "タンパク質を補給できます" },
-            ],
+            ], leftoverDishes),
             memberLunches: lunches.map(l => ({ name: l.userName, dish: l.dishName, category: l.category })),
           };
         }
@@ -581,6 +948,19 @@ ${lunchSummary}
         return { success: true };
       }),
 
+    // Set the group's shared monthly food budget (owner only, null clears it)
+    updateBudget: protectedProcedure
+      .input(
+        z.object({
+          groupId: z.number(),
+          monthlyFoodBudget: monthlyBudgetSchema.nullable(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        await db.updateGroupMonthlyBudget(input.groupId, ctx.user.id, input.monthlyFoodBudget);
+        return { success: true };
+      }),
+
     // Get group meals for a date
     getMealsForDate: protectedProcedure
       .input(
@@ -616,6 +996,63 @@ ${lunchSummary}
         await db.updateUserNotificationSettings(ctx.user.id, input.enabled, input.lunchReminderTime);
         return { success: true };
       }),
+
+    // Get which meal types count towards the weekly completion rate
+    getTrackedMealTypes: protectedProcedure.query(async ({ ctx }) => {
+      return {
+        trackedMealTypes: ctx.user.trackedMealTypes?.length
+          ? ctx.user.trackedMealTypes
+          : DEFAULT_TRACKED_MEAL_TYPES,
+      };
+    }),
+
+    // Update which meal types count towards the weekly completion rate
+    updateTrackedMealTypes: protectedProcedure
+      .input(
+        z.object({
+          trackedMealTypes: z.array(mealTypeSchema).min(1),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        // Keep the canonical order and drop duplicates
+        const trackedMealTypes = MEAL_TYPES.filter(t => input.trackedMealTypes.includes(t));
+        await db.updateUserTrackedMealTypes(ctx.user.id, trackedMealTypes);
+        return { success: true };
+      }),
+
+    // Get the personal monthly food budget (円)
+    getMonthlyBudget: protectedProcedure.query(async ({ ctx }) => {
+      return { monthlyFoodBudget: ctx.user.monthlyFoodBudget ?? null };
+    }),
+
+    // Update the personal monthly food budget (null clears it)
+    updateMonthlyBudget: protectedProcedure
+      .input(
+        z.object({
+          monthlyFoodBudget: monthlyBudgetSchema.nullable(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        await db.updateUserMonthlyBudget(ctx.user.id, input.monthlyFoodBudget);
+        return { success: true };
+      }),
+
+    // Get the timezone that decides "today" (timezone is null until the app saves one)
+    getTimeZone: protectedProcedure.query(async ({ ctx }) => {
+      return { timezone: ctx.user.timezone ?? null, effectiveTimeZone: getUserTimeZone(ctx.user) };
+    }),
+
+    // Update the timezone (IANA name such as "Asia/Tokyo")
+    updateTimeZone: protectedProcedure
+      .input(
+        z.object({
+          timezone: z.string().max(64).refine(isValidTimeZone, { message: "Unknown timezone" }),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        await db.updateUserTimeZone(ctx.user.id, input.timezone);
+        return { success: true };
+      }),
   }),
 
   // Weekly reports and analytics
@@ -627,32 +1064,54 @@ ${lunchSummary}
         })
       )
       .query(async ({ ctx, input }) => {
-        const weekEndDate = new Date(input.weekStartDate);
-        weekEndDate.setDate(weekEndDate.getDate() + 6);
-        const endDateStr = weekEndDate.toISOString().split('T')[0];
+        const endDateStr = addDays(input.weekStartDate, 6);
 
         const meals = await db.getMealsByDateRange(ctx.user.id, input.weekStartDate, endDateStr);
 
         // Calculate statistics
         const totalMeals = meals.length;
+        const breakfasts = meals.filter(m => m.mealType === 'breakfast');
         const lunches = meals.filter(m => m.mealType === 'lunch');
         const dinners = meals.filter(m => m.mealType === 'dinner');
-
+        const snacks = meals.filter(m => m.mealType === 'snack');
+
+        // User-defined categories and tags are counted per meal
+        const customCategories = await db.getCustomCategories(ctx.user.id);
+        const customCategoryStats = customCategories
+          .map(c => ({
+            id: c.id,
+            name: c.name,
+            color: c.color,
+            icon: c.icon,
+            count: meals.filter(m => m.customCategoryId === c.id).length,
+          }))
+          .filter(c => c.count > 0);
+
+        const tagCounts: Record<string, number> = {};
+        meals.forEach(m => (m.tags ?? []).forEach(tag => {
+          tagCounts[tag] = (tagCounts[tag] ?? 0) + 1;
+        }));
+        const tagStats = Object.entries(tagCounts)
+          .map(([tag, count]) => ({ tag, count }))
+          .sort((a, b) => b.count - a.count);
+
+        // Category stats count every dish, not just the main one
+        const dishes = meals.flatMap(dishesOf);
         const categoryStats = {
-          japanese: meals.filter(m => m.category === 'japanese').length,
-          western: meals.filter(m => m.category === 'western').length,
-          chinese: meals.filter(m => m.category === 'chinese').length,
-          other: meals.filter(m => m.category === 'other').length,
+          japanese: dishes.filter(d => d.category === 'japanese').length,
+          western: dishes.filter(d => d.category === 'western').length,
+          chinese: dishes.filter(d => d.category === 'chinese').length,
+          other: dishes.filter(d => d.category === 'other').length,
         };
 
-        // Daily meal completion rate (lunch + dinner per day for 7 days = 14 meals max)
-        const dailyMeals: Record<string, { lunch: boolean; dinner: boolean }> = {};
-        for (let i = 0; i < 7; i++) {
-          const date = new Date(input.weekStartDate);
-          date.setDate(date.getDate() + i);
-          const dateStr = date.toISOString().split('T')[0];
-          dailyMeals[dateStr] = { lunch: false, dinner: false };
-        }
+        // Daily meal completion rate: a day is complete when every meal type the user tracks is recorded
+        const trackedMealTypes = ctx.user.trackedMealTypes?.length
+          ? ctx.user.trackedMealTypes
+          : DEFAULT_TRACKED_MEAL_TYPES;
+        const dailyMeals: Record<string, Record<MealType, boolean>> = {};
+        getWeekDates(input.weekStartDate).forEach(dateStr => {
+          dailyMeals[dateStr] = { breakfast: false, lunch: false, dinner: false, snack: false };
+        });
 
         meals.forEach(meal => {
           if (dailyMeals[meal.date]) {
@@ -660,18 +1119,28 @@ ${lunchSummary}
           }
         });
 
-        const completedDays = Object.values(dailyMeals).filter(day => day.lunch && day.dinner).length;
+        const completedDays = Object.values(dailyMeals).filter(day =>
+          trackedMealTypes.every(mealType => day[mealType])
+        ).length;
         const completionRate = Math.round((completedDays / 7) * 100);
 
         return {
           weekStartDate: input.weekStartDate,
           weekEndDate: endDateStr,
           totalMeals,
+          breakfasts: breakfasts.length,
           lunches: lunches.length,
           dinners: dinners.length,
+          snacks: snacks.length,
           categoryStats,
+          customCategoryStats,
+          tagStats,
           dailyMeals,
+          trackedMealTypes,
           completionRate,
+          // Summed from the nutrition stored on each record
+          nutrition: summarizeNutrition(meals),
+          eatingOut: summarizeEatingOut(meals),
           meals: meals.map(m => ({
             id: m.id,
             date: m.date,
@@ -679,10 +1148,44 @@ ${lunchSummary}
             dishName: m.dishName,
             category: m.category,
             note: m.note,
+            items: dishesOf(m),
+            customCategoryId: m.customCategoryId,
+            tags: m.tags ?? [],
+            calories: m.calories,
+            protein: m.protein,
+            fat: m.fat,
+            carbohydrate: m.carbohydrate,
+            salt: m.salt,
+            vegetableGrams: m.vegetableGrams,
           })),
         };
       }),
 
+    // Monthly food spending against the personal or group budget
+    getBudgetReport: protectedProcedure
+      .input(
+        z.object({
+          month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/),
+          groupId: z.number().optional(),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        const { startDate, endDate } = getMonthRange(input.month);
+
+        if (input.groupId === undefined) {
+          const meals = await db.getMealsByDateRange(ctx.user.id, startDate, endDate);
+          return summarizeSpending(meals, input.month, ctx.user.monthlyFoodBudget ?? null);
+        }
+
+        const groups = await db.getUserGroups(ctx.user.id);
+        const group = groups.find(g => g.id === input.groupId);
+        if (!group) {
+          throw new Error("Group not found");
+        }
+        const meals = await db.getGroupMealsByDateRange(group.id, startDate, endDate);
+        return summarizeSpending(meals, input.month, group.monthlyFoodBudget ?? null);
+      }),
+
     getNutritionAdvice: protectedProcedure
       .input(
         z.object({
@@ -690,41 +1193,60 @@ ${lunchSummary}
         })
       )
       .query(async ({ ctx, input }) => {
-        const weekEndDate = new Date(input.weekStartDate);
-        weekEndDate.setDate(weekEndDate.getDate() + 6);
-        const endDateStr = weekEndDate.toISOString().split('T')[0];
+        const endDateStr = addDays(input.weekStartDate, 6);
 
         const meals = await db.getMealsByDateRange(ctx.user.id, input.weekStartDate, endDateStr);
 
         if (meals.length === 0) {
           return {
-            advice: "今週の食事記録がありません。バランスの良い食事を心がけましょう。",
+            analysis: "今週の食事記録がありません。バランスの良い食事を心がけましょう。",
             recommendations: [],
           };
         }
 
+        const mealTypeNames: Record<string, string> = {
+          breakfast: '朝食',
+          lunch: 'ランチ',
+          dinner: 'ディナー',
+          snack: '間食',
+        };
+
         // Prepare meal summary for LLM
         const mealSummary = meals.map(m =>
-          `${m.date} ${m.mealType === 'lunch' ? 'ランチ' : 'ディナー'}: ${m.dishName} (${m.category})`
+          `${m.date} ${mealTypeNames[m.mealType]}: ${dishesOf(m).map(d => `${d.dishName} (${d.category})`).join('、')}`
         ).join('\n');
 
+        const dishes = meals.flatMap(dishesOf);
         const categoryCount = {
-          japanese: meals.filter(m => m.category === 'japanese').length,
-          western: meals.filter(m => m.category === 'western').length,
-          chinese: meals.filter(m => m.category === 'chinese').length,
-          other: meals.filter(m => m.category === 'other').length,
+          japanese: dishes.filter(d => d.category === 'japanese').length,
+          western: dishes.filter(d => d.category === 'western').length,
+          chinese: dishes.filter(d => d.category === 'chinese').length,
+          other: dishes.filter(d => d.category === 'other').length,
         };
 
+        const nutrition = summarizeNutrition(meals);
+        const nutritionSummary = nutrition.days > 0
+          ? `1日あたりの平均栄養素（推定値、${nutrition.days}日分）:
+- エネルギー: ${nutrition.dailyAverage.calories}kcal
+- たんぱく質: ${nutrition.dailyAverage.protein}g
+- 脂質: ${nutrition.dailyAverage.fat}g
+- 炭水化物: ${nutrition.dailyAverage.carbohydrate}g
+- 食塩相当量: ${nutrition.dailyAverage.salt}g
+- 野菜: ${nutrition.dailyAverage.vegetableGrams}g
+`
+          : "";
+
         const prompt = `あなたは栄養士です。以下の1週間の食事記録に基づいて、栄養バランスの分析と改善アドバイスを提供してください。
 
 食事記録:
 ${mealSummary}
 
-カテゴリ別食事数:
-- 和食: ${categoryCount.japanese}回
-- 洋食: ${categoryCount.western}回
-- 中華: ${categoryCount.chinese}回
-- その他: ${categoryCount.other}回
+${nutritionSummary}
+カテゴリ別品目数:
+- 和食: ${categoryCount.japanese}品
+- 洋食: ${categoryCount.western}品
+- 中華: ${categoryCount.chinese}品
+- その他: ${categoryCount.other}品
 
 以下の点を考慮して分析してください:
 1. 栄養バランス（タンパク質、炭水化物、脂質、ビタミン、ミネラル）
@@ -739,8 +1261,7 @@ ${mealSummary}
     "具体的な改善アドバイス1",
     "具体的な改善アドバイス2",
     "具体的な改善アドバイス3"
-  ],
-  "nutritionScore": 数値（0-100、現在の栄養バランスの評価）
+  ]
 }`;
 
         try {
@@ -774,7 +1295,6 @@ ${mealSummary}
           return {
             analysis: parsed.analysis || "分析できませんでした",
             recommendations: parsed.recommendations || [],
-            nutritionScore: parsed.nutritionScore || 50,
           };
         } catch (error) {
           console.error("Failed to get nutrition advice:", error);
@@ -785,17 +1305,51 @@ ${mealSummary}
               "タンパク質をバランスよく取りましょう",
               "食事の時間を一定に保ちましょう",
             ],
-            nutritionScore: 50,
           };
         }
       }),
   }),
 
+  // User-defined meal categories (shown next to the built-in ones)
+  categories: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return await db.getCustomCategories(ctx.user.id);
+    }),
+
+    create: protectedProcedure
+      .input(customCategoryInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        const id = await db.createCustomCategory({ userId: ctx.user.id, ...input });
+        return { id };
+      }),
+
+    update: protectedProcedure
+      .input(customCategoryInputSchema.partial().extend({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { id, ...data } = input;
+        await db.updateCustomCategory(id, ctx.user.id, data);
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await db.deleteCustomCategory(input.id, ctx.user.id);
+        return { success: true };
+      }),
+  }),
+
   // v0.6: Favorite meals API
   favorites: router({
     // Get all favorite meals
     list: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getFavoriteMeals(ctx.user.id);
+      const favorites = await db.getFavoriteMeals(ctx.user.id);
+      // Attach how the dish has been rated when it was actually eaten
+      const ratings = summarizeDishRatings(await db.getRatedMeals([ctx.user.id]));
+      return favorites.map(favorite => ({
+        ...favorite,
+        rating: ratings.find(r => r.dishName === favorite.dishName.trim()) ?? null,
+      }));
     }),
 
     // Add a meal to favorites
@@ -806,15 +1360,22 @@ ${mealSummary}
           category: z.enum(["japanese", "western", "chinese", "other"]),
           note: z.string().max(500).optional(),
           imageUrl: z.string().url().optional(),
+          imageKey: imageKeySchema.optional(),
+          thumbnailUrl: z.string().url().optional(),
+          thumbnailKey: imageKeySchema.optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
+        assertOwnImageKeys(ctx.user.id, [input.imageKey, input.thumbnailKey]);
         const id = await db.createFavoriteMeal({
           userId: ctx.user.id,
           dishName: input.dishName,
           category: input.category,
           note: input.note || null,
           imageUrl: input.imageUrl || null,
+          imageKey: input.imageKey ?? null,
+          thumbnailUrl: input.thumbnailUrl ?? null,
+          thumbnailKey: input.thumbnailKey ?? null,
         });
         return { id };
       }),
@@ -836,6 +1397,376 @@ ${mealSummary}
       }),
   }),
 
+  // Recurring meal templates
+  templates: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return db.getMealTemplates(ctx.user.id);
+    }),
+
+    // New template; dish, category and note are copied from the favorite when one is given
+    create: protectedProcedure
+      .input(
+        z.object({
+          favoriteMealId: z.number().optional(),
+          dishName: z.string().min(1).max(255).optional(),
+          category: mealCategorySchema.optional(),
+          note: z.string().max(500).optional(),
+          mealType: mealTypeSchema,
+          weekdays: weekdaysSchema,
+          mode: z.enum(TEMPLATE_MODES).default("suggest"),
+          time: templateTimeSchema.default("12:00"),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const favorite = input.favoriteMealId !== undefined
+          ? (await db.getFavoriteMeals(ctx.user.id)).find(f => f.id === input.favoriteMealId)
+          : undefined;
+        if (input.favoriteMealId !== undefined && !favorite) {
+          throw new Error("Favorite meal not found");
+        }
+
+        const dishName = input.dishName ?? favorite?.dishName;
+        const category = input.category ?? favorite?.category;
+        if (!dishName || !category) {
+          throw new Error("dishName and category are required without a favorite");
+        }
+
+        const id = await db.createMealTemplate({
+          userId: ctx.user.id,
+          favoriteMealId: favorite?.id ?? null,
+          dishName,
+          category,
+          note: input.note ?? favorite?.note ?? null,
+          mealType: input.mealType,
+          weekdays: input.weekdays,
+          mode: input.mode,
+          time: input.time,
+        });
+        return { id };
+      }),
+
+    update: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          dishName: z.string().min(1).max(255).optional(),
+          category: mealCategorySchema.optional(),
+          note: z.string().max(500).nullable().optional(),
+          mealType: mealTypeSchema.optional(),
+          weekdays: weekdaysSchema.optional(),
+          mode: z.enum(TEMPLATE_MODES).optional(),
+          time: templateTimeSchema.optional(),
+          isActive: z.boolean().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { id, ...data } = input;
+        await db.updateMealTemplate(id, ctx.user.id, data);
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await db.deleteMealTemplate(input.id, ctx.user.id);
+        return { success: true };
+      }),
+
+    // Templates scheduled on a date, after that day's skip / override
+    getForDate: protectedProcedure
+      .input(z.object({ date: dateSchema }))
+      .query(async ({ ctx, input }) => {
+        const templates = await db.getMealTemplates(ctx.user.id);
+        const templateIds = templates.map(t => t.id);
+        const [exceptions, records] = await Promise.all([
+          db.getMealTemplateExceptions(templateIds, input.date),
+          db.getTemplateMealRecords(templateIds, input.date),
+        ]);
+
+        return templates
+          .filter(template => isScheduledOn(template, input.date))
+          .map(template => {
+            const meal = applyTemplateException(template, exceptions.find(e => e.templateId === template.id));
+            const record = records.find(r => r.templateId === template.id && r.deletedAt === null);
+            return {
+              templateId: template.id,
+              mealType: template.mealType,
+              mode: template.mode,
+              time: template.time,
+              dishName: meal?.dishName ?? template.dishName,
+              category: meal?.category ?? template.category,
+              note: meal?.note ?? template.note,
+              overridden: meal?.overridden ?? false,
+              skipped: meal === null,
+              recordedMealId: record?.id ?? null,
+            };
+          });
+      }),
+
+    // One-tap record of a template's meal for today
+    record: protectedProcedure
+      .input(z.object({ templateId: z.number(), date: dateSchema }))
+      .mutation(async ({ ctx, input }) => {
+        assertTodayForUser(input.date, ctx.user);
+        const template = await db.getMealTemplateById(input.templateId, ctx.user.id);
+        if (!template) {
+          throw new Error("Meal template not found");
+        }
+        const existing = await db.getTemplateMealRecords([template.id], input.date);
+        if (existing.some(r => r.deletedAt === null)) {
+          throw new Error("Already recorded from this template");
+        }
+
+        const exceptions = await db.getMealTemplateExceptions([template.id], input.date);
+        // An explicit tap records the meal even on a skipped day
+        const meal = applyTemplateException(template, exceptions.find(e => e.action === "override")) ?? template;
+
+        const id = await db.createMealRecord({
+          userId: ctx.user.id,
+          groupId: null,
+          date: input.date,
+          mealType: template.mealType,
+          dishName: meal.dishName,
+          category: meal.category,
+          note: meal.note,
+          imageUrl: null,
+          templateId: template.id,
+        });
+        if (template.favoriteMealId) {
+          await db.incrementFavoriteUsage(template.favoriteMealId, ctx.user.id);
+        }
+        return { id };
+      }),
+
+    // Leave a single day out of the weekly pattern
+    skip: protectedProcedure
+      .input(z.object({ templateId: z.number(), date: dateSchema }))
+      .mutation(async ({ ctx, input }) => {
+        const template = await db.getMealTemplateById(input.templateId, ctx.user.id);
+        if (!template) {
+          throw new Error("Meal template not found");
+        }
+        await db.setMealTemplateException({
+          templateId: template.id,
+          date: input.date,
+          action: "skip",
+          dishName: null,
+          category: null,
+          note: null,
+        });
+        return { success: true };
+      }),
+
+    // Eat something else on a single day (e.g. a different set at the cafeteria)
+    override: protectedProcedure
+      .input(
+        z.object({
+          templateId: z.number(),
+          date: dateSchema,
+          dishName: z.string().min(1).max(255),
+          category: mealCategorySchema.optional(),
+          note: z.string().max(500).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const template = await db.getMealTemplateById(input.templateId, ctx.user.id);
+        if (!template) {
+          throw new Error("Meal template not found");
+        }
+        await db.setMealTemplateException({
+          templateId: template.id,
+          date: input.date,
+          action: "override",
+          dishName: input.dishName,
+          category: input.category ?? null,
+          note: input.note || null,
+        });
+        return { success: true };
+      }),
+
+    // Back to the regular template on that day
+    clearException: protectedProcedure
+      .input(z.object({ templateId: z.number(), date: dateSchema }))
+      .mutation(async ({ ctx, input }) => {
+        const template = await db.getMealTemplateById(input.templateId, ctx.user.id);
+        if (!template) {
+          throw new Error("Meal template not found");
+        }
+        await db.clearMealTemplateException(template.id, input.date);
+        return { success: true };
+      }),
+  }),
+
+  // Meals planned for upcoming days, optionally shared with a group
+  mealPlans: router({
+    list: protectedProcedure
+      .input(z.object({ startDate: dateSchema, endDate: dateSchema }))
+      .query(async ({ ctx, input }) => {
+        return db.getMealPlansByDateRange(ctx.user.id, input.startDate, input.endDate);
+      }),
+
+    create: protectedProcedure
+      .input(
+        z.object({
+          date: dateSchema,
+          mealType: mealTypeSchema.default("dinner"),
+          dishName: z.string().min(1).max(255),
+          category: mealCategorySchema,
+          note: z.string().max(500).optional(),
+          groupId: z.number().nullable().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (input.date < getDateInTimeZone(getUserTimeZone(ctx.user))) {
+          throw new Error("Cannot plan meals in the past");
+        }
+        await assertGroupMember(ctx.user.id, input.groupId);
+
+        const id = await db.createMealPlan({
+          userId: ctx.user.id,
+          groupId: input.groupId ?? null,
+          date: input.date,
+          mealType: input.mealType,
+          dishName: input.dishName,
+          category: input.category,
+          note: input.note || null,
+        });
+        return { id };
+      }),
+
+    update: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          date: dateSchema.optional(),
+          mealType: mealTypeSchema.optional(),
+          dishName: z.string().min(1).max(255).optional(),
+          category: mealCategorySchema.optional(),
+          note: z.string().max(500).nullable().optional(),
+          groupId: z.number().nullable().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const plan = await db.getMealPlanById(input.id, ctx.user.id);
+        if (!plan) {
+          throw new Error("Meal plan not found");
+        }
+        // The recorded meal is edited instead, so the two never disagree
+        if (plan.mealRecordId !== null) {
+          throw new Error("Meal plan already recorded");
+        }
+        if (input.date !== undefined && input.date < getDateInTimeZone(getUserTimeZone(ctx.user))) {
+          throw new Error("Cannot plan meals in the past");
+        }
+        await assertGroupMember(ctx.user.id, input.groupId);
+
+        const { id, ...data } = input;
+        await db.updateMealPlan(id, data);
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const plan = await db.getMealPlanById(input.id, ctx.user.id);
+        if (!plan) {
+          throw new Error("Meal plan not found");
+        }
+        await db.deleteMealPlan(plan.id);
+        return { success: true };
+      }),
+
+    // Turn the plan into an actual meal record once its day has come
+    record: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const plan = await db.getMealPlanById(input.id, ctx.user.id);
+        if (!plan) {
+          throw new Error("Meal plan not found");
+        }
+        if (plan.mealRecordId !== null) {
+          throw new Error("Meal plan already recorded");
+        }
+        if (plan.date > getDateInTimeZone(getUserTimeZone(ctx.user))) {
+          throw new Error("Cannot record a meal plan before its date");
+        }
+
+        const nutrition = await estimateNutrition([{ dishName: plan.dishName }]);
+        const mealRecordId = await db.createMealRecord({
+          userId: ctx.user.id,
+          groupId: plan.groupId,
+          date: plan.date,
+          mealType: plan.mealType,
+          dishName: plan.dishName,
+          category: plan.category,
+          note: plan.note,
+          imageUrl: null,
+          ...nutrition,
+        });
+        await db.updateMealPlan(plan.id, { mealRecordId });
+        return { id: mealRecordId };
+      }),
+  }),
+
+  // Leftovers from recent dinners, offered as the next day's lunch
+  leftovers: router({
+    getSuggestions: protectedProcedure
+      .input(z.object({ date: dateSchema }))
+      .query(async ({ ctx, input }) => {
+        return getLeftoverSuggestions(ctx.user.id, input.date);
+      }),
+
+    // Record today's lunch from a dinner's leftovers, linked to that dinner
+    recordLunch: protectedProcedure
+      .input(z.object({ mealId: z.number(), date: dateSchema }))
+      .mutation(async ({ ctx, input }) => {
+        assertTodayForUser(input.date, ctx.user);
+        const suggestions = await getLeftoverSuggestions(ctx.user.id, input.date);
+        if (!suggestions.some(s => s.mealId === input.mealId)) {
+          throw new Error("No leftovers left");
+        }
+        const dinner = await db.getMealRecordById(input.mealId, ctx.user.id);
+        if (!dinner) {
+          throw new Error("Meal record not found");
+        }
+
+        const id = await db.createMealRecord(
+          {
+            userId: ctx.user.id,
+            groupId: dinner.groupId,
+            date: input.date,
+            mealType: "lunch",
+            dishName: dinner.dishName,
+            category: dinner.category,
+            customCategoryId: dinner.customCategoryId,
+            note: null,
+            imageUrl: dinner.imageUrl,
+            imageKey: dinner.imageKey,
+            thumbnailUrl: dinner.thumbnailUrl,
+            thumbnailKey: dinner.thumbnailKey,
+            source: "bento",
+            leftoverFromId: dinner.id,
+            // One leftover portion: the same as the dinner portion
+            calories: dinner.calories,
+            protein: dinner.protein,
+            fat: dinner.fat,
+            carbohydrate: dinner.carbohydrate,
+            salt: dinner.salt,
+            vegetableGrams: dinner.vegetableGrams,
+          },
+          dinner.items.map(item => ({
+            dishName: item.dishName,
+            category: item.category,
+            portion: item.portion,
+            confidence: item.confidence,
+            boundingBox: item.boundingBox,
+          }))
+        );
+        await syncLeftoverPantryItem(dinner);
+        return { id };
+      }),
+  }),
+
   // v0.6: Pantry inventory API
   pantry: router({
     // Get all pantry items
@@ -904,21 +1835,49 @@ ${mealSummary}
       }),
   }),
 
+  // Trash: soft-deleted meals, favorites and pantry items
+  trash: router({
+    // Everything currently in the trash, plus the retention period so the client can show purge dates
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const trash = await db.getTrash(ctx.user.id);
+      return { ...trash, retentionDays: ENV.trashRetentionDays };
+    }),
+
+    restore: protectedProcedure
+      .input(
+        z.object({
+          type: z.enum(["meal", "favorite", "pantry"]),
+          id: z.number(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (input.type === "meal") {
+          await db.restoreMealRecord(input.id, ctx.user.id);
+          const meal = await db.getMealRecordById(input.id, ctx.user.id);
+          if (meal && (meal.leftoverPortions !== null || meal.leftoverFromId !== null)) {
+            await refreshLeftoversFor(meal, ctx.user.id);
+          }
+        } else if (input.type === "favorite") {
+          await db.restoreFavoriteMeal(input.id, ctx.user.id);
+        } else {
+          await db.restorePantryItem(input.id, ctx.user.id);
+        }
+        return { success: true };
+      }),
+
+    // Permanently delete everything in the trash now
+    empty: protectedProcedure.mutation(async ({ ctx }) => {
+      return await emptyTrash(ctx.user.id);
+    }),
+  }),
+
   // v0.6: Guest data migration API
   migration: router({
     // Migrate local data to cloud
     migrateGuestData: protectedProcedure
       .input(
         z.object({
-          meals: z.array(
-            z.object({
-              date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-              mealType: z.enum(["lunch", "dinner"]),
-              dishName: z.string().min(1).max(255),
-              category: z.enum(["japanese", "western", "chinese", "other"]),
-              note: z.string().max(500).optional(),
-            })
-          ),
+          meals: z.array(mealRowSchema),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -946,6 +1905,232 @@ ${mealSummary}
         }
         return { migratedCount };
       }),
+
+    // Import historical meals from a CSV or JSON export (e.g. a spreadsheet).
+    // dryRun only validates and returns a preview with per-row errors
+    importMeals: protectedProcedure
+      .input(
+        z.object({
+          format: z.enum(IMPORT_FORMATS),
+          content: z.string().min(1).max(MAX_IMPORT_CHARS),
+          // Source column for each field; guessed from the header when omitted
+          mapping: z
+            .object({
+              date: z.string().optional(),
+              mealType: z.string().optional(),
+              dishName: z.string().optional(),
+              category: z.string().optional(),
+              note: z.string().optional(),
+            })
+            .optional(),
+          dryRun: z.boolean().default(true),
+          // Import the valid rows even when some rows have errors
+          skipInvalidRows: z.boolean().default(false),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const table = readImportTable(input.format, input.content);
+        if (table.records.length > MAX_IMPORT_ROWS) {
+          throw new Error(`Too many rows (max ${MAX_IMPORT_ROWS})`);
+        }
+
+        const mapping = input.mapping ?? guessColumnMapping(table.columns);
+        const missingFields = (["date", "mealType", "dishName"] as const).filter(field => !mapping[field]);
+
+        // Row numbers are 1-based data rows (the CSV header is not counted)
+        const validRows: { row: number; meal: z.infer<typeof mealRowSchema> }[] = [];
+        const errors: { row: number; messages: string[] }[] = [];
+        table.records.forEach((record, index) => {
+          const result = mealRowSchema.safeParse(applyColumnMapping(record, mapping));
+          if (result.success) {
+            validRows.push({ row: index + 1, meal: result.data });
+          } else {
+            errors.push({
+              row: index + 1,
+              messages: result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`),
+            });
+          }
+        });
+
+        // Rows already recorded (same date, meal type and dish) are skipped so re-importing a file is harmless,
+        // and so are repeats of an earlier row in the same file
+        const dates = validRows.map(r => r.meal.date).sort();
+        const existing = dates.length > 0
+          ? await db.getMealsByDateRange(ctx.user.id, dates[0], dates[dates.length - 1])
+          : [];
+        const seenKeys = new Set(existing.map(m => `${m.date}|${m.mealType}|${m.dishName}`));
+        const duplicateRows: number[] = [];
+        const rowsToImport = validRows.filter(r => {
+          const key = `${r.meal.date}|${r.meal.mealType}|${r.meal.dishName}`;
+          if (seenKeys.has(key)) {
+            duplicateRows.push(r.row);
+            return false;
+          }
+          seenKeys.add(key);
+          return true;
+        });
+
+        let importedCount = 0;
+        if (!input.dryRun) {
+          if (missingFields.length > 0) {
+            throw new Error(`Missing column mapping: ${missingFields.join(", ")}`);
+          }
+          if (errors.length > 0 && !input.skipInvalidRows) {
+            throw new Error(`${errors.length} rows have errors`);
+          }
+          importedCount = await db.createMealRecordsInTransaction(
+            rowsToImport.map(({ meal }) => ({
+              userId: ctx.user.id,
+              groupId: null,
+              date: meal.date,
+              mealType: meal.mealType,
+              dishName: meal.dishName,
+              category: meal.category,
+              note: meal.note || null,
+              imageUrl: null,
+            }))
+          );
+        }
+
+        return {
+          columns: table.columns,
+          mapping,
+          missingFields,
+          totalRows: table.records.length,
+          validRows: rowsToImport.length,
+          duplicateRows,
+          errors,
+          preview: rowsToImport.slice(0, 20).map(({ row, meal }) => ({ row, ...meal })),
+          importedCount,
+        };
+      }),
+  }),
+
+  dataExport: router({
+    // Meals in the date range plus all favorites and pantry items, as files to share
+    create: protectedProcedure
+      .input(
+        z
+          .object({
+            format: z.enum(EXPORT_FORMATS),
+            startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+            endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+          })
+          .refine(input => input.startDate <= input.endDate, { message: "startDate must not be after endDate" })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const [meals, favorites, pantry] = await Promise.all([
+          db.getMealsByDateRange(ctx.user.id, input.startDate, input.endDate),
+          db.getFavoriteMeals(ctx.user.id),
+          db.getPantryInventory(ctx.user.id),
+        ]);
+
+        // Oldest first, in meal order within a day
+        const sortedMeals = [...meals].sort(
+          (a, b) => a.date.localeCompare(b.date) || MEAL_TYPES.indexOf(a.mealType) - MEAL_TYPES.indexOf(b.mealType)
+        );
+
+        const files = buildExportFiles(input.format, {
+          startDate: input.startDate,
+          endDate: input.endDate,
+          meals: await signImageUrls(sortedMeals),
+          favorites: await signImageUrls(favorites),
+          pantry,
+        });
+
+        return {
+          mealCount: meals.length,
+          favoriteCount: favorites.length,
+          pantryCount: pantry.length,
+          files,
+        };
+      }),
+  }),
+
+  account: router({
+    // Groups the user owns, with the members who could take over
+    getOwnedGroups: protectedProcedure.query(async ({ ctx }) => {
+      const owned = await db.getOwnedGroupsWithMembers(ctx.user.id);
+      return owned.map(({ group, members }) => ({
+        id: group.id,
+        name: group.name,
+        members: members
+          .filter(m => m.member.userId !== ctx.user.id)
+          .map(m => ({ userId: m.member.userId, name: m.user.name, joinedAt: m.member.joinedAt })),
+      }));
+    }),
+
+    // Archive of everything stored for the account
+    exportAll: protectedProcedure.mutation(async ({ ctx }) => {
+      const data = await db.getAccountData(ctx.user.id);
+      if (!data) {
+        throw new Error("Account not found");
+      }
+
+      const imageKeys = collectAccountImageKeys(data);
+      const photos = await Promise.all(
+        imageKeys.map(async key => ({
+          key,
+          url: await storageGet(key).then(r => r.url).catch(() => null),
+        }))
+      );
+
+      return buildAccountArchive({
+        user: data.user,
+        notificationSettings: {
+          enabled: data.user.notificationEnabled,
+          lunchReminderTime: data.user.lunchReminderTime,
+          trackedMealTypes: data.user.trackedMealTypes,
+        },
+        meals: data.meals,
+        photos,
+        customCategories: data.customCategories,
+        groups: data.groups,
+        favorites: data.favorites,
+        pantry: data.pantry,
+        mealTemplates: data.mealTemplates,
+        mealPlans: data.mealPlans,
+      });
+    }),
+
+    // Permanently delete the account, its records and photos
+    delete: protectedProcedure
+      .input(
+        z
+          .object({
+            // Per owned group: hand it to another member or delete it (default: transfer when possible)
+            groupActions: z
+              .array(
+                z.object({
+                  groupId: z.number(),
+                  action: z.enum(OWNED_GROUP_ACTIONS),
+                  newOwnerId: z.number().optional(),
+                })
+              )
+              .optional(),
+          })
+          .optional()
+      )
+      .mutation(async ({ ctx, input }) => {
+        const owned = await db.getOwnedGroupsWithMembers(ctx.user.id);
+        const groupActions = resolveOwnedGroupActions(
+          ctx.user.id,
+          owned.map(({ group, members }) => ({ groupId: group.id, members: members.map(m => m.member) })),
+          input?.groupActions
+        );
+
+        // Photo keys have to be read before the rows are gone
+        const data = await db.getAccountData(ctx.user.id);
+        const imageKeys = data ? collectAccountImageKeys(data) : [];
+
+        const result = await db.deleteUserAccount(ctx.user.id, groupActions);
+        const imagesDeleted = await deleteStoredImages(imageKeys);
+
+        const cookieOptions = getSessionCookieOptions(ctx.req);
+        ctx.res.clearCookie(COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
+
+        return { ...result, imagesDeleted };
+      }),
   }),
 });
 
@@ -0,0 +1,51 @@
+import { ENV } from "./_core/env";
+import { collectImageKeys, deleteStoredImages } from "./account";
+import * as db from "./db";
+
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000; // every 6 hours
+
+/**
+ * Removes the stored photos of purged rows once the rows are gone. Best effort,
+ * as for account deletion: a storage failure never brings the rows back
+ */
+async function finishPurge({ imageUrls, ...result }: db.TrashPurge): Promise<db.TrashPurgeResult> {
+  if (imageUrls.length > 0) {
+    await deleteStoredImages(collectImageKeys(imageUrls));
+  }
+  return result;
+}
+
+/**
+ * Empties one user's trash right away, photos included
+ */
+export async function emptyTrash(userId: number): Promise<db.TrashPurgeResult> {
+  return finishPurge(await db.emptyTrash(userId));
+}
+
+/**
+ * Purges trashed meals, favorites and pantry items older than the configured
+ * retention period (TRASH_RETENTION_DAYS, default 30 days)
+ */
+export async function runTrashPurge(retentionDays: number = ENV.trashRetentionDays) {
+  try {
+    const result = await finishPurge(await db.purgeExpiredTrash(retentionDays));
+    const total = result.meals + result.favorites + result.pantryItems;
+    if (total > 0) {
+      console.log(
+        `[trash] purged ${result.meals} meals, ${result.favorites} favorites, ${result.pantryItems} pantry items`
+      );
+    }
+    return result;
+  } catch (error) {
+    console.error("[trash] purge failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Runs the purge once at startup and then periodically while the server is up
+ */
+export function scheduleTrashPurge(): ReturnType<typeof setInterval> {
+  void runTrashPurge();
+  return setInterval(() => void runTrashPurge(), PURGE_INTERVAL_MS);
+}
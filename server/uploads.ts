@@ -0,0 +1,280 @@
+// Resumable binary photo uploads (replaces base64 images inside tRPC mutations)
+//
+// 1. POST   /api/uploads          { size }           -> { uploadId, offset: 0, size }
+// 2. PATCH  /api/uploads/:id      Upload-Offset: n   raw bytes from offset n -> { offset, complete }
+//    When the connection drops, the bytes received so far are kept:
+//    GET /api/uploads/:id returns the offset to continue from.
+// 3. Pass the uploadId to imageAnalysis.analyzeFood or meals.create, which take the file.
+
+import { randomUUID } from "crypto";
+import type { Express, Request, Response } from "express";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { BadRequestError, ForbiddenError, HttpError, NotFoundError } from "../shared/_core/errors.js";
+import { sdk } from "./_core/sdk";
+
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+export const UPLOAD_TTL_MS = 60 * 60 * 1000; // unfinished uploads are dropped after an hour
+// Uploads held in the temp dir at once: per user, and declared bytes across everyone
+export const MAX_PENDING_UPLOADS_PER_USER = 10;
+export const MAX_PENDING_UPLOAD_BYTES = 1024 * 1024 * 1024;
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+const UPLOAD_DIR = path.join(os.tmpdir(), "meal-uploads");
+const SIGNATURE_BYTES = 12;
+const UNSUPPORTED_TYPE_MESSAGE = "Only JPEG, PNG and WebP images can be uploaded";
+
+export type ImageMimeType = "image/jpeg" | "image/png" | "image/webp";
+
+type PendingUpload = {
+  id: string;
+  userId: number;
+  size: number;
+  offset: number;
+  filePath: string;
+  head: Buffer; // first SIGNATURE_BYTES received
+  mimeType: ImageMimeType | null; // sniffed from head
+  expiresAt: number;
+  writing: boolean;
+};
+
+export type UploadStatus = { uploadId: string; size: number; offset: number; complete: boolean };
+
+const uploads = new Map<string, PendingUpload>();
+
+/**
+ * Image type from the file signature; the client's declared type is never trusted
+ */
+export function sniffImageType(head: Uint8Array): ImageMimeType | null {
+  const bytes = Buffer.from(head.buffer, head.byteOffset, head.byteLength);
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (bytes.length >= 12 && bytes.toString("ascii", 0, 4) === "RIFF" && bytes.toString("ascii", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+function toStatus(upload: PendingUpload): UploadStatus {
+  return { uploadId: upload.id, size: upload.size, offset: upload.offset, complete: upload.offset === upload.size };
+}
+
+function getOwnUpload(userId: number, uploadId: string): PendingUpload {
+  const upload = uploads.get(uploadId);
+  if (!upload || upload.expiresAt < Date.now()) {
+    throw NotFoundError("Upload not found");
+  }
+  if (upload.userId !== userId) {
+    throw ForbiddenError("Upload belongs to another user");
+  }
+  return upload;
+}
+
+async function removeUpload(upload: PendingUpload) {
+  uploads.delete(upload.id);
+  await fs.rm(upload.filePath, { force: true });
+}
+
+export async function createUpload(userId: number, size: number): Promise<UploadStatus> {
+  if (!Number.isInteger(size) || size <= 0) {
+    throw BadRequestError("size must be a positive integer");
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    throw new HttpError(413, `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes`);
+  }
+
+  // Expired uploads still waiting for cleanup do not count
+  const now = Date.now();
+  const pending = Array.from(uploads.values()).filter(upload => upload.expiresAt >= now);
+  if (pending.filter(upload => upload.userId === userId).length >= MAX_PENDING_UPLOADS_PER_USER) {
+    throw new HttpError(429, "Too many unfinished uploads");
+  }
+  if (pending.reduce((total, upload) => total + upload.size, size) > MAX_PENDING_UPLOAD_BYTES) {
+    throw new HttpError(429, "Upload capacity is full, try again later");
+  }
+
+  await fs.mkdir(UPLOAD_DIR, { recursive: true });
+  const id = randomUUID();
+  const upload: PendingUpload = {
+    id,
+    userId,
+    size,
+    offset: 0,
+    filePath: path.join(UPLOAD_DIR, id),
+    head: Buffer.alloc(0),
+    mimeType: null,
+    expiresAt: now + UPLOAD_TTL_MS,
+    writing: false,
+  };
+  await fs.writeFile(upload.filePath, Buffer.alloc(0));
+  uploads.set(id, upload);
+  return toStatus(upload);
+}
+
+export function getUploadStatus(userId: number, uploadId: string): UploadStatus {
+  return toStatus(getOwnUpload(userId, uploadId));
+}
+
+/**
+ * Append bytes starting at `offset`, which must be where the upload currently
+ * stands. Everything received is kept even when the body ends early, so the
+ * client can resume from the returned (or later queried) offset.
+ */
+export async function writeUploadChunk(
+  userId: number,
+  uploadId: string,
+  offset: number,
+  body: AsyncIterable<Uint8Array>
+): Promise<UploadStatus> {
+  const upload = getOwnUpload(userId, uploadId);
+  if (upload.writing) {
+    throw new HttpError(409, "Upload is already receiving data");
+  }
+  if (offset !== upload.offset) {
+    throw new HttpError(409, `Upload-Offset must be ${upload.offset}`);
+  }
+
+  upload.writing = true;
+  const file = await fs.open(upload.filePath, "a");
+  let rejection: HttpError | null = null;
+  try {
+    for await (const chunk of body) {
+      if (upload.offset + chunk.byteLength > upload.size) {
+        rejection = new HttpError(413, "Upload is larger than its declared size");
+        break;
+      }
+      await file.write(chunk);
+      upload.offset += chunk.byteLength;
+
+      // Reject non-images as soon as the signature has arrived
+      if (upload.head.length < SIGNATURE_BYTES) {
+        upload.head = Buffer.concat([upload.head, chunk]).subarray(0, SIGNATURE_BYTES);
+      }
+      if (upload.mimeType === null && upload.head.length === SIGNATURE_BYTES) {
+        upload.mimeType = sniffImageType(upload.head);
+        if (upload.mimeType === null) {
+          rejection = new HttpError(415, UNSUPPORTED_TYPE_MESSAGE);
+          break;
+        }
+      }
+    }
+  } catch (error) {
+    // Connection dropped: keep what was received so the client can resume
+    console.warn(`[uploads] ${upload.id} interrupted at ${upload.offset}/${upload.size} bytes:`, error);
+  } finally {
+    upload.writing = false;
+    await file.close();
+  }
+
+  if (rejection) {
+    await removeUpload(upload);
+    throw rejection;
+  }
+  upload.expiresAt = Date.now() + UPLOAD_TTL_MS;
+  return toStatus(upload);
+}
+
+export async function cancelUpload(userId: number, uploadId: string): Promise<void> {
+  await removeUpload(getOwnUpload(userId, uploadId));
+}
+
+/**
+ * Hand over a finished upload; the temporary file is removed, so an id can be used once
+ */
+export async function takeUpload(userId: number, uploadId: string): Promise<{ data: Buffer; mimeType: ImageMimeType }> {
+  const upload = getOwnUpload(userId, uploadId);
+  if (upload.writing || upload.offset !== upload.size) {
+    throw new HttpError(409, "Upload is not complete");
+  }
+
+  const data = await fs.readFile(upload.filePath);
+  await removeUpload(upload);
+  const mimeType = upload.mimeType ?? sniffImageType(data);
+  if (!mimeType) {
+    throw new HttpError(415, UNSUPPORTED_TYPE_MESSAGE);
+  }
+  return { data, mimeType };
+}
+
+/**
+ * Drops unfinished uploads that have not received data within UPLOAD_TTL_MS
+ */
+export async function removeExpiredUploads(now = Date.now()): Promise<number> {
+  const expired = Array.from(uploads.values()).filter(upload => upload.expiresAt < now && !upload.writing);
+  await Promise.all(expired.map(removeUpload));
+  return expired.length;
+}
+
+/**
+ * Clears files left over from a previous run (uploads live in memory) and then
+ * periodically drops expired uploads while the server is up
+ */
+export function scheduleUploadCleanup(): ReturnType<typeof setInterval> {
+  void fs.rm(UPLOAD_DIR, { recursive: true, force: true }).catch(error => console.error("[uploads] cleanup failed:", error));
+  return setInterval(
+    () => void removeExpiredUploads().catch(error => console.error("[uploads] cleanup failed:", error)),
+    CLEANUP_INTERVAL_MS
+  );
+}
+
+async function handle(req: Request, res: Response, action: (userId: number) => Promise<unknown>) {
+  let userId: number;
+  try {
+    userId = (await sdk.authenticateRequest(req)).id;
+  } catch {
+    res.status(401).json({ error: "Not authenticated" });
+    return;
+  }
+
+  try {
+    const result = await action(userId);
+    if (result === undefined) {
+      res.sendStatus(204);
+    } else {
+      res.json(result);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    console.error("[uploads] request failed:", error);
+    res.status(500).json({ error: "Upload failed" });
+  }
+}
+
+export function registerUploadRoutes(app: Express) {
+  app.post("/api/uploads", (req: Request, res: Response) =>
+    handle(req, res, userId => createUpload(userId, Number(req.body?.size)))
+  );
+
+  app.get("/api/uploads/:id", (req: Request, res: Response) =>
+    handle(req, res, async userId => getUploadStatus(userId, req.params.id))
+  );
+
+  app.patch("/api/uploads/:id", (req: Request, res: Response) =>
+    handle(req, res, async userId => {
+      const offset = Number(req.header("Upload-Offset"));
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw BadRequestError("Upload-Offset header is required");
+      }
+      // Refuse oversized bodies before reading them when the length is known
+      const contentLength = Number(req.header("Content-Length") ?? NaN);
+      if (offset + contentLength > getUploadStatus(userId, req.params.id).size) {
+        throw new HttpError(413, "Upload is larger than its declared size");
+      }
+      return writeUploadChunk(userId, req.params.id, offset, req);
+    })
+  );
+
+  app.delete("/api/uploads/:id", (req: Request, res: Response) =>
+    handle(req, res, async userId => {
+      await cancelUpload(userId, req.params.id);
+      return undefined;
+    })
+  );
+}
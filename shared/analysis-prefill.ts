@@ -0,0 +1,57 @@
+/**
+ * What a meal photo analysis fills in on the record form.
+ *
+ * A confident analysis fills in the name, note, dishes and nutrition at once.
+ * Below ANALYSIS_CONFIDENCE_THRESHOLD the guess is only offered as candidates:
+ * nothing is filled in until the user picks one, so a poor guess is never saved
+ * without a look.
+ */
+
+import { ANALYSIS_CONFIDENCE_THRESHOLD, type Nutrition } from "./const";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+export type AnalysisCandidate = { dishName: string; category: Category; confidence: number };
+
+export type PhotoAnalysis<TDish> = {
+  confidence: number;
+  candidates: AnalysisCandidate[];
+  description: string;
+  dishes: TDish[];
+  nutrition: Nutrition;
+};
+
+export type AnalysisPrefill<TDish> = {
+  dishName: string;
+  category: Category;
+  note: string;
+  dishes: TDish[];
+  nutrition: Nutrition;
+};
+
+/**
+ * Whether the best candidate is certain enough to fill in the form by itself
+ */
+export function isConfidentAnalysis(analysis: Pick<PhotoAnalysis<unknown>, "confidence" | "candidates">): boolean {
+  return analysis.candidates.length > 0 && analysis.confidence >= ANALYSIS_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Form values for an analysis, named after the candidate the user picked (or the
+ * best one when the analysis is confident); null when nothing should be filled in
+ */
+export function getAnalysisPrefill<TDish>(
+  analysis: PhotoAnalysis<TDish>,
+  picked?: AnalysisCandidate
+): AnalysisPrefill<TDish> | null {
+  const candidate = picked ?? (isConfidentAnalysis(analysis) ? analysis.candidates[0] : undefined);
+  if (!candidate) return null;
+
+  return {
+    dishName: candidate.dishName,
+    category: candidate.category,
+    note: analysis.description,
+    dishes: analysis.dishes,
+    nutrition: analysis.nutrition,
+  };
+}
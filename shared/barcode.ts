@@ -0,0 +1,26 @@
+/**
+ * Product barcodes (JAN / EAN), shared by the server (catalog lookup) and the app (manual entry).
+ *
+ * Barcodes are stored as EAN-13 or EAN-8 digit strings; a 12-digit UPC-A is the
+ * same code as the EAN-13 with a leading zero, so it is stored that way.
+ */
+
+/**
+ * Digits of a valid barcode, or null when the length or check digit is wrong.
+ * Spaces and hyphens (as printed or typed) are ignored.
+ */
+export function normalizeBarcode(value: string): string | null {
+  let digits = value.replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits)) return null;
+  if (digits.length === 12) digits = `0${digits}`;
+  if (digits.length !== 13 && digits.length !== 8) return null;
+
+  // Weights 3 and 1 alternate from the digit left of the check digit
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += Number(body[body.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return checkDigit === Number(digits[digits.length - 1]) ? digits : null;
+}
@@ -0,0 +1,51 @@
+/**
+ * Regions of a meal photo, shared by the server (dish detection) and the app (crop editor).
+ *
+ * Coordinates are normalized to the image: (0, 0) is the top-left corner and
+ * (1, 1) the bottom-right, so a box stays valid whatever size the photo is shown at.
+ */
+
+export type BoundingBox = { x: number; y: number; width: number; height: number };
+
+export const FULL_IMAGE_BOX: BoundingBox = { x: 0, y: 0, width: 1, height: 1 };
+
+// Smallest side a box may shrink to (5% of the photo)
+export const MIN_BOX_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Keeps a box inside the photo and at least MIN_BOX_SIZE on each side
+ */
+export function clampBoundingBox(box: BoundingBox): BoundingBox {
+  const width = clamp(box.width, MIN_BOX_SIZE, 1);
+  const height = clamp(box.height, MIN_BOX_SIZE, 1);
+  return {
+    x: round(clamp(box.x, 0, 1 - width)),
+    y: round(clamp(box.y, 0, 1 - height)),
+    width: round(width),
+    height: round(height),
+  };
+}
+
+/**
+ * Moves a box by (dx, dy), staying inside the photo
+ */
+export function moveBoundingBox(box: BoundingBox, dx: number, dy: number): BoundingBox {
+  return clampBoundingBox({ ...box, x: box.x + dx, y: box.y + dy });
+}
+
+/**
+ * Grows (positive) or shrinks (negative) a box around its center
+ */
+export function resizeBoundingBox(box: BoundingBox, delta: number): BoundingBox {
+  const width = clamp(box.width + delta, MIN_BOX_SIZE, 1);
+  const height = clamp(box.height + delta, MIN_BOX_SIZE, 1);
+  return clampBoundingBox({
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  });
+}
@@ -3,3 +3,37 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = "Please login (10001)";
 export const NOT_ADMIN_ERR_MSG = "You do not have required permission (10002)";
+
+export const MEAL_TYPES = ["breakfast", "lunch", "dinner", "snack"] as const;
+export type MealType = (typeof MEAL_TYPES)[number];
+// Meal types that count towards the weekly completion rate unless the user changes them
+export const DEFAULT_TRACKED_MEAL_TYPES: MealType[] = ["lunch", "dinner"];
+
+// Estimated nutrition stored with each meal record (kcal, grams)
+export const NUTRITION_KEYS = ["calories", "protein", "fat", "carbohydrate", "salt", "vegetableGrams"] as const;
+export type NutritionKey = (typeof NUTRITION_KEYS)[number];
+export type Nutrition = Record<NutritionKey, number | null>;
+
+// How a meal's price was spent (food budget report)
+export const COST_TYPES = ["home_cooked", "eaten_out"] as const;
+export type CostType = (typeof COST_TYPES)[number];
+
+// Where a meal came from; everything except home-cooked and bento counts as eating out
+export const MEAL_SOURCES = ["home_cooked", "bento", "restaurant", "convenience_store", "delivery", "cafeteria"] as const;
+export type MealSource = (typeof MEAL_SOURCES)[number];
+export const EATING_OUT_SOURCES: MealSource[] = ["restaurant", "convenience_store", "delivery", "cafeteria"];
+
+// Recurring meal templates either wait for a one-tap confirmation or record the meal automatically
+export const TEMPLATE_MODES = ["suggest", "auto"] as const;
+export type TemplateMode = (typeof TEMPLATE_MODES)[number];
+// Single-day exceptions to a template's weekly pattern
+export const TEMPLATE_EXCEPTION_ACTIONS = ["skip", "override"] as const;
+export type TemplateExceptionAction = (typeof TEMPLATE_EXCEPTION_ACTIONS)[number];
+
+// Longest CSV/JSON import pasted into the app. Japanese text is up to 3 bytes per character
+// in UTF-8, so this stays under the server's 5 MB JSON body limit with room for escaping
+export const MAX_IMPORT_CHARS = 1_500_000;
+
+// Photo analyses whose best dish candidate is less certain than this fill in nothing until a candidate is picked
+export const ANALYSIS_CONFIDENCE_THRESHOLD = 0.6;
+export const MAX_DISH_CANDIDATES = 3;
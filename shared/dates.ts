@@ -0,0 +1,109 @@
+/**
+ * Calendar date helpers shared by the server and the app.
+ *
+ * Meal dates are plain "YYYY-MM-DD" strings in the user's own timezone (IANA
+ * name stored on the user). "Today" is always computed for that zone, never
+ * from UTC or whatever zone the server happens to run in. Arithmetic on
+ * date strings is done on the calendar (UTC internally) so it is zone-free.
+ */
+
+export const DEFAULT_TIME_ZONE = "Asia/Tokyo";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA timezone of the device (falls back to DEFAULT_TIME_ZONE)
+ */
+export function getDeviceTimeZone(): string {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function getDateInTimeZone(timeZone: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(now);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+/**
+ * Wall-clock time (HH:MM, 24h) of an instant in the given timezone
+ */
+export function getTimeInTimeZone(timeZone: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return `${get("hour")}:${get("minute")}`;
+}
+
+/**
+ * Calendar date of a Date built from local components (e.g. a calendar cell)
+ */
+export function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function addDays(date: string, days: number): string {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the week of a date (0 = Sunday ... 6 = Saturday)
+ */
+export function getDayOfWeek(date: string): number {
+  return parseDate(date).getUTCDay();
+}
+
+/**
+ * Monday of the week containing the date (weeks run Monday to Sunday)
+ */
+export function getWeekStart(date: string): string {
+  const dayOfWeek = getDayOfWeek(date);
+  return addDays(date, dayOfWeek === 0 ? -6 : 1 - dayOfWeek);
+}
+
+/**
+ * The seven dates of the week starting on weekStart
+ */
+export function getWeekDates(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+}
+
+/**
+ * Whether a date sent as "today" is today in the user's timezone. A few
+ * minutes of grace keep requests made just before midnight valid
+ */
+export function isTodayInTimeZone(
+  date: string,
+  timeZone: string,
+  now: Date = new Date(),
+  graceMinutes: number = 5
+): boolean {
+  const earlier = new Date(now.getTime() - graceMinutes * 60 * 1000);
+  return date === getDateInTimeZone(timeZone, now) || date === getDateInTimeZone(timeZone, earlier);
+}
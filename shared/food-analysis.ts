@@ -0,0 +1,36 @@
+/**
+ * Result of a meal photo analysis, shared by the server (LLM call and the analysis
+ * cache table) and the app (record and backfill screens).
+ */
+
+import type { BoundingBox } from "./bounding-box";
+import type { Nutrition } from "./const";
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+export type DetectedDish = {
+  dishName: string;
+  category: Category;
+  portion?: string;
+  confidence: number;
+  boundingBox: BoundingBox | null;
+};
+
+export type DishCandidate = {
+  dishName: string;
+  category: Category;
+  confidence: number;
+};
+
+export type FoodAnalysis = {
+  // Most likely candidate; empty when nothing was recognized
+  dishName: string;
+  category: Category;
+  // Confidence of that candidate (0-1); below ANALYSIS_CONFIDENCE_THRESHOLD the app asks for manual input
+  confidence: number;
+  candidates: DishCandidate[];
+  description: string;
+  // Every dish in the photo; the app saves the ones the user keeps as meal items
+  dishes: DetectedDish[];
+  nutrition: Nutrition;
+};
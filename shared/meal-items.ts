@@ -0,0 +1,30 @@
+/**
+ * Dishes (items) of a meal record. A record saved without an item list stores its
+ * own dish as the single item; that item follows the record when it is renamed.
+ */
+
+type Category = "japanese" | "western" | "chinese" | "other";
+
+type MealItemLike = {
+  dishName: string;
+  category: Category;
+  portion?: string | null;
+  confidence?: number | null;
+  boundingBox?: unknown;
+};
+
+/**
+ * Whether the meal's only item is its own dish, created with the record rather
+ * than entered or detected as a dish of its own
+ */
+export function hasOnlyOwnDishItem(meal: { dishName: string; category: Category; items: MealItemLike[] }): boolean {
+  if (meal.items.length !== 1) return false;
+  const [item] = meal.items;
+  return (
+    item.dishName === meal.dishName &&
+    item.category === meal.category &&
+    !item.portion &&
+    item.confidence == null &&
+    item.boundingBox == null
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * When a meal photo was taken, read from its EXIF on the device (the server strips
+ * all metadata before storing), and the meal that time most likely belongs to.
+ *
+ * EXIF times have no zone: they are the camera's wall clock, which is what the
+ * user lived by when eating, so they are used as-is rather than converted.
+ */
+
+import type { MealType } from "./const";
+import { addDays } from "./dates";
+
+export type PhotoCaptureTime = { date: string; time: string }; // YYYY-MM-DD, HH:MM
+
+export type PhotoMealSuggestion = PhotoCaptureTime & { mealDate: string; mealType: MealType };
+
+// Tags in order of preference; iOS nests them under {Exif} / {TIFF}, Android does not
+const CAPTURE_TIME_TAGS: [group: string, tag: string][] = [
+  ["{Exif}", "DateTimeOriginal"],
+  ["{Exif}", "DateTimeDigitized"],
+  ["{TIFF}", "DateTime"],
+];
+
+// "2024:04:01 12:34:56" (some devices write dashes in the date)
+const EXIF_DATE_TIME = /^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2})/;
+
+// Meals eaten after midnight but before this hour count as the previous day's dinner
+const DAY_START = "04:00";
+const BREAKFAST_UNTIL = "10:30";
+const LUNCH_UNTIL = "16:00";
+
+/**
+ * Capture time of a photo from the image picker's `exif`, or null when it has none
+ */
+export function readExifCaptureTime(exif: Record<string, unknown> | null | undefined): PhotoCaptureTime | null {
+  if (!exif) return null;
+
+  for (const [group, tag] of CAPTURE_TIME_TAGS) {
+    const nested = exif[group] as Record<string, unknown> | undefined;
+    const value = exif[tag] ?? nested?.[tag];
+    const match = typeof value === "string" ? EXIF_DATE_TIME.exec(value.trim()) : null;
+    if (!match) continue;
+
+    const [, year, month, day, hour, minute] = match;
+    const date = `${year}-${month}-${day}`;
+    // Rejects zeroed-out values ("0000:00:00") and impossible dates
+    if (Number(year) < 1990 || Number(hour) > 23 || Number(minute) > 59 || addDays(date, 0) !== date) continue;
+    return { date, time: `${hour}:${minute}` };
+  }
+  return null;
+}
+
+/**
+ * Breakfast until 10:30, lunch until 16:00, dinner after that (including late nights)
+ */
+export function guessMealTypeFromTime(time: string): MealType {
+  if (time < DAY_START) return "dinner";
+  if (time < BREAKFAST_UNTIL) return "breakfast";
+  if (time < LUNCH_UNTIL) return "lunch";
+  return "dinner";
+}
+
+/**
+ * Date and meal type suggested for a photo, or null when it has no capture time
+ * or was taken after `today` (a wrong camera clock)
+ */
+export function suggestMealFromPhoto(
+  exif: Record<string, unknown> | null | undefined,
+  today: string
+): PhotoMealSuggestion | null {
+  const captured = readExifCaptureTime(exif);
+  if (!captured || captured.date > today) return null;
+
+  return {
+    ...captured,
+    mealDate: captured.time < DAY_START ? addDays(captured.date, -1) : captured.date,
+    mealType: guessMealTypeFromTime(captured.time),
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Meal history search shared by the server (meals.search) and guest mode (AsyncStorage records).
+ *
+ * Matching is a partial match on normalized text:
+ * - NFKC (full-width/half-width), lower case, spaces and "・" removed
+ * - katakana folded to hiragana
+ * - common kanji/kana spellings of dishes expanded via DISH_SPELLING_VARIANTS
+ */
+
+type SearchableMeal = {
+  date: string;
+  category: string;
+  dishName: string;
+  note?: string | null;
+  items?: { dishName: string }[];
+};
+
+// Spellings treated as the same dish name. Avoid very short kana entries that would over-match.
+const DISH_SPELLING_VARIANTS: string[][] = [
+  ["親子丼", "おやこどん"],
+  ["牛丼", "ぎゅうどん"],
+  ["天丼", "てんどん"],
+  ["唐揚げ", "唐揚", "から揚げ", "からあげ"],
+  ["天ぷら", "天麩羅", "てんぷら"],
+  ["味噌汁", "みそ汁", "みそしる"],
+  ["味噌", "みそ"],
+  ["餃子", "ぎょうざ", "ギョーザ"],
+  ["寿司", "鮨", "すし"],
+  ["刺身", "刺し身", "さしみ"],
+  ["蕎麦", "そば"],
+  ["饂飩", "うどん"],
+  ["拉麺", "らーめん"],
+  ["炒飯", "ちゃーはん"],
+  ["麻婆", "まーぼー"],
+  ["豚カツ", "とんかつ"],
+  ["生姜焼き", "しょうが焼き", "しょうがやき"],
+  ["焼きそば", "焼そば", "やきそば"],
+  ["焼き魚", "焼魚", "やきざかな"],
+  ["焼き鳥", "焼鳥", "やきとり"],
+  ["肉じゃが", "にくじゃが"],
+  ["お好み焼き", "お好み焼", "おこのみやき"],
+  ["御飯", "ご飯", "ごはん"],
+  ["玉子", "卵", "たまご"],
+  ["鶏肉", "とり肉", "鳥肉"],
+  ["豆腐", "とうふ"],
+  ["納豆", "なっとう"],
+  ["鮭", "さけ", "しゃけ"],
+  ["鯖", "さば"],
+  ["野菜", "やさい"],
+  ["煮物", "にもの"],
+  ["漬物", "漬け物", "つけもの"],
+  ["弁当", "べんとう"],
+  ["定食", "ていしょく"],
+  ["饅頭", "まんじゅう"],
+];
+
+// Upper bound on generated spellings per search term
+const MAX_VARIANTS = 32;
+
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\s・]+/g, "")
+    .replace(/[ァ-ヶ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+}
+
+const normalizedVariantGroups = DISH_SPELLING_VARIANTS.map((group) => group.map(normalizeSearchText));
+
+/**
+ * Expand one search term into every known spelling (all normalized)
+ */
+export function expandSearchTerm(term: string): string[] {
+  const variants = new Set([normalizeSearchText(term)]);
+
+  for (const group of normalizedVariantGroups) {
+    for (const variant of Array.from(variants)) {
+      const member = group.find((spelling) => variant.includes(spelling));
+      if (!member) continue;
+      for (const spelling of group) {
+        if (variants.size >= MAX_VARIANTS) break;
+        variants.add(variant.replace(member, spelling));
+      }
+    }
+  }
+
+  return Array.from(variants).filter((v) => v.length > 0);
+}
+
+/**
+ * Spellings of a term to look for in stored (un-normalized) text, e.g. with SQL LIKE:
+ * every expanded spelling plus its katakana form, since stored names keep their kana
+ */
+export function expandSearchTermForStoredText(term: string): string[] {
+  const toKatakana = (text: string) => text.replace(/[ぁ-ゖ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) + 0x60));
+  return Array.from(new Set(expandSearchTerm(term).flatMap((variant) => [variant, toKatakana(variant)])));
+}
+
+/**
+ * Every whitespace-separated term must match dishName, note or an item name
+ */
+export function matchesSearchQuery(meal: SearchableMeal, query: string): boolean {
+  const terms = query.split(/\s+/).filter(Boolean).map(expandSearchTerm);
+  if (terms.length === 0) return false;
+
+  const haystack = normalizeSearchText(
+    [meal.dishName, meal.note ?? "", ...(meal.items ?? []).map((item) => item.dishName)].join("\n")
+  );
+  return terms.every((variants) => variants.some((variant) => haystack.includes(variant)));
+}
+
+export type MealSearchFacets = {
+  categories: Record<string, number>;
+  months: { month: string; count: number }[]; // YYYY-MM, newest first
+};
+
+export function buildSearchFacets(meals: SearchableMeal[]): MealSearchFacets {
+  const categories: Record<string, number> = {};
+  const months: Record<string, number> = {};
+
+  for (const meal of meals) {
+    categories[meal.category] = (categories[meal.category] ?? 0) + 1;
+    const month = meal.date.slice(0, 7);
+    months[month] = (months[month] ?? 0) + 1;
+  }
+
+  return {
+    categories,
+    months: Object.entries(months)
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([month, count]) => ({ month, count })),
+  };
+}
+
+/**
+ * Search meals (newest first). Facets are computed over every match so that
+ * narrowing by category or month doesn't hide the other choices.
+ */
+export function searchMeals<T extends SearchableMeal>(
+  meals: T[],
+  query: string,
+  options: { category?: string; month?: string; limit?: number } = {}
+): { results: T[]; total: number; facets: MealSearchFacets } {
+  const matches = meals
+    .filter((meal) => matchesSearchQuery(meal, query))
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const filtered = matches.filter(
+    (meal) =>
+      (!options.category || meal.category === options.category) &&
+      (!options.month || meal.date.startsWith(options.month))
+  );
+
+  return {
+    results: options.limit ? filtered.slice(0, options.limit) : filtered,
+    total: filtered.length,
+    facets: buildSearchFacets(matches),
+  };
+}
@@ -17,6 +17,9 @@ function createAuthContext(): TrpcContext {
     lastSignedIn: new Date(),
     notificationEnabled: true,
     lunchReminderTime: "12:00",
+    trackedMealTypes: null,
+    monthlyFoodBudget: null,
+    timezone: null,
   };
 
   return {
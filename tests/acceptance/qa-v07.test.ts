@@ -0,0 +1,1620 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { appRouter } from "../../server/routers";
+import { calculateNutritionScore, parseNutrition, summarizeNutrition } from "../../server/nutrition";
+import { buildAccountArchive, collectAccountImageKeys, collectImageKeys, resolveOwnedGroupActions } from "../../server/account";
+import { summarizeSpending } from "../../server/budget";
+import { buildExportFiles, mealsToIcs, storageKeyFromUrl, toCsv } from "../../server/data-export";
+import { collectRecentVenues, describeMealSource, summarizeEatingOut } from "../../server/eating-out";
+import { applyColumnMapping, guessColumnMapping, parseCsv } from "../../server/meal-import";
+import { countRemainingPortions, excludeLeftoverDishes, formatLeftoversForPrompt } from "../../server/leftovers";
+import { parseDetectedDishes, parseDishCandidates } from "../../server/dish-detection";
+import { FAILED_FOOD_ANALYSIS, hashImageContent, parseFoodAnalysis } from "../../server/food-analysis";
+import { getAnalysisPrefill } from "../../shared/analysis-prefill";
+import { buildMealImageKeys, isOwnImageKey, processMealImage } from "../../server/image-processing";
+import { EMPTY_PACKAGED_FOOD_READING, parsePackagedFoodReading, toCatalogProduct } from "../../server/packaged-food";
+import { applyTemplateException, resolveTemplateForDate, runTemplateAutoCreate } from "../../server/meal-templates";
+import { formatRatingsForPrompt, splitRatedDishes, summarizeDishRatings } from "../../server/ratings";
+import { runTrashPurge } from "../../server/trash";
+import {
+  cancelUpload,
+  createUpload,
+  getUploadStatus,
+  MAX_PENDING_UPLOADS_PER_USER,
+  MAX_UPLOAD_BYTES,
+  sniffImageType,
+  takeUpload,
+  writeUploadChunk,
+} from "../../server/uploads";
+import { normalizeBarcode } from "../../shared/barcode";
+import { ANALYSIS_CONFIDENCE_THRESHOLD, MAX_DISH_CANDIDATES, MAX_IMPORT_CHARS } from "../../shared/const";
+import { hasOnlyOwnDishItem } from "../../shared/meal-items";
+import { clampBoundingBox, moveBoundingBox, resizeBoundingBox } from "../../shared/bounding-box";
+import { addDays, getDateInTimeZone, getWeekDates, getWeekStart, isTodayInTimeZone } from "../../shared/dates";
+import { guessMealTypeFromTime, readExifCaptureTime, suggestMealFromPhoto } from "../../shared/photo-time";
+import { expandSearchTerm, expandSearchTermForStoredText, matchesSearchQuery, normalizeSearchText, searchMeals } from "../../shared/search";
+import type { TrpcContext } from "../../server/_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(): TrpcContext {
+  const user: AuthenticatedUser = {
+    id: 1,
+    openId: "test-user",
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+    notificationEnabled: true,
+    lunchReminderTime: "12:00",
+    trackedMealTypes: null,
+    monthlyFoodBudget: null,
+    timezone: null,
+  };
+
+  return {
+    user,
+    req: {
+      protocol: "https",
+      hostname: "localhost",
+      headers: {
+        host: "localhost:3000",
+        "x-forwarded-proto": "https",
+      },
+      get: (name: string) => {
+        if (name === "host") return "localhost:3000";
+        return undefined;
+      },
+    } as unknown as TrpcContext["req"],
+    res: {
+      clearCookie: () => {},
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("QA Test Suite - v0.7 Features", () => {
+  describe("Meal Editing Feature", () => {
+    it("should reject an empty dish name", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.update({
+          id: 1,
+          dishName: "",
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should reject an invalid date format", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.update({
+          id: 1,
+          date: "2025/01/15",
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should reject an invalid category", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.update({
+          id: 1,
+          category: "invalid" as any,
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should require authentication", async () => {
+      const caller = appRouter.createCaller({ ...createAuthContext(), user: null });
+
+      await expect(
+        caller.meals.update({
+          id: 1,
+          dishName: "親子丼",
+        })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("Breakfast and Snack Meal Types", () => {
+    it("should reject an unknown meal type", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.create({
+          date: "2025-01-15",
+          mealType: "brunch" as any,
+          dishName: "パンケーキ",
+          category: "western",
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should default tracked meal types to lunch and dinner", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const result = await caller.settings.getTrackedMealTypes();
+
+      expect(result.trackedMealTypes).toEqual(["lunch", "dinner"]);
+    });
+
+    it("should return the user's tracked meal types", async () => {
+      const ctx = createAuthContext();
+      ctx.user!.trackedMealTypes = ["breakfast", "lunch", "dinner"];
+      const caller = appRouter.createCaller(ctx);
+
+      const result = await caller.settings.getTrackedMealTypes();
+
+      expect(result.trackedMealTypes).toEqual(["breakfast", "lunch", "dinner"]);
+    });
+
+    it("should reject an empty tracked meal type list", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.settings.updateTrackedMealTypes({ trackedMealTypes: [] })
+      ).rejects.toThrow();
+    });
+
+    it("should include every meal type in the weekly report", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const report = await caller.reports.getWeeklyReport({ weekStartDate: "2025-01-13" });
+
+      expect(report).toHaveProperty("breakfasts");
+      expect(report).toHaveProperty("snacks");
+      expect(report.trackedMealTypes).toEqual(["lunch", "dinner"]);
+      Object.values(report.dailyMeals).forEach((day) => {
+        expect(Object.keys(day).sort()).toEqual(["breakfast", "dinner", "lunch", "snack"]);
+      });
+    });
+  });
+
+  describe("Multiple Dishes per Meal", () => {
+    it("should reject an item with an invalid category", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.create({
+          date: "2025-01-15",
+          mealType: "dinner",
+          dishName: "焼き魚定食",
+          category: "japanese",
+          items: [{ dishName: "焼き鮭", category: "invalid" as any }],
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should reject an item without a dish name", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.create({
+          date: "2025-01-15",
+          mealType: "dinner",
+          dishName: "焼き魚定食",
+          category: "japanese",
+          items: [{ dishName: "", category: "japanese" }],
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should tell the record's own dish item from dishes entered or detected", () => {
+      const meal = { dishName: "カレー", category: "japanese" as const };
+
+      expect(hasOnlyOwnDishItem({ ...meal, items: [{ dishName: "カレー", category: "japanese" }] })).toBe(true);
+      expect(hasOnlyOwnDishItem({ ...meal, items: [{ dishName: "カツカレー", category: "japanese" }] })).toBe(false);
+      expect(
+        hasOnlyOwnDishItem({ ...meal, items: [{ dishName: "カレー", category: "japanese", confidence: 0.9 }] })
+      ).toBe(false);
+      expect(
+        hasOnlyOwnDishItem({
+          ...meal,
+          items: [
+            { dishName: "カレー", category: "japanese" },
+            { dishName: "サラダ", category: "western" },
+          ],
+        })
+      ).toBe(false);
+    });
+
+    it("should reject replacing items with an empty list", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.update({
+          id: 1,
+          items: [],
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should return an empty list for a date without meals", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const meals = await caller.meals.getByDate({ date: "2025-01-15" });
+
+      expect(Array.isArray(meals)).toBe(true);
+    });
+  });
+
+  describe("Per-meal Nutrition", () => {
+    const meal = (date: string, calories: number | null) => ({
+      date,
+      calories,
+      protein: calories === null ? null : 20,
+      fat: calories === null ? null : 15,
+      carbohydrate: calories === null ? null : 80,
+      salt: calories === null ? null : 2.5,
+      vegetableGrams: calories === null ? null : 100,
+    });
+
+    it("should reject negative nutrition values", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.update({
+          id: 1,
+          nutrition: { calories: -100 },
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should sum nutrition and average over days with estimates", () => {
+      const summary = summarizeNutrition([
+        meal("2025-01-13", 600),
+        meal("2025-01-13", 700),
+        meal("2025-01-14", 500),
+        meal("2025-01-15", null),
+      ]);
+
+      expect(summary.estimatedMeals).toBe(3);
+      expect(summary.days).toBe(2);
+      expect(summary.totals.calories).toBe(1800);
+      expect(summary.dailyAverage.calories).toBe(900);
+      expect(summary.dailyAverage.salt).toBe(3.8);
+    });
+
+    it("should not score a week without estimates", () => {
+      const summary = summarizeNutrition([meal("2025-01-13", null)]);
+
+      expect(summary.score).toBeNull();
+    });
+
+    it("should give a full score when the daily average meets the targets", () => {
+      expect(
+        calculateNutritionScore({
+          calories: 2000,
+          protein: 65,
+          fat: 60,
+          carbohydrate: 300,
+          salt: 6,
+          vegetableGrams: 400,
+        })
+      ).toBe(100);
+    });
+
+    it("should drop out-of-range values from LLM output", () => {
+      const nutrition = parseNutrition({ calories: 650.4, protein: "abc", salt: -1, fat: 21.26 });
+
+      expect(nutrition.calories).toBe(650);
+      expect(nutrition.protein).toBeNull();
+      expect(nutrition.salt).toBeNull();
+      expect(nutrition.fat).toBe(21.3);
+    });
+
+    it("should include nutrition totals in the weekly report", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const report = await caller.reports.getWeeklyReport({ weekStartDate: "2025-01-13" });
+
+      expect(report.nutrition).toHaveProperty("totals");
+      expect(report.nutrition).toHaveProperty("dailyAverage");
+      expect(report.nutrition.score).toBeNull();
+    });
+  });
+
+  describe("Paginated History", () => {
+    it("should reject a page size above the maximum", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.meals.list({ limit: 51 })).rejects.toThrow();
+    });
+
+    it("should reject a malformed cursor", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.list({ cursor: { date: "2025/01/15", id: 10 } })
+      ).rejects.toThrow();
+    });
+
+    it("should return an empty page without a next cursor", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const page = await caller.meals.list({ limit: 20, mealType: "dinner", category: "japanese" });
+
+      expect(page.items).toEqual([]);
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
+  describe("Meal History Search", () => {
+    const meals = [
+      { id: 1, date: "2025-01-10", category: "japanese", dishName: "親子丼", note: null },
+      { id: 2, date: "2025-01-20", category: "japanese", dishName: "カラアゲ定食", note: "大盛り" },
+      { id: 3, date: "2025-02-03", category: "chinese", dishName: "ラーメン", note: "唐揚げも注文" },
+      { id: 4, date: "2025-02-05", category: "western", dishName: "パスタ", note: null },
+    ];
+
+    it("should fold katakana and full-width characters", () => {
+      expect(normalizeSearchText("カラアゲ")).toBe("からあげ");
+      expect(normalizeSearchText("ＡＢＣ　ラーメン")).toBe("abcらーめん");
+    });
+
+    it("should expand kanji and kana spellings of a dish", () => {
+      expect(expandSearchTerm("唐揚げ")).toEqual(expect.arrayContaining(["からあげ", "から揚げ"]));
+      expect(expandSearchTerm("おやこどん")).toContain("親子丼");
+    });
+
+    it("should match kana queries against kanji dish names", () => {
+      expect(matchesSearchQuery(meals[0], "おやこ丼")).toBe(false);
+      expect(matchesSearchQuery(meals[0], "おやこどん")).toBe(true);
+      expect(matchesSearchQuery(meals[0], "親子")).toBe(true);
+    });
+
+    it("should search dish names and notes with facets", () => {
+      const result = searchMeals(meals, "唐揚げ");
+
+      expect(result.results.map((m) => m.id)).toEqual([3, 2]);
+      expect(result.facets.categories).toEqual({ japanese: 1, chinese: 1 });
+      expect(result.facets.months).toEqual([
+        { month: "2025-02", count: 1 },
+        { month: "2025-01", count: 1 },
+      ]);
+    });
+
+    it("should narrow by category without changing facets", () => {
+      const result = searchMeals(meals, "からあげ", { category: "japanese" });
+
+      expect(result.total).toBe(1);
+      expect(result.facets.categories.chinese).toBe(1);
+    });
+
+    it("should look for kana spellings as stored, including katakana", () => {
+      const spellings = expandSearchTermForStoredText("ギョーザ");
+
+      expect(spellings).toContain("餃子");
+      expect(spellings).toContain("ぎょーざ");
+      expect(spellings).toContain("ギョーザ");
+    });
+
+    it("should reject an empty query", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.meals.search({ query: "   " })).rejects.toThrow();
+    });
+
+    it("should return no results without stored meals", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const result = await caller.meals.search({ query: "親子丼" });
+
+      expect(result.total).toBe(0);
+      expect(result.results).toEqual([]);
+    });
+  });
+
+  describe("Tags and Custom Categories", () => {
+    it("should reject an invalid category color", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.categories.create({ name: "韓国料理", color: "red", icon: "🥘" })
+      ).rejects.toThrow();
+    });
+
+    it("should reject an empty category name", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.categories.create({ name: "  ", color: "#E74C3C", icon: "🥘" })
+      ).rejects.toThrow();
+    });
+
+    it("should reject more than 10 tags", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.update({
+          id: 1,
+          tags: Array.from({ length: 11 }, (_, i) => `tag${i}`),
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should reject a custom category the user does not own", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.update({
+          id: 1,
+          customCategoryId: 999,
+        })
+      ).rejects.toThrow("Category not found");
+    });
+
+    it("should include custom category and tag stats in the weekly report", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const report = await caller.reports.getWeeklyReport({ weekStartDate: "2025-01-13" });
+
+      expect(report.customCategoryStats).toEqual([]);
+      expect(report.tagStats).toEqual([]);
+    });
+  });
+
+  describe("Trash (Soft Delete)", () => {
+    it("should return an empty trash with the retention period when no DB", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const trash = await caller.trash.list();
+
+      expect(trash.meals).toEqual([]);
+      expect(trash.favorites).toEqual([]);
+      expect(trash.pantryItems).toEqual([]);
+      expect(trash.retentionDays).toBeGreaterThan(0);
+    });
+
+    it("should reject restoring an unknown item type", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        // @ts-expect-error - invalid type on purpose
+        caller.trash.restore({ type: "group", id: 1 })
+      ).rejects.toThrow();
+    });
+
+    it("should report a failed purge instead of throwing when no DB", async () => {
+      const result = await runTrashPurge(30);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("Meal Ratings", () => {
+    it("should reject a rating outside 1-5", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.meals.update({ id: 1, rating: 6 })).rejects.toThrow();
+      await expect(caller.meals.update({ id: 1, rating: 0 })).rejects.toThrow();
+      await expect(caller.meals.update({ id: 1, rating: 3.5 })).rejects.toThrow();
+    });
+
+    it("should average ratings per dish and keep the latest would-eat-again answer", () => {
+      const summaries = summarizeDishRatings([
+        { dishName: "カレー", rating: 5, wouldEatAgain: true },
+        { dishName: "カレー", rating: 4, wouldEatAgain: false },
+        { dishName: "焼き魚", rating: null, wouldEatAgain: false },
+      ]);
+
+      expect(summaries).toEqual([
+        { dishName: "カレー", averageRating: 4.5, ratingCount: 2, wouldEatAgain: true },
+        { dishName: "焼き魚", averageRating: null, ratingCount: 0, wouldEatAgain: false },
+      ]);
+    });
+
+    it("should split liked and disliked dishes", () => {
+      const { liked, disliked } = splitRatedDishes(
+        summarizeDishRatings([
+          { dishName: "カレー", rating: 5, wouldEatAgain: null },
+          { dishName: "ゴーヤチャンプルー", rating: 1, wouldEatAgain: null },
+          { dishName: "焼き魚", rating: 3, wouldEatAgain: false },
+          { dishName: "パスタ", rating: 3, wouldEatAgain: null },
+        ])
+      );
+
+      expect(liked.map(d => d.dishName)).toEqual(["カレー"]);
+      expect(disliked.map(d => d.dishName)).toEqual(["ゴーヤチャンプルー", "焼き魚"]);
+    });
+
+    it("should describe ratings for the recommendation prompt", () => {
+      expect(formatRatingsForPrompt([])).toBe("");
+
+      const prompt = formatRatingsForPrompt([
+        { dishName: "カレー", rating: 5, wouldEatAgain: true },
+        { dishName: "ゴーヤチャンプルー", rating: 1, wouldEatAgain: false },
+      ]);
+      expect(prompt).toContain("好評だった料理: カレー（★5）");
+      expect(prompt).toContain("不評だった料理: ゴーヤチャンプルー（★1）");
+    });
+  });
+
+  describe("Food Budget", () => {
+    it("should reject a negative price", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.meals.update({ id: 1, price: -100 })).rejects.toThrow();
+    });
+
+    it("should reject an invalid month", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.reports.getBudgetReport({ month: "2025-13" })).rejects.toThrow();
+    });
+
+    it("should return an empty month against the personal budget when no DB", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const report = await caller.reports.getBudgetReport({ month: "2024-02" });
+
+      expect(report.totalSpend).toBe(0);
+      expect(report.budget).toBeNull();
+      expect(report.daily).toHaveLength(29);
+    });
+
+    it("should refuse a group report for a group the user is not in", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.reports.getBudgetReport({ month: "2025-01", groupId: 999 })).rejects.toThrow(
+        "Group not found"
+      );
+    });
+
+    it("should sum spend per day, cost type, category and meal type", () => {
+      const report = summarizeSpending(
+        [
+          { date: "2025-01-05", mealType: "lunch", category: "japanese", price: 900, costType: "eaten_out" },
+          { date: "2025-01-05", mealType: "dinner", category: "western", price: 600, costType: "home_cooked" },
+          { date: "2025-01-06", mealType: "dinner", category: "japanese", price: 500, costType: null },
+          { date: "2025-01-06", mealType: "breakfast", category: "other", price: null, costType: null },
+          { date: "2025-02-01", mealType: "lunch", category: "chinese", price: 1000, costType: "eaten_out" },
+        ],
+        "2025-01",
+        10000
+      );
+
+      expect(report.totalSpend).toBe(2000);
+      expect(report.remaining).toBe(8000);
+      expect(report.usageRate).toBe(20);
+      expect(report.pricedMeals).toBe(3);
+      expect(report.byCostType).toEqual({ home_cooked: 1100, eaten_out: 900 });
+      expect(report.byCategory).toEqual({ japanese: 1400, western: 600, chinese: 0, other: 0 });
+      expect(report.byMealType).toEqual({ breakfast: 0, lunch: 900, dinner: 1100, snack: 0 });
+      expect(report.daily.find(d => d.date === "2025-01-05")?.total).toBe(1500);
+      expect(report.daily).toHaveLength(31);
+    });
+  });
+
+  describe("Eating-out Log", () => {
+    it("should reject out-of-range coordinates", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.meals.update({ id: 1, latitude: 91 })).rejects.toThrow();
+      await expect(caller.meals.update({ id: 1, longitude: -181 })).rejects.toThrow();
+    });
+
+    it("should reject an unknown source", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        // @ts-expect-error - invalid source on purpose
+        caller.meals.update({ id: 1, source: "picnic" })
+      ).rejects.toThrow();
+    });
+
+    it("should return no recent venues when no DB", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.meals.getRecentVenues()).resolves.toEqual([]);
+    });
+
+    it("should list distinct venues with the latest source and coordinates", () => {
+      const venues = collectRecentVenues([
+        { venueName: "大戸屋", source: "restaurant", latitude: 35.68, longitude: 139.76 },
+        { venueName: "セブンイレブン", source: "convenience_store", latitude: null, longitude: null },
+        { venueName: "大戸屋 ", source: "delivery", latitude: null, longitude: null },
+        { venueName: null, source: "home_cooked", latitude: null, longitude: null },
+      ]);
+
+      expect(venues).toEqual([
+        { venueName: "大戸屋", source: "restaurant", latitude: 35.68, longitude: 139.76, count: 2 },
+        { venueName: "セブンイレブン", source: "convenience_store", latitude: null, longitude: null, count: 1 },
+      ]);
+    });
+
+    it("should break down eating-out frequency", () => {
+      const summary = summarizeEatingOut([
+        { mealType: "lunch", source: "restaurant", venueName: "大戸屋" },
+        { mealType: "lunch", source: "restaurant", venueName: "大戸屋" },
+        { mealType: "lunch", source: "bento", venueName: null },
+        { mealType: "dinner", source: "home_cooked", venueName: null },
+        { mealType: "dinner", source: null, venueName: null },
+      ]);
+
+      expect(summary.recordedMeals).toBe(4);
+      expect(summary.eatingOutCount).toBe(2);
+      expect(summary.eatingOutRate).toBe(50);
+      expect(summary.eatingOutByMealType.lunch).toBe(2);
+      expect(summary.topVenues).toEqual([{ venueName: "大戸屋", count: 2 }]);
+    });
+
+    it("should describe where lunch was eaten for the prompt", () => {
+      expect(describeMealSource("restaurant", "大戸屋")).toBe("外食（レストラン・飲食店「大戸屋」）");
+      expect(describeMealSource("bento")).toBe("お弁当");
+      expect(describeMealSource(null)).toBe("不明");
+    });
+  });
+
+  describe("Meal Import", () => {
+    it("should parse quoted CSV fields", () => {
+      const rows = parseCsv('\uFEFFdate,dish,note\r\n2024-04-01,"カレー, 大盛り","""辛口"""\r\n\r\n');
+
+      expect(rows).toEqual([
+        ["date", "dish", "note"],
+        ["2024-04-01", "カレー, 大盛り", '"辛口"'],
+      ]);
+    });
+
+    it("should guess the mapping from Japanese headers", () => {
+      expect(guessColumnMapping(["日付", "区分", "メニュー", "ジャンル", "備考"])).toEqual({
+        date: "日付",
+        mealType: "区分",
+        dishName: "メニュー",
+        category: "ジャンル",
+        note: "備考",
+      });
+    });
+
+    it("should normalize dates, meal types and categories", () => {
+      const meal = applyColumnMapping(
+        { 日付: "2024/4/1", 食事: "夕食", 料理名: " 麻婆豆腐 ", カテゴリ: "中華" },
+        { date: "日付", mealType: "食事", dishName: "料理名", category: "カテゴリ" }
+      );
+
+      expect(meal).toEqual({
+        date: "2024-04-01",
+        mealType: "dinner",
+        dishName: "麻婆豆腐",
+        category: "chinese",
+        note: undefined,
+      });
+    });
+
+    it("should report per-row errors in a dry run without writing", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const result = await caller.migration.importMeals({
+        format: "csv",
+        content: "日付,食事,料理名\n2024/04/01,ランチ,親子丼\n昨日,lunch,ラーメン\n2024-04-02,夜食,\n",
+      });
+
+      expect(result.totalRows).toBe(3);
+      expect(result.validRows).toBe(1);
+      expect(result.missingFields).toEqual([]);
+      expect(result.errors.map(e => e.row)).toEqual([2, 3]);
+      expect(result.preview[0]).toMatchObject({ row: 1, date: "2024-04-01", mealType: "lunch", dishName: "親子丼" });
+      expect(result.importedCount).toBe(0);
+    });
+
+    it("should count rows repeated within the file as duplicates", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const result = await caller.migration.importMeals({
+        format: "csv",
+        content: "日付,食事,料理名\n2024-04-01,lunch,親子丼\n2024-04-01,dinner,親子丼\n2024-04-01,lunch,親子丼\n",
+      });
+
+      expect(result.validRows).toBe(2);
+      expect(result.duplicateRows).toEqual([3]);
+      expect(result.preview.map(p => p.row)).toEqual([1, 2]);
+    });
+
+    it("should refuse to import rows with errors unless they are skipped", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.migration.importMeals({
+          format: "json",
+          content: JSON.stringify([{ date: "not a date", mealType: "lunch", dishName: "カレー" }]),
+          dryRun: false,
+        })
+      ).rejects.toThrow("1 rows have errors");
+    });
+
+    it("should reject malformed JSON", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.migration.importMeals({ format: "json", content: "{meals:" })).rejects.toThrow("Invalid JSON");
+      await expect(caller.migration.importMeals({ format: "json", content: '{"a":1}' })).rejects.toThrow();
+    });
+
+    it("should keep the content limit within the 5 MB request body limit", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      // Japanese text is at most 3 bytes per character in UTF-8
+      expect(MAX_IMPORT_CHARS * 3).toBeLessThan(5 * 1024 * 1024);
+      await expect(
+        caller.migration.importMeals({ format: "csv", content: "あ".repeat(MAX_IMPORT_CHARS + 1) })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("Data Export", () => {
+    const meal = {
+      id: 7,
+      userId: 1,
+      groupId: null,
+      date: "2024-04-01",
+      mealType: "dinner" as const,
+      dishName: "焼き魚定食",
+      category: "japanese" as const,
+      note: "塩, 控えめ",
+      imageUrl: null,
+      imageKey: null,
+      thumbnailUrl: null,
+      thumbnailKey: null,
+      isFavorite: false,
+      calories: 650,
+      protein: null,
+      fat: null,
+      carbohydrate: null,
+      salt: null,
+      vegetableGrams: null,
+      customCategoryId: null,
+      tags: ["魚"],
+      rating: 4,
+      wouldEatAgain: true,
+      price: 980,
+      costType: "eaten_out" as const,
+      source: "restaurant" as const,
+      venueName: "大戸屋",
+      latitude: 35.68,
+      longitude: 139.76,
+      templateId: null,
+      leftoverPortions: null,
+      leftoverFromId: null,
+      deletedAt: null,
+      createdAt: new Date("2024-04-01T10:00:00Z"),
+      updatedAt: new Date("2024-04-01T10:00:00Z"),
+      items: [],
+    };
+
+    it("should reject a reversed date range", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.dataExport.create({ format: "csv", startDate: "2024-05-01", endDate: "2024-04-01" })
+      ).rejects.toThrow();
+    });
+
+    it("should return empty CSV tables when no DB", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const result = await caller.dataExport.create({ format: "csv", startDate: "2024-04-01", endDate: "2024-04-30" });
+
+      expect(result.mealCount).toBe(0);
+      expect(result.files.map(f => f.fileName)).toEqual(["meals_2024-04-01_2024-04-30.csv", "favorites.csv", "pantry.csv"]);
+      expect(result.files[0].content.startsWith("id,date,mealType,dishName")).toBe(true);
+    });
+
+    it("should quote CSV values containing commas and quotes", () => {
+      expect(toCsv(["a", "b"], [{ a: 'say "hi"', b: "x,y" }, { a: null, b: 3 }])).toBe('a,b\r\n"say ""hi""","x,y"\r\n,3\r\n');
+    });
+
+    it("should write one calendar event per meal", () => {
+      const ics = mealsToIcs([meal], new Date("2024-04-02T00:00:00Z"));
+
+      expect(ics).toContain("BEGIN:VEVENT\r\nUID:meal-7@meal-log\r\nDTSTAMP:20240402T000000Z");
+      expect(ics).toContain("DTSTART:20240401T190000");
+      expect(ics).toContain("SUMMARY:夕食: 焼き魚定食");
+      expect(ics).toContain("DESCRIPTION:650kcal\\n塩\\, 控えめ");
+      expect(ics).toContain("GEO:35.68;139.76");
+      expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    });
+
+    it("should include every table in the JSON export", () => {
+      const [file] = buildExportFiles("json", {
+        startDate: "2024-04-01",
+        endDate: "2024-04-30",
+        meals: [meal],
+        favorites: [],
+        pantry: [],
+      });
+
+      expect(file.mimeType).toBe("application/json");
+      expect(JSON.parse(file.content)).toMatchObject({ meals: [{ id: 7, dishName: "焼き魚定食" }], favorites: [], pantry: [] });
+    });
+
+    it("should find the storage key of uploaded photos", () => {
+      expect(storageKeyFromUrl("https://cdn.example.com/files/meals/1/1712-ab12.jpg?sig=x")).toBe("meals/1/1712-ab12.jpg");
+      expect(storageKeyFromUrl("https://example.com/other.jpg")).toBeNull();
+    });
+  });
+
+  describe("Account Data and Deletion", () => {
+    it("should return no owned groups when no DB", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.account.getOwnedGroups()).resolves.toEqual([]);
+    });
+
+    it("should fail the archive when the account cannot be read", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.account.exportAll()).rejects.toThrow("Account not found");
+    });
+
+    it("should not delete anything without a DB", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.account.delete()).rejects.toThrow("Database not available");
+    });
+
+    it("should hand owned groups to the longest-standing member by default", () => {
+      const actions = resolveOwnedGroupActions(1, [
+        {
+          groupId: 10,
+          members: [
+            { userId: 1, joinedAt: new Date("2024-01-01") },
+            { userId: 3, joinedAt: new Date("2024-03-01") },
+            { userId: 2, joinedAt: new Date("2024-02-01") },
+          ],
+        },
+        { groupId: 11, members: [{ userId: 1, joinedAt: new Date("2024-01-01") }] },
+      ]);
+
+      expect(actions).toEqual([
+        { groupId: 10, action: "transfer", newOwnerId: 2 },
+        { groupId: 11, action: "delete" },
+      ]);
+    });
+
+    it("should honor requested group actions", () => {
+      const group = {
+        groupId: 10,
+        members: [
+          { userId: 1, joinedAt: new Date("2024-01-01") },
+          { userId: 2, joinedAt: new Date("2024-02-01") },
+          { userId: 3, joinedAt: new Date("2024-03-01") },
+        ],
+      };
+
+      expect(resolveOwnedGroupActions(1, [group], [{ groupId: 10, action: "transfer", newOwnerId: 3 }])).toEqual([
+        { groupId: 10, action: "transfer", newOwnerId: 3 },
+      ]);
+      expect(resolveOwnedGroupActions(1, [group], [{ groupId: 10, action: "delete" }])).toEqual([
+        { groupId: 10, action: "delete" },
+      ]);
+      expect(() => resolveOwnedGroupActions(1, [group], [{ groupId: 10, action: "transfer", newOwnerId: 99 }])).toThrow(
+        "New owner must be another member of group 10"
+      );
+    });
+
+    it("should collect each stored photo once", () => {
+      expect(
+        collectImageKeys([
+          "https://cdn.example.com/meals/1/a.jpg",
+          null,
+          "https://cdn.example.com/meals/1/a.jpg?v=2",
+          "https://example.com/external.png",
+        ])
+      ).toEqual(["meals/1/a.jpg"]);
+    });
+
+    it("should archive thumbnails and cached analysis photos like account deletion removes them", () => {
+      const keys = collectAccountImageKeys({
+        meals: [
+          {
+            imageUrl: "https://cdn.example.com/meals/1/a.webp",
+            thumbnailUrl: "https://cdn.example.com/meals/1/a-thumb.webp",
+          },
+        ],
+        favorites: [{ imageUrl: null, thumbnailUrl: null }],
+        imageAnalyses: [
+          {
+            imageUrl: "https://cdn.example.com/meals/1/b.webp",
+            thumbnailUrl: "https://cdn.example.com/meals/1/b-thumb.webp",
+          },
+        ],
+      });
+
+      expect(keys).toEqual(["meals/1/a.webp", "meals/1/a-thumb.webp", "meals/1/b.webp", "meals/1/b-thumb.webp"]);
+    });
+
+    it("should build a dated JSON archive", () => {
+      const archive = buildAccountArchive({ meals: [] }, new Date("2024-04-01T12:00:00Z"));
+
+      expect(archive.fileName).toBe("meal-log-account_2024-04-01.json");
+      expect(JSON.parse(archive.content)).toEqual({ exportedAt: "2024-04-01T12:00:00.000Z", meals: [] });
+    });
+  });
+
+  describe("User Time Zone", () => {
+    it("should compute today in the user's timezone rather than UTC", () => {
+      const lateEveningUtc = new Date("2024-03-31T20:30:00Z");
+
+      expect(getDateInTimeZone("Asia/Tokyo", lateEveningUtc)).toBe("2024-04-01");
+      expect(getDateInTimeZone("America/Los_Angeles", lateEveningUtc)).toBe("2024-03-31");
+    });
+
+    it("should do calendar arithmetic across month ends", () => {
+      expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+      expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+      expect(getWeekStart("2024-04-07")).toBe("2024-04-01"); // Sunday belongs to the week starting Monday
+      expect(getWeekStart("2024-04-01")).toBe("2024-04-01");
+      expect(getWeekDates("2024-04-29")).toEqual([
+        "2024-04-29",
+        "2024-04-30",
+        "2024-05-01",
+        "2024-05-02",
+        "2024-05-03",
+        "2024-05-04",
+        "2024-05-05",
+      ]);
+    });
+
+    it("should accept yesterday as today for a few minutes after midnight", () => {
+      const justAfterMidnight = new Date("2024-03-31T15:02:00Z"); // 00:02 in Tokyo
+
+      expect(isTodayInTimeZone("2024-04-01", "Asia/Tokyo", justAfterMidnight)).toBe(true);
+      expect(isTodayInTimeZone("2024-03-31", "Asia/Tokyo", justAfterMidnight)).toBe(true);
+      expect(isTodayInTimeZone("2024-03-30", "Asia/Tokyo", justAfterMidnight)).toBe(false);
+    });
+
+    it("should reject a today that does not match the user's timezone", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.meals.getTodayLunch({ date: "2000-01-01" })).rejects.toThrow("2000-01-01 is not today in Asia/Tokyo");
+      await expect(caller.meals.getTodayLunch({ date: "2000-01-01" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      await expect(caller.meals.getTodayLunch({ date: getDateInTimeZone("Asia/Tokyo") })).resolves.toBeNull();
+    });
+
+    it("should reject unknown timezones", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.settings.updateTimeZone({ timezone: "Mars/Olympus_Mons" })).rejects.toThrow();
+    });
+
+    it("should default to Asia/Tokyo until a timezone is saved", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.settings.getTimeZone()).resolves.toEqual({ timezone: null, effectiveTimeZone: "Asia/Tokyo" });
+    });
+  });
+
+  describe("Recurring Meal Templates", () => {
+    const template = {
+      id: 5,
+      dishName: "社食A定食",
+      category: "japanese" as const,
+      note: null,
+      weekdays: [1, 2, 3, 4, 5],
+      isActive: true,
+    };
+
+    it("should apply only on the template's weekdays", () => {
+      expect(resolveTemplateForDate(template, [], "2024-04-01")).toEqual({
+        dishName: "社食A定食",
+        category: "japanese",
+        note: null,
+        overridden: false,
+      }); // Monday
+      expect(resolveTemplateForDate(template, [], "2024-04-06")).toBeNull(); // Saturday
+      expect(resolveTemplateForDate({ ...template, isActive: false }, [], "2024-04-01")).toBeNull();
+    });
+
+    it("should skip or override a single day", () => {
+      const exceptions = [
+        { templateId: 5, date: "2024-04-01", action: "skip" as const, dishName: null, category: null, note: null },
+        { templateId: 5, date: "2024-04-02", action: "override" as const, dishName: "カレー", category: "other" as const, note: null },
+      ];
+
+      expect(resolveTemplateForDate(template, exceptions, "2024-04-01")).toBeNull();
+      expect(resolveTemplateForDate(template, exceptions, "2024-04-02")).toMatchObject({ dishName: "カレー", category: "other", overridden: true });
+      expect(resolveTemplateForDate(template, exceptions, "2024-04-03")).toMatchObject({ dishName: "社食A定食", overridden: false });
+      expect(applyTemplateException(template, undefined)).toMatchObject({ dishName: "社食A定食" });
+    });
+
+    it("should reject templates without weekdays or with an invalid time", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.templates.create({ dishName: "弁当", category: "japanese", mealType: "lunch", weekdays: [] })
+      ).rejects.toThrow();
+      await expect(
+        caller.templates.create({ dishName: "弁当", category: "japanese", mealType: "lunch", weekdays: [7] })
+      ).rejects.toThrow();
+      await expect(
+        caller.templates.create({ dishName: "弁当", category: "japanese", mealType: "lunch", weekdays: [1], mode: "auto", time: "25:00" })
+      ).rejects.toThrow();
+    });
+
+    it("should need a dish or a favorite", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.templates.create({ mealType: "lunch", weekdays: [1] })).rejects.toThrow(
+        "dishName and category are required without a favorite"
+      );
+      await expect(caller.templates.create({ favoriteMealId: 1, mealType: "lunch", weekdays: [1] })).rejects.toThrow(
+        "Favorite meal not found"
+      );
+    });
+
+    it("should have no suggestions when no DB", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.templates.getForDate({ date: "2024-04-01" })).resolves.toEqual([]);
+      await expect(runTemplateAutoCreate(new Date("2024-04-01T03:00:00Z"))).resolves.toBe(0);
+    });
+
+    it("should only record a template for today", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.templates.record({ templateId: 1, date: "2000-01-03" })).rejects.toThrow("is not today");
+    });
+  });
+
+  describe("Meal Plans", () => {
+    it("should not plan meals in the past", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.mealPlans.create({ date: "2000-01-01", dishName: "肉じゃが", category: "japanese" })
+      ).rejects.toThrow("Cannot plan meals in the past");
+    });
+
+    it("should only assign plans to the user's own groups", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.mealPlans.create({ date: "2999-01-01", dishName: "肉じゃが", category: "japanese", groupId: 42 })
+      ).rejects.toThrow("Not a member of this group");
+    });
+
+    it("should have no plans when no DB", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.mealPlans.list({ startDate: "2024-04-01", endDate: "2024-04-30" })).resolves.toEqual([]);
+      await expect(caller.mealPlans.record({ id: 1 })).rejects.toThrow("Meal plan not found");
+      await expect(caller.mealPlans.delete({ id: 1 })).rejects.toThrow("Meal plan not found");
+    });
+  });
+
+  describe("Leftovers", () => {
+    it("should count the portions left after leftover meals", () => {
+      const dinner = { id: 10, leftoverPortions: 2 };
+
+      expect(countRemainingPortions(dinner, [])).toBe(2);
+      expect(countRemainingPortions(dinner, [{ leftoverFromId: 10 }, { leftoverFromId: 11 }])).toBe(1);
+      expect(countRemainingPortions(dinner, [{ leftoverFromId: 10 }, { leftoverFromId: 10 }, { leftoverFromId: 10 }])).toBe(0);
+      expect(countRemainingPortions({ id: 10, leftoverPortions: null }, [])).toBe(0);
+    });
+
+    it("should keep last night's leftover dish out of dinner recommendations", () => {
+      const recommendations = [
+        { name: "カレーライス", category: "western", reason: "" },
+        { name: "焼き魚定食", category: "japanese", reason: "" },
+        { name: "カレー うどん", category: "japanese", reason: "" },
+      ];
+
+      expect(excludeLeftoverDishes(recommendations, ["カレー"]).map(r => r.name)).toEqual(["焼き魚定食"]);
+      expect(excludeLeftoverDishes(recommendations, [])).toHaveLength(3);
+      expect(formatLeftoversForPrompt(["カレー"])).toContain("カレー");
+      expect(formatLeftoversForPrompt([])).toBe("");
+    });
+
+    it("should only allow leftovers on dinner", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.create({
+          date: "2024-04-01",
+          mealType: "lunch",
+          dishName: "カレー",
+          category: "western",
+          nutrition: { calories: null, protein: null, fat: null, carbohydrate: null, salt: null, vegetableGrams: null },
+          leftoverPortions: 2,
+        })
+      ).rejects.toThrow("Only dinner can have leftovers");
+      await expect(
+        caller.meals.create({ date: "2024-04-01", mealType: "dinner", dishName: "カレー", category: "western", leftoverPortions: 0 })
+      ).rejects.toThrow();
+    });
+
+    it("should have nothing to suggest when no DB", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+      const today = getDateInTimeZone("Asia/Tokyo");
+
+      await expect(caller.leftovers.getSuggestions({ date: today })).resolves.toEqual([]);
+      await expect(caller.leftovers.recordLunch({ mealId: 1, date: today })).rejects.toThrow("No leftovers left");
+      await expect(caller.leftovers.recordLunch({ mealId: 1, date: "2000-01-01" })).rejects.toThrow("is not today");
+    });
+  });
+
+  describe("Dish Detection", () => {
+    it("should keep valid dishes sorted by confidence", () => {
+      const dishes = parseDetectedDishes([
+        { dishName: "味噌汁", category: "japanese", confidence: 0.6, boundingBox: { x: 0.6, y: 0.5, width: 0.3, height: 0.3 } },
+        { dishName: "", category: "japanese", confidence: 0.9 },
+        { dishName: "焼き魚", category: "japanese", portion: "1切れ", confidence: 0.95, boundingBox: null },
+        { dishName: "サラダ", category: "salad", confidence: 0.8 },
+      ]);
+
+      expect(dishes.map((dish) => dish.dishName)).toEqual(["焼き魚", "味噌汁"]);
+      expect(dishes[0]).toEqual({
+        dishName: "焼き魚",
+        category: "japanese",
+        portion: "1切れ",
+        confidence: 0.95,
+        boundingBox: null,
+      });
+    });
+
+    it("should clamp boxes into the photo and default a missing confidence", () => {
+      const [dish] = parseDetectedDishes([
+        { dishName: "ご飯", category: "japanese", boundingBox: { x: 0.8, y: -0.1, width: 0.4, height: 0.3 } },
+      ]);
+
+      expect(dish.confidence).toBe(0.5);
+      expect(dish.boundingBox).toEqual({ x: 0.6, y: 0, width: 0.4, height: 0.3 });
+    });
+
+    it("should return no dishes for a non-array response", () => {
+      expect(parseDetectedDishes(undefined)).toEqual([]);
+      expect(parseDetectedDishes({ dishName: "ラーメン" })).toEqual([]);
+    });
+
+    it("should return the detected dishes once, including from an older items answer", () => {
+      const analysis = parseFoodAnalysis({
+        items: [{ dishName: "味噌汁", category: "japanese" }],
+      });
+
+      expect(analysis.dishes.map((dish) => dish.dishName)).toEqual(["味噌汁"]);
+      expect(analysis).not.toHaveProperty("items");
+    });
+
+    it("should keep crop edits inside the photo", () => {
+      const box = { x: 0.1, y: 0.1, width: 0.5, height: 0.5 };
+
+      expect(moveBoundingBox(box, -0.2, 0.1)).toEqual({ x: 0, y: 0.2, width: 0.5, height: 0.5 });
+      expect(resizeBoundingBox(box, 0.2)).toEqual({ x: 0, y: 0, width: 0.7, height: 0.7 });
+      expect(resizeBoundingBox({ x: 0.5, y: 0.5, width: 0.06, height: 0.06 }, -0.1)).toEqual({
+        x: 0.505,
+        y: 0.505,
+        width: 0.05,
+        height: 0.05,
+      });
+      expect(clampBoundingBox({ x: 0.9, y: 0.9, width: 2, height: 0 })).toEqual({ x: 0, y: 0.9, width: 1, height: 0.05 });
+    });
+
+    it("should reject meal items with an invalid box or confidence", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.meals.create({
+          date: "2025-01-15",
+          mealType: "dinner",
+          dishName: "焼き魚定食",
+          category: "japanese",
+          items: [{ dishName: "焼き魚", category: "japanese", boundingBox: { x: 0, y: 0, width: 0, height: 0.5 } }],
+        })
+      ).rejects.toThrow();
+
+      await expect(
+        caller.meals.create({
+          date: "2025-01-15",
+          mealType: "dinner",
+          dishName: "焼き魚定食",
+          category: "japanese",
+          items: [{ dishName: "焼き魚", category: "japanese", confidence: 1.5 }],
+        })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("Image Processing", () => {
+    // 2000x1000 JPEG taken with the camera turned (EXIF orientation 6) and tagged metadata
+    const createRotatedPhoto = () =>
+      sharp({ create: { width: 2000, height: 1000, channels: 3, background: "#c0392b" } })
+        .jpeg()
+        .withMetadata({ orientation: 6, exif: { IFD0: { Copyright: "test", Software: "camera" } } })
+        .toBuffer();
+
+    it("should store an upright, metadata-free WebP at display size", async () => {
+      const { display } = await processMealImage(await createRotatedPhoto());
+      const metadata = await sharp(display.data).metadata();
+
+      expect(metadata.format).toBe("webp");
+      expect([display.width, display.height]).toEqual([640, 1280]);
+      expect([metadata.width, metadata.height]).toEqual([640, 1280]);
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.orientation).toBeUndefined();
+    });
+
+    it("should produce a square thumbnail", async () => {
+      const { thumbnail } = await processMealImage(await createRotatedPhoto());
+      const metadata = await sharp(thumbnail.data).metadata();
+
+      expect(metadata.format).toBe("webp");
+      expect([metadata.width, metadata.height]).toEqual([320, 320]);
+    });
+
+    it("should not enlarge small photos", async () => {
+      const small = await sharp({ create: { width: 400, height: 300, channels: 3, background: "#ffffff" } }).png().toBuffer();
+      const { display } = await processMealImage(small);
+
+      expect([display.width, display.height]).toEqual([400, 300]);
+    });
+
+    it("should reject data that is not an image", async () => {
+      await expect(processMealImage(Buffer.from("not an image"))).rejects.toThrow();
+    });
+
+    it("should keep the thumbnail next to the display image", () => {
+      const { imageKey, thumbnailKey } = buildMealImageKeys(1, 1736900000000);
+
+      expect(imageKey).toMatch(/^meals\/1\/1736900000000-[a-z0-9]+\.webp$/);
+      expect(thumbnailKey).toBe(imageKey.replace(/\.webp$/, ".thumb.webp"));
+    });
+
+    it("should only accept the user's own image keys", async () => {
+      expect(isOwnImageKey(1, "meals/1/photo.webp")).toBe(true);
+      expect(isOwnImageKey(1, "meals/12/photo.webp")).toBe(false);
+      expect(isOwnImageKey(1, "meals/1/../2/photo.webp")).toBe(false);
+
+      const caller = appRouter.createCaller(createAuthContext());
+      await expect(
+        caller.meals.create({
+          date: "2025-01-15",
+          mealType: "dinner",
+          dishName: "カレー",
+          category: "japanese",
+          imageKey: "meals/2/photo.webp",
+        })
+      ).rejects.toThrow("Invalid image key");
+    });
+  });
+
+  describe("Photo Uploads", () => {
+    const jpegHeader = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01]);
+
+    async function* chunks(...parts: Buffer[]) {
+      for (const part of parts) yield part;
+    }
+
+    async function* interrupted(part: Buffer) {
+      yield part;
+      throw new Error("socket hang up");
+    }
+
+    it("should detect the image type from the file signature", async () => {
+      const png = await sharp({ create: { width: 2, height: 2, channels: 3, background: "#000000" } }).png().toBuffer();
+      const webp = await sharp({ create: { width: 2, height: 2, channels: 3, background: "#000000" } }).webp().toBuffer();
+
+      expect(sniffImageType(jpegHeader)).toBe("image/jpeg");
+      expect(sniffImageType(png)).toBe("image/png");
+      expect(sniffImageType(webp)).toBe("image/webp");
+      expect(sniffImageType(Buffer.from("<svg xmlns='http://www.w3.org/2000/svg'/>"))).toBeNull();
+    });
+
+    it("should resume an interrupted upload from the received offset", async () => {
+      const photo = Buffer.concat([jpegHeader, Buffer.alloc(100, 1)]);
+      const { uploadId } = await createUpload(1, photo.length);
+
+      const afterDrop = await writeUploadChunk(1, uploadId, 0, interrupted(photo.subarray(0, 40)));
+      expect(afterDrop).toMatchObject({ offset: 40, complete: false });
+      expect(getUploadStatus(1, uploadId).offset).toBe(40);
+
+      await expect(writeUploadChunk(1, uploadId, 0, chunks(photo))).rejects.toThrow("Upload-Offset must be 40");
+      await expect(takeUpload(1, uploadId)).rejects.toThrow("Upload is not complete");
+
+      const done = await writeUploadChunk(1, uploadId, 40, chunks(photo.subarray(40, 80), photo.subarray(80)));
+      expect(done).toMatchObject({ offset: photo.length, complete: true });
+
+      const { data, mimeType } = await takeUpload(1, uploadId);
+      expect(mimeType).toBe("image/jpeg");
+      expect(data.equals(photo)).toBe(true);
+      // An upload can only be used once
+      await expect(takeUpload(1, uploadId)).rejects.toThrow("Upload not found");
+    });
+
+    it("should enforce the size limits", async () => {
+      await expect(createUpload(1, MAX_UPLOAD_BYTES + 1)).rejects.toThrow("Uploads are limited");
+      await expect(createUpload(1, 0)).rejects.toThrow();
+
+      const { uploadId } = await createUpload(1, 20);
+      await expect(writeUploadChunk(1, uploadId, 0, chunks(jpegHeader, Buffer.alloc(20)))).rejects.toThrow(
+        "larger than its declared size"
+      );
+      expect(() => getUploadStatus(1, uploadId)).toThrow("Upload not found");
+    });
+
+    it("should limit how many unfinished uploads a user can hold", async () => {
+      const pending = [];
+      for (let i = 0; i < MAX_PENDING_UPLOADS_PER_USER; i++) {
+        pending.push(await createUpload(7, 100));
+      }
+
+      await expect(createUpload(7, 100)).rejects.toMatchObject({ statusCode: 429 });
+      // Other users are not affected
+      await cancelUpload(8, (await createUpload(8, 100)).uploadId);
+
+      await cancelUpload(7, pending[0].uploadId);
+      pending[0] = await createUpload(7, 100);
+      await Promise.all(pending.map(({ uploadId }) => cancelUpload(7, uploadId)));
+    });
+
+    it("should reject files that are not images whatever their name", async () => {
+      const html = Buffer.from("<html><body>not a photo</body></html>");
+      const { uploadId } = await createUpload(1, html.length);
+
+      await expect(writeUploadChunk(1, uploadId, 0, chunks(html))).rejects.toThrow("Only JPEG, PNG and WebP");
+    });
+
+    it("should keep uploads private to their user", async () => {
+      const { uploadId } = await createUpload(1, jpegHeader.length);
+
+      expect(() => getUploadStatus(2, uploadId)).toThrow("Upload belongs to another user");
+      await expect(takeUpload(2, uploadId)).rejects.toThrow("Upload belongs to another user");
+    });
+
+    it("should require a finished upload for analysis", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+      const { uploadId } = await createUpload(1, 1000);
+
+      await expect(caller.imageAnalysis.analyzeFood({ uploadId })).rejects.toThrow("Upload is not complete");
+      await expect(caller.imageAnalysis.analyzeFood({ uploadId: "not-an-upload" })).rejects.toThrow();
+    });
+  });
+
+  describe("Image Analysis Cache", () => {
+    it("should key photos by the hash of their bytes", async () => {
+      const photo = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#336699" } }).jpeg().toBuffer();
+      const other = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#996633" } }).jpeg().toBuffer();
+
+      expect(hashImageContent(photo)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashImageContent(Buffer.from(photo))).toBe(hashImageContent(photo));
+      expect(hashImageContent(other)).not.toBe(hashImageContent(photo));
+    });
+
+    it("should not present a failed analysis as a result", () => {
+      expect(FAILED_FOOD_ANALYSIS.dishName).toBe("");
+      expect(FAILED_FOOD_ANALYSIS.dishes).toEqual([]);
+      expect(FAILED_FOOD_ANALYSIS.nutrition.calories).toBeNull();
+    });
+
+    it("should report no savings without any analyses", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      expect(await caller.imageAnalysis.getCacheStats()).toEqual({ analyzedImages: 0, cacheHits: 0 });
+    });
+  });
+
+  describe("Dish Candidates", () => {
+    it("keeps the three most confident candidates without repeated names", () => {
+      const candidates = parseDishCandidates([
+        { dishName: "親子丼", category: "japanese", confidence: 0.4 },
+        { dishName: "カツ丼", category: "japanese", confidence: 0.7 },
+        { dishName: "カツ丼", category: "japanese", confidence: 0.3 },
+        { dishName: "オムライス", category: "western", confidence: 1.4 },
+        { dishName: "天津飯", category: "chinese" },
+        { dishName: "", category: "other", confidence: 0.9 },
+      ]);
+
+      expect(candidates).toHaveLength(MAX_DISH_CANDIDATES);
+      expect(candidates.map(c => c.dishName)).toEqual(["オムライス", "カツ丼", "天津飯"]);
+      expect(candidates[0].confidence).toBe(1);
+      expect(candidates[2].confidence).toBe(0.5);
+      expect(parseDishCandidates("カツ丼")).toEqual([]);
+    });
+
+    it("takes the name, category and confidence from the best candidate", () => {
+      const analysis = parseFoodAnalysis({
+        candidates: [
+          { dishName: "焼き魚定食", category: "japanese", confidence: 0.85 },
+          { dishName: "煮魚定食", category: "japanese", confidence: 0.1 },
+        ],
+        description: "鮭の塩焼きとご飯",
+        dishes: [{ dishName: "鮭の塩焼き", category: "japanese", confidence: 0.9 }],
+      });
+
+      expect(analysis.dishName).toBe("焼き魚定食");
+      expect(analysis.category).toBe("japanese");
+      expect(analysis.confidence).toBe(0.85);
+      expect(analysis.candidates).toHaveLength(2);
+      expect(analysis.confidence).toBeGreaterThanOrEqual(ANALYSIS_CONFIDENCE_THRESHOLD);
+    });
+
+    it("falls back to a single candidate from dishName or the top dish", () => {
+      const fromName = parseFoodAnalysis({ dishName: "ラーメン", category: "chinese" });
+      expect(fromName.candidates).toEqual([{ dishName: "ラーメン", category: "chinese", confidence: 0.5 }]);
+
+      const fromDish = parseFoodAnalysis({
+        dishes: [{ dishName: "ハンバーグ", category: "western", confidence: 0.3 }],
+      });
+      expect(fromDish.dishName).toBe("ハンバーグ");
+      expect(fromDish.confidence).toBe(0.3);
+      expect(fromDish.confidence).toBeLessThan(ANALYSIS_CONFIDENCE_THRESHOLD);
+    });
+
+    it("returns no candidates instead of a made-up name when nothing is recognized", () => {
+      for (const answer of [{}, { candidates: [], description: 42 }, null, "不明"]) {
+        const analysis = parseFoodAnalysis(answer);
+        expect(analysis.candidates).toEqual([]);
+        expect(analysis.dishName).toBe("");
+        expect(analysis.confidence).toBe(0);
+        expect(analysis.description).toBe("");
+      }
+      expect(FAILED_FOOD_ANALYSIS.candidates).toEqual([]);
+    });
+
+    it("ignores fields of the wrong type instead of trusting them", () => {
+      const analysis = parseFoodAnalysis({
+        dishName: 42,
+        category: "italian",
+        description: ["卵とじ"],
+        dishes: [{ dishName: "パスタ", category: "western", confidence: 0.7 }],
+      });
+
+      expect(analysis.dishName).toBe("パスタ");
+      expect(analysis.category).toBe("western");
+      expect(analysis.description).toBe("");
+      expect(parseFoodAnalysis(["ラーメン"]).candidates).toEqual([]);
+    });
+
+    it("fills in nothing from a low-confidence analysis until a candidate is picked", () => {
+      const analysis = parseFoodAnalysis({
+        candidates: [
+          { dishName: "親子丼", category: "japanese", confidence: 0.4 },
+          { dishName: "カツ丼", category: "japanese", confidence: 0.3 },
+        ],
+        description: "卵とじの丼",
+        dishes: [{ dishName: "親子丼", category: "japanese", confidence: 0.4 }],
+        nutrition: { calories: 700 },
+      });
+
+      expect(getAnalysisPrefill(analysis)).toBeNull();
+      expect(getAnalysisPrefill(FAILED_FOOD_ANALYSIS)).toBeNull();
+
+      const picked = getAnalysisPrefill(analysis, analysis.candidates[1]);
+      expect(picked).toMatchObject({ dishName: "カツ丼", category: "japanese", note: "卵とじの丼" });
+      expect(picked?.dishes).toHaveLength(1);
+      expect(picked?.nutrition.calories).toBe(700);
+
+      const confident = getAnalysisPrefill({ ...analysis, confidence: ANALYSIS_CONFIDENCE_THRESHOLD });
+      expect(confident?.dishName).toBe("親子丼");
+    });
+  });
+
+  describe("Photo Capture Time", () => {
+    it("reads the original capture time from flat or nested EXIF", () => {
+      expect(readExifCaptureTime({ DateTimeOriginal: "2024:04:01 12:34:56" })).toEqual({ date: "2024-04-01", time: "12:34" });
+      expect(readExifCaptureTime({ "{Exif}": { DateTimeOriginal: "2024:04:02 07:05:00" } })).toEqual({
+        date: "2024-04-02",
+        time: "07:05",
+      });
+      expect(
+        readExifCaptureTime({ DateTimeOriginal: "0000:00:00 00:00:00", "{TIFF}": { DateTime: "2024:04:03 19:00:00" } })
+      ).toEqual({ date: "2024-04-03", time: "19:00" });
+    });
+
+    it("ignores photos without a usable capture time", () => {
+      expect(readExifCaptureTime(null)).toBeNull();
+      expect(readExifCaptureTime({ GPSLatitude: 35.6 })).toBeNull();
+      expect(readExifCaptureTime({ DateTimeOriginal: "2024:02:30 12:00:00" })).toBeNull();
+      expect(readExifCaptureTime({ DateTimeOriginal: 1711942496 })).toBeNull();
+    });
+
+    it("guesses the meal from the time of day", () => {
+      expect(guessMealTypeFromTime("07:30")).toBe("breakfast");
+      expect(guessMealTypeFromTime("10:30")).toBe("lunch");
+      expect(guessMealTypeFromTime("15:59")).toBe("lunch");
+      expect(guessMealTypeFromTime("19:00")).toBe("dinner");
+      expect(guessMealTypeFromTime("01:30")).toBe("dinner");
+    });
+
+    it("suggests the previous day's dinner after midnight and nothing for future dates", () => {
+      expect(suggestMealFromPhoto({ DateTimeOriginal: "2024:04:02 01:30:00" }, "2024-04-05")).toEqual({
+        date: "2024-04-02",
+        time: "01:30",
+        mealDate: "2024-04-01",
+        mealType: "dinner",
+      });
+      expect(suggestMealFromPhoto({ DateTimeOriginal: "2024:04:05 12:10:00" }, "2024-04-05")?.mealType).toBe("lunch");
+      expect(suggestMealFromPhoto({ DateTimeOriginal: "2024:04:06 12:10:00" }, "2024-04-05")).toBeNull();
+    });
+  });
+
+  describe("Packaged Food", () => {
+    it("accepts JAN / EAN barcodes with a valid check digit", () => {
+      expect(normalizeBarcode("4901234567894")).toBe("4901234567894");
+      expect(normalizeBarcode("4 901234 567894")).toBe("4901234567894");
+      expect(normalizeBarcode("96385074")).toBe("96385074");
+      // UPC-A is stored as the equivalent EAN-13
+      expect(normalizeBarcode("036000291452")).toBe("0036000291452");
+    });
+
+    it("rejects misread or malformed barcodes", () => {
+      expect(normalizeBarcode("4901234567893")).toBeNull();
+      expect(normalizeBarcode("490123456789")).toBeNull();
+      expect(normalizeBarcode("49012345678X4")).toBeNull();
+      expect(normalizeBarcode("")).toBeNull();
+    });
+
+    it("reads the product name, category and label nutrition", () => {
+      const reading = parsePackagedFoodReading({
+        barcode: 4512345678906,
+        productName: " 手巻おにぎり 鮭 ",
+        category: "japanese",
+        nutrition: { calories: 180.4, protein: 4.26, fat: 1.2, carbohydrate: 38.1, salt: 1.05, vegetableGrams: null },
+      });
+
+      expect(reading.barcode).toBe("4512345678906");
+      expect(reading.productName).toBe("手巻おにぎり 鮭");
+      expect(reading.category).toBe("japanese");
+      expect(reading.nutrition).toMatchObject({ calories: 180, protein: 4.3, salt: 1.1, vegetableGrams: null });
+    });
+
+    it("drops a barcode that fails the check digit instead of looking it up", () => {
+      const reading = parsePackagedFoodReading({ barcode: "4512345678900", productName: "", category: "bento" });
+      expect(reading.barcode).toBeNull();
+      expect(reading.category).toBe("other");
+      expect(parsePackagedFoodReading(null).productName).toBe("");
+    });
+
+    it("ignores fields of the wrong type instead of trusting them", () => {
+      const reading = parsePackagedFoodReading({
+        barcode: { digits: "4512345678906" },
+        productName: ["手巻おにぎり"],
+        category: 3,
+        nutrition: { calories: "180" },
+      });
+
+      expect(reading).toEqual(EMPTY_PACKAGED_FOOD_READING);
+    });
+
+    it("maps catalog rows to name, category and nutrition", () => {
+      const product = toCatalogProduct({
+        id: 1,
+        barcode: "4901234567894",
+        name: "幕の内弁当",
+        category: "japanese",
+        calories: 650,
+        protein: 22.5,
+        fat: 18,
+        carbohydrate: 95.2,
+        salt: 3.4,
+        vegetableGrams: null,
+        addedBy: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      expect(product).toEqual({
+        id: 1,
+        barcode: "4901234567894",
+        name: "幕の内弁当",
+        category: "japanese",
+        nutrition: { calories: 650, protein: 22.5, fat: 18, carbohydrate: 95.2, salt: 3.4, vegetableGrams: null },
+      });
+    });
+
+    it("refuses to add a product with an invalid barcode", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+      await expect(
+        caller.products.create({
+          barcode: "1234567890123",
+          name: "サンドイッチ",
+          category: "western",
+          nutrition: { calories: 300, protein: 10, fat: 12, carbohydrate: 35, salt: 1.5, vegetableGrams: null },
+        })
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -25,6 +25,9 @@ function createAuthContext(): { ctx: TrpcContext; clearedCookies: CookieCall[] }
     lastSignedIn: new Date(),
     notificationEnabled: true,
     lunchReminderTime: "12:00",
+    trackedMealTypes: null,
+    monthlyFoodBudget: null,
+    timezone: null,
   };
 
   const ctx: TrpcContext = {
@@ -20,6 +20,9 @@ const mockUser = {
   lastSignedIn: new Date(),
   notificationEnabled: true,
   lunchReminderTime: "12:00",
+  trackedMealTypes: null,
+  monthlyFoodBudget: null,
+  timezone: null,
 };
 
 const mockGroup = {